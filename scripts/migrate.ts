@@ -0,0 +1,92 @@
+// Database migration CLI
+//
+// Usage:
+//   npm run db:migrate             Apply pending migrations
+//   npm run db:migrate -- status   Show applied and pending migrations
+//   npm run db:migrate -- --db ./path/to/questions.db status
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import {
+  runMigrations,
+  getMigrationStatus,
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+} from '../src/lib/migrations';
+import { getErrorMessage } from '../src/lib/utils';
+
+function parseArgs(argv: string[]): { command: string; dbPath: string } {
+  let command = 'up';
+  let dbPath = process.env.DATABASE_URL || 'src/data/questions.db';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--db') {
+      const value = argv[++i];
+      if (!value) {
+        throw new Error('--db requires a path');
+      }
+      dbPath = value;
+    } else if (arg) {
+      command = arg;
+    }
+  }
+
+  return { command, dbPath: path.resolve(process.cwd(), dbPath) };
+}
+
+function printStatus(db: Database.Database): void {
+  const version = getSchemaVersion(db);
+  console.log(`Schema version: ${version} (latest known: ${LATEST_SCHEMA_VERSION})`);
+
+  for (const migration of getMigrationStatus(db)) {
+    const state = migration.applied_at ? `applied ${migration.applied_at}` : 'pending';
+    console.log(`  ${String(migration.version).padStart(4, '0')} ${migration.name.padEnd(32)} ${state}`);
+  }
+
+  if (version > LATEST_SCHEMA_VERSION) {
+    console.log('  Database is newer than this application; the app will refuse to start.');
+  }
+}
+
+function main(): void {
+  const { command, dbPath } = parseArgs(process.argv.slice(2));
+
+  if (command !== 'up' && command !== 'status') {
+    throw new Error(`Unknown command "${command}". Use "up" or "status".`);
+  }
+
+  if (command === 'status' && !fs.existsSync(dbPath)) {
+    throw new Error(`Database not found at ${dbPath}`);
+  }
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+
+  try {
+    console.log(`Database: ${dbPath}`);
+
+    if (command === 'status') {
+      printStatus(db);
+      return;
+    }
+
+    const applied = runMigrations(db);
+    if (applied.length === 0) {
+      console.log('Schema is up to date.');
+    } else {
+      console.log(`Applied migration${applied.length !== 1 ? 's' : ''}: ${applied.join(', ')}`);
+    }
+    printStatus(db);
+  } finally {
+    db.close();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`Migration failed: ${getErrorMessage(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { User, UserRole, ApiResponse, USER_ROLES, USER_ROLE_LABELS } from '@/lib/types';
+import { formatDate, hasRole } from '@/lib/utils';
+import { useAuth } from '@/components/AuthProvider';
+import SignInPrompt from '@/components/SignInPrompt';
+import ApiKeysPanel from '@/components/ApiKeysPanel';
+import { ArrowLeft, Users, Loader2, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function AdminPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const isAdmin = hasRole(user, 'admin');
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (isAdmin) {
+      fetchUsers();
+    } else {
+      setLoading(false);
+    }
+  }, [isAdmin, authLoading]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users');
+      const data: ApiResponse<User[]> = await response.json();
+
+      if (data.success && data.data) {
+        setUsers(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch users');
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeRole = async (target: User, role: UserRole) => {
+    setSaving(target.id);
+    try {
+      const response = await fetch(`/api/users/${encodeURIComponent(target.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      const data: ApiResponse<User> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to change role');
+      }
+
+      const updated = data.data;
+      setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+      toast.success(data.message || 'Role updated');
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change role');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <Users className="h-8 w-8 text-blue-600" />
+            Users
+          </h1>
+          {isAdmin && (
+            <p className="text-gray-600 dark:text-gray-400">
+              Viewers can practise and track progress, editors can also generate and edit questions, admins can also delete questions and manage users
+            </p>
+          )}
+        </motion.div>
+
+        {!user ? (
+          <SignInPrompt message="Sign in with an admin account to manage users." />
+        ) : !isAdmin ? (
+          <div className="text-center py-12">
+            <ShieldAlert className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Admin access required</h3>
+            <p className="text-gray-600 dark:text-gray-400">Ask an admin to change your role.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-3 px-4 font-medium">Name</th>
+                    <th className="py-3 px-4 font-medium">Email</th>
+                    <th className="py-3 px-4 font-medium">Joined</th>
+                    <th className="py-3 px-4 font-medium">Role</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {users.map((u) => (
+                    <tr key={u.id} className="text-gray-700 dark:text-gray-300">
+                      <td className="py-3 px-4 font-medium text-gray-900 dark:text-white">
+                        {u.name}
+                        {u.id === user.id && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(you)</span>}
+                      </td>
+                      <td className="py-3 px-4">{u.email}</td>
+                      <td className="py-3 px-4">{formatDate(u.created_at)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={u.role}
+                            onChange={(e) => changeRole(u, e.target.value as UserRole)}
+                            disabled={saving !== null}
+                            className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          >
+                            {USER_ROLES.map((role) => (
+                              <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                            ))}
+                          </select>
+                          {saving === u.id && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <ApiKeysPanel users={users} currentUserId={user.id} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteApiKey } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { ApiResponse, DatabaseError, AuthError } from '@/lib/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Revoke a key; requests using it fail from now on
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse>> => {
+  try {
+    requireRole(request, 'admin');
+
+    if (!deleteApiKey(params.id)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'API key not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'API key revoked'
+    });
+
+  } catch (error) {
+    console.error('Error in DELETE /api/api-keys/[id]:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
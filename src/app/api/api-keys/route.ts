@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeys, getUser } from '@/lib/database';
+import { requireRole, issueApiKey, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, ApiKey, CreatedApiKey } from '@/lib/types';
+import { validateCreateApiKey } from '@/lib/validation';
+
+// Last-used times change on every call, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<ApiKey[]>>> => {
+  try {
+    requireRole(request, 'admin');
+
+    const apiKeys = getApiKeys();
+    return NextResponse.json({
+      success: true,
+      data: apiKeys,
+      message: `Retrieved ${apiKeys.length} API keys`
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/api-keys');
+  }
+});
+
+// The response holds the only copy of the key
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<CreatedApiKey>>> => {
+  try {
+    const admin = requireRole(request, 'admin');
+    const body = await request.json();
+    const { name, scopes, userId, expiresAt, rateLimit } = validateCreateApiKey(body);
+
+    const owner = userId ? getUser(userId) : admin;
+    if (!owner) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'User not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    const apiKey = issueApiKey(owner.id, name, scopes, rateLimit ?? null, expiresAt ?? null);
+    return NextResponse.json(
+      {
+        success: true,
+        data: apiKey,
+        message: 'API key created. Copy it now; it will not be shown again.'
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST /api/api-keys');
+  }
+});
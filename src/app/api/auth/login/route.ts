@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserByEmail } from '@/lib/database';
+import { hashPassword, startSession, verifyPassword, withRateLimit } from '@/lib/auth';
+import { ApiResponse, User, ValidationError, DatabaseError } from '@/lib/types';
+import { validateLogin } from '@/lib/validation';
+
+// Compared against when the email is unknown so both failure paths take the same time
+let dummyHash: Promise<string> | null = null;
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<User>>> => {
+  try {
+    const body = await request.json();
+    const { email, password } = validateLogin(body);
+
+    const account = getUserByEmail(email);
+    dummyHash ??= hashPassword('not-a-real-password');
+    const valid = await verifyPassword(password, account ? account.passwordHash : await dummyHash);
+
+    if (!account || !valid) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Invalid email or password' 
+        },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: account.user,
+      message: `Signed in as ${account.user.name}`
+    });
+    startSession(response, account.user);
+    return response;
+
+  } catch (error) {
+    console.error('Error in POST /api/auth/login:', error);
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession, withRateLimit } from '@/lib/auth';
+import { ApiResponse, DatabaseError } from '@/lib/types';
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<never>>> => {
+  try {
+    const response = NextResponse.json<ApiResponse<never>>({
+      success: true,
+      message: 'Signed out'
+    });
+    endSession(request, response);
+    return response;
+
+  } catch (error) {
+    console.error('Error in POST /api/auth/logout:', error);
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestContext, withRateLimit } from '@/lib/auth';
+import { ApiResponse, User, DatabaseError } from '@/lib/types';
+
+// Reads the session cookie, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+// The signed-in user, or null for anonymous visitors
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<User | null>>> => {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: getRequestContext(request).user
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/auth/me:', error);
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
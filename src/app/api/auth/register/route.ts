@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, getUserByEmail } from '@/lib/database';
+import { hashPassword, startSession, withRateLimit } from '@/lib/auth';
+import { ApiResponse, User, ValidationError, DatabaseError } from '@/lib/types';
+import { validateRegister } from '@/lib/validation';
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<User>>> => {
+  try {
+    const body = await request.json();
+    const { email, name, password } = validateRegister(body);
+
+    if (getUserByEmail(email)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'An account with this email already exists' 
+        },
+        { status: 409 }
+      );
+    }
+
+    const user = createUser(email, name, await hashPassword(password));
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: user,
+        message: 'Account created'
+      },
+      { status: 201 }
+    );
+    startSession(response, user);
+    return response;
+
+  } catch (error) {
+    console.error('Error in POST /api/auth/register:', error);
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,16 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getQuestion } from '@/lib/database';
-import { generateChatResponse } from '@/lib/gemini';
-import { ApiResponse, ValidationError, GeminiError, DatabaseError } from '@/lib/types';
+import { getQuestion, getConversation, addConversationMessage, isSolutionUnlocked } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { generateChatResponse, streamChatResponse } from '@/lib/gemini';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+import { ChatMessage, ValidationError, GeminiError, DatabaseError, AuthError } from '@/lib/types';
 import { validateChatRequest } from '@/lib/validation';
 import { getErrorMessage } from '@/lib/utils';
 
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<{ response: string }>>> {
+function streamResponse(
+  request: NextRequest,
+  tokens: (signal: AbortSignal) => AsyncGenerator<string>,
+  onFinish: (response: string) => ChatMessage | undefined
+): Response {
+  const abortController = new AbortController();
+  // Client disconnects (e.g. the Stop button) abort the upstream generation
+  request.signal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let response = '';
+      try {
+        for await (const token of tokens(abortController.signal)) {
+          response += token;
+          controller.enqueue(encodeSSE('token', { text: token }));
+        }
+
+        const saved = onFinish(response.trim());
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encodeSSE('done', { response: response.trim(), message: saved }));
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Error streaming /api/chat response:', getErrorMessage(error));
+          controller.enqueue(encodeSSE('error', {
+            error: 'AI service is temporarily unavailable. Please try again in a moment.'
+          }));
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by a disconnected client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<Response> => {
   try {
+    const user = requireUser(request);
     const body = await request.json();
     const validatedRequest = validateChatRequest(body);
     
-    const { questionId, message, chatHistory } = validatedRequest;
+    const { questionId, message, chatHistory, stream } = validatedRequest;
 
     // Get the question context
     const question = getQuestion(questionId);
@@ -46,25 +94,69 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       );
     }
 
+    // Persisted conversations supply their own history instead of trusting the client's. Imported
+    // assistant turns were written by the browser, not the tutor, so they stay out of it.
+    let history = chatHistory;
+    const conversationId = validatedRequest.conversationId;
+    if (conversationId) {
+      const conversation = getConversation(conversationId);
+      if (!conversation || conversation.questionId !== question.id || conversation.userId !== user.id) {
+        return NextResponse.json(
+          { 
+            success: false, 
+            error: 'Conversation not found' 
+          },
+          { status: 404 }
+        );
+      }
+      history = conversation.messages.filter(message => !(message.imported && message.role === 'assistant'));
+      addConversationMessage(conversationId, 'user', trimmedMessage);
+    }
+
+    const saveReply = (response: string): ChatMessage | undefined =>
+      conversationId && response ? addConversationMessage(conversationId, 'assistant', response) : undefined;
+
     // Limit chat history to prevent token overflow
-    const limitedHistory = chatHistory.slice(-10);
+    const limitedHistory = history.slice(-10);
+    const solutionUnlocked = isSolutionUnlocked(question, user);
+
+    // Stream tokens as server-sent events when requested
+    if (stream || request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamResponse(
+        request,
+        signal => streamChatResponse(question, trimmedMessage, limitedHistory, solutionUnlocked, signal),
+        saveReply
+      );
+    }
 
     // Generate AI response
-    const aiResponse = await generateChatResponse(question, trimmedMessage, limitedHistory);
+    const aiResponse = await generateChatResponse(question, trimmedMessage, limitedHistory, solutionUnlocked);
 
     if (!aiResponse || aiResponse.trim().length === 0) {
       throw new GeminiError('Empty response from AI service');
     }
 
+    const saved = saveReply(aiResponse.trim());
+
     return NextResponse.json({
       success: true,
-      data: { response: aiResponse.trim() },
+      data: { response: aiResponse.trim(), ...(saved ? { message: saved } : {}) },
       message: 'Chat response generated successfully'
     });
 
   } catch (error) {
     console.error('Error in POST /api/chat:', error);
 
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof ValidationError) {
       return NextResponse.json(
         { 
@@ -103,7 +195,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
   return new NextResponse(null, {
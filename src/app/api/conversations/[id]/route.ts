@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation, renameConversation, deleteConversation } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, ConversationWithMessages } from '@/lib/types';
+import { validateUpdateConversation } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Conversation not found' 
+    },
+    { status: 404 }
+  );
+}
+
+// Other users' conversations are reported as missing rather than forbidden
+function isOwnConversation(id: string, userId: string): boolean {
+  return getConversation(id)?.userId === userId;
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<ConversationWithMessages>>> => {
+  try {
+    const user = requireUser(request);
+    const conversation = getConversation(params.id);
+    if (!conversation || conversation.userId !== user.id) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: conversation
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/conversations/[id]');
+  }
+});
+
+export const PATCH = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<ConversationWithMessages>>> => {
+  try {
+    const user = requireUser(request);
+    const body = await request.json();
+    const { title } = validateUpdateConversation(body);
+
+    if (!isOwnConversation(params.id, user.id) || !renameConversation(params.id, title)) {
+      return notFound();
+    }
+
+    const conversation = getConversation(params.id);
+    if (!conversation) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: conversation,
+      message: 'Conversation renamed successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'PATCH /api/conversations/[id]');
+  }
+});
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const user = requireUser(request);
+    if (!isOwnConversation(params.id, user.id) || !deleteConversation(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation deleted successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/conversations/[id]');
+  }
+});
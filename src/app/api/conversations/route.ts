@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getConversationsByQuestion, createConversation } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, Conversation, ConversationWithMessages } from '@/lib/types';
+import { validateCreateConversation } from '@/lib/validation';
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<Conversation[]>>> => {
+  try {
+    const user = requireUser(request);
+    const questionId = request.nextUrl.searchParams.get('questionId')?.trim();
+    if (!questionId) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'questionId is required' 
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversations = getConversationsByQuestion(questionId, user.id);
+    return NextResponse.json({
+      success: true,
+      data: conversations,
+      message: `Retrieved ${conversations.length} conversations`
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/conversations');
+  }
+});
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<ConversationWithMessages>>> => {
+  try {
+    const user = requireUser(request);
+    const body = await request.json();
+    const { questionId, title, messages } = validateCreateConversation(body);
+
+    if (!getQuestion(questionId)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Question not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    const conversation = createConversation(questionId, user.id, title, messages);
+    return NextResponse.json(
+      {
+        success: true,
+        data: conversation,
+        message: 'Conversation created successfully'
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST /api/conversations');
+  }
+});
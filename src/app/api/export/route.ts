@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllQuestions, getQuestion } from '@/lib/database';
+import { getRequestContext, withRateLimit } from '@/lib/auth';
+import { getAllQuestions, getQuestion, getQuestionView } from '@/lib/database';
 import { validateExportFormat } from '@/lib/validation';
-import { ApiResponse, ValidationError, DatabaseError } from '@/lib/types';
-import { getErrorMessage } from '@/lib/utils';
+import { ApiResponse, ValidationError, DatabaseError, SUPPORTED_LANGUAGES, LANGUAGE_LABELS } from '@/lib/types';
+import { getErrorMessage, formatTestCaseArgs, withoutHiddenTestCases } from '@/lib/utils';
 
-export async function POST(request: NextRequest): Promise<NextResponse> {
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse> => {
   try {
+    const { user } = getRequestContext(request);
     const body = await request.json();
     const validatedRequest = validateExportFormat(body);
     
@@ -43,14 +45,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }
     }
 
+    // Hidden test cases never go into the book, whoever exports it. Hints and solutions are only
+    // included where the caller has unlocked them, as on the question page.
+    const views = questions.map(question => getQuestionView(withoutHiddenTestCases(question), user));
+
     if (format === 'markdown') {
       try {
         let markdown = '# AI Coding Book - Questions\n\n';
         markdown += `*Generated on: ${new Date().toLocaleDateString()}*\n\n`;
-        markdown += `**Total Questions:** ${questions.length}\n\n`;
+        markdown += `**Total Questions:** ${views.length}\n\n`;
         markdown += '---\n\n';
         
-        questions.forEach((question, index) => {
+        views.forEach((question, index) => {
           markdown += `## ${question.id}: ${question.title}\n\n`;
           markdown += `**Difficulty:** ${question.difficulty}  \n`;
           markdown += `**Topics:** ${question.topics.join(', ')}  \n`;
@@ -63,19 +69,54 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           markdown += `**Output:**\n\`\`\`\n${question.example.output}\n\`\`\`\n\n`;
           markdown += `**Explanation:** ${question.example.explanation}\n\n`;
           
-          markdown += `### Solution\n\n\`\`\`python\n${question.solution_python}\n\`\`\`\n\n`;
+          if (question.hints && question.hints.length > 0) {
+            markdown += `### Hints\n\n`;
+            question.hints.forEach((hint, hintIndex) => {
+              markdown += `${hintIndex + 1}. ${hint}\n`;
+            });
+            markdown += '\n';
+          }
           
-          markdown += `### Step-by-Step Explanation\n\n`;
-          question.step_by_step_explanation.forEach((step, stepIndex) => {
-            markdown += `${stepIndex + 1}. ${step}\n`;
+          // Every stored language, Python first
+          markdown += `### Solution\n\n`;
+          if (question.solution_python === undefined) {
+            markdown += `*Locked: reveal the hints on the question page to unlock the solution.*\n\n`;
+          }
+          SUPPORTED_LANGUAGES.forEach(language => {
+            const code = language === 'python' ? question.solution_python : question.solutions?.[language];
+            if (code) {
+              markdown += `#### ${LANGUAGE_LABELS[language]}\n\n\`\`\`${language}\n${code.trimEnd()}\n\`\`\`\n\n`;
+            }
           });
-          markdown += '\n';
+          
+          // Hidden test cases stay out of the book so they can still be used for checking
+          const visibleTests = question.test_cases ?? [];
+          const hiddenCount = question.hidden_test_count;
+          if (visibleTests.length > 0 || hiddenCount > 0) {
+            markdown += `### Test Cases\n\n`;
+            visibleTests.forEach((testCase, testIndex) => {
+              const label = testCase.label ? `**${testCase.label}** — ` : '';
+              markdown += `${testIndex + 1}. ${label}Input: \`${formatTestCaseArgs(testCase.args)}\` → Expected: \`${JSON.stringify(testCase.expected)}\`\n`;
+            });
+            if (hiddenCount > 0) {
+              markdown += `\n*${hiddenCount} hidden test case${hiddenCount !== 1 ? 's' : ''} not shown.*\n`;
+            }
+            markdown += '\n';
+          }
+          
+          if (question.step_by_step_explanation) {
+            markdown += `### Step-by-Step Explanation\n\n`;
+            question.step_by_step_explanation.forEach((step, stepIndex) => {
+              markdown += `${stepIndex + 1}. ${step}\n`;
+            });
+            markdown += '\n';
+          }
           
           if (question.pseudocode && question.pseudocode.length > 0) {
             markdown += `### Pseudocode\n\n\`\`\`\n${question.pseudocode.join('\n')}\n\`\`\`\n\n`;
           }
           
-          if (index < questions.length - 1) {
+          if (index < views.length - 1) {
             markdown += '---\n\n';
           }
         });
@@ -105,11 +146,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json({
         success: true,
         data: {
-          questions,
+          questions: views,
           metadata: {
             title: 'AI Coding Book - Questions',
             generatedOn: new Date().toLocaleDateString(),
-            totalQuestions: questions.length,
+            totalQuestions: views.length,
           }
         },
         message: 'Questions data ready for PDF generation'
@@ -155,7 +196,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
   return new NextResponse(null, {
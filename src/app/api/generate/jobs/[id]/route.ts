@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGenerationJob } from '@/lib/database';
+// Loading the job runner makes this process resume interrupted jobs, in case no generation has started here yet
+import '@/lib/jobs';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { ApiResponse, GenerationJob, DatabaseError, AuthError } from '@/lib/types';
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<GenerationJob>>> => {
+  try {
+    const user = requireUser(request);
+    const id = params.id?.trim();
+    if (!id) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Invalid job ID provided' 
+        },
+        { status: 400 }
+      );
+    }
+
+    // Other users' jobs are reported as missing rather than forbidden
+    const job = getGenerationJob(id);
+    if (!job || job.userId !== user.id) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Generation job not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: job
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in GET /api/generate/jobs/[id]:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
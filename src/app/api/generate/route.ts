@@ -1,15 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateQuestionMetadata } from '@/lib/gemini';
-import { saveQuestion } from '@/lib/database';
-import { Question, ApiResponse, GenerationStatus, ValidationError, GeminiError, DatabaseError } from '@/lib/types';
-import { validateGenerateRequest, validateAndSanitizeTitle } from '@/lib/validation';
-import { generateId, getErrorMessage, sleep } from '@/lib/utils';
+import { startGenerationJob } from '@/lib/jobs';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { ApiResponse, GenerationJob, ValidationError, DatabaseError, AuthError } from '@/lib/types';
+import { validateGenerateRequest } from '@/lib/validation';
 
-const MAX_CONCURRENT_GENERATIONS = 3;
-const GENERATION_DELAY = 1000; // 1 second between generations
-
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<GenerationStatus>>> {
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<{ jobId: string; job: GenerationJob }>>> => {
   try {
+    const user = requireRole(request, 'editor');
     const body = await request.json();
     const validatedRequest = validateGenerateRequest(body);
     
@@ -33,95 +30,16 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       );
     }
 
-    const generationStatus: GenerationStatus = {
-      total: validatedRequest.titles.length,
-      completed: 0,
-      failed: 0,
-      errors: []
-    };
-
-    const generatedQuestions: Question[] = [];
-
-    // Process titles in batches to avoid overwhelming the API
-    const batches = [];
-    for (let i = 0; i < validatedRequest.titles.length; i += MAX_CONCURRENT_GENERATIONS) {
-      batches.push(validatedRequest.titles.slice(i, i + MAX_CONCURRENT_GENERATIONS));
-    }
-
-    for (const batch of batches) {
-      const batchPromises = batch.map(async (title, batchIndex) => {
-        try {
-          // Validate and sanitize title
-          const sanitizedTitle = validateAndSanitizeTitle(title);
-          
-          // Add delay between requests to respect rate limits
-          if (batchIndex > 0) {
-            await sleep(GENERATION_DELAY);
-          }
-
-          const metadata = await generateQuestionMetadata(sanitizedTitle);
-          
-          const question: Question = {
-            id: generateId(),
-            ...metadata,
-            title: sanitizedTitle, // Use sanitized title
-            created_at: new Date().toISOString(),
-          };
-
-          // Validate generated question before saving
-          if (!question.title || !question.description || !question.solution_python) {
-            throw new Error('Generated question is incomplete');
-          }
-
-          saveQuestion(question);
-          generatedQuestions.push(question);
-          generationStatus.completed++;
-          
-          return { success: true, question };
-        } catch (error) {
-          const errorMessage = getErrorMessage(error);
-          console.error(`Error generating question for "${title}":`, errorMessage);
-          
-          generationStatus.failed++;
-          generationStatus.errors.push(`Failed to generate "${title}": ${errorMessage}`);
-          
-          return { success: false, error: errorMessage, title };
-        }
-      });
-
-      // Wait for current batch to complete before starting next batch
-      await Promise.all(batchPromises);
-      
-      // Add delay between batches
-      if (batches.indexOf(batch) < batches.length - 1) {
-        await sleep(GENERATION_DELAY * 2);
-      }
-    }
-
-    // Determine response status based on results
-    if (generationStatus.completed === 0) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Failed to generate any questions',
-          data: generationStatus
-        },
-        { status: 500 }
-      );
-    }
-
-    const isPartialSuccess = generationStatus.failed > 0;
-    const statusCode = isPartialSuccess ? 207 : 200; // 207 Multi-Status for partial success
+    const languages = Array.from(new Set(validatedRequest.languages));
+    const job = startGenerationJob(user.id, validatedRequest.titles, languages, validatedRequest.onDuplicate);
 
     return NextResponse.json(
       { 
-        success: !isPartialSuccess,
-        data: generationStatus,
-        message: `Successfully generated ${generationStatus.completed} out of ${generationStatus.total} questions${
-          isPartialSuccess ? ` (${generationStatus.failed} failed)` : ''
-        }`
+        success: true,
+        data: { jobId: job.id, job },
+        message: `Queued ${job.items.length} question${job.items.length !== 1 ? 's' : ''} for generation`
       },
-      { status: statusCode }
+      { status: 202 }
     );
 
   } catch (error) {
@@ -137,13 +55,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       );
     }
 
-    if (error instanceof GeminiError) {
+    if (error instanceof AuthError) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'AI service temporarily unavailable. Please try again later.' 
+          error: error.message 
         },
-        { status: 503 }
+        { status: error.statusCode }
       );
     }
 
@@ -165,7 +83,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       { status: 500 }
     );
   }
-}
+});
 
 // Rate limiting check
 export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getQuestionCount } from '@/lib/database';
-import { validateGeminiApiKey } from '@/lib/gemini';
+import { validateAIProvider } from '@/lib/gemini';
+import { getLLMProviderName } from '@/lib/llm';
+import { getRequestContext } from '@/lib/auth';
+import { hasRole } from '@/lib/utils';
 
 interface HealthStatus {
   status: 'healthy' | 'unhealthy';
@@ -11,6 +14,7 @@ interface HealthStatus {
     database: 'healthy' | 'unhealthy';
     ai: 'healthy' | 'unhealthy';
   };
+  aiProvider: string;
   metrics?: {
     totalQuestions: number;
     memoryUsage: NodeJS.MemoryUsage;
@@ -29,16 +33,22 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       database: 'healthy',
       ai: 'healthy',
     },
+    aiProvider: getLLMProviderName(),
   };
 
   try {
+    // Load balancers only need the status; counts, memory and the AI probe are for admins
+    const isAdmin = hasRole(getRequestContext(request).user, 'admin');
+
     // Check database health
     try {
       const questionCount = getQuestionCount();
-      healthStatus.metrics = {
-        totalQuestions: questionCount,
-        memoryUsage: process.memoryUsage(),
-      };
+      if (isAdmin) {
+        healthStatus.metrics = {
+          totalQuestions: questionCount,
+          memoryUsage: process.memoryUsage(),
+        };
+      }
     } catch (error) {
       console.error('Database health check failed:', error);
       healthStatus.services.database = 'unhealthy';
@@ -46,10 +56,10 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check AI service health (optional, might be slow)
-    const checkAI = request.nextUrl.searchParams.get('check_ai') === 'true';
+    const checkAI = isAdmin && request.nextUrl.searchParams.get('check_ai') === 'true';
     if (checkAI) {
       try {
-        const isAiHealthy = await validateGeminiApiKey();
+        const isAiHealthy = await validateAIProvider();
         if (!isAiHealthy) {
           healthStatus.services.ai = 'unhealthy';
           healthStatus.status = 'unhealthy';
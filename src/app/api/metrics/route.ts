@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getQuestionStats } from '@/lib/database';
 import { cache } from '@/lib/cache';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { AuthError } from '@/lib/types';
 
 interface SystemMetrics {
   timestamp: string;
@@ -21,8 +23,9 @@ interface SystemMetrics {
   };
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse> => {
   try {
+    requireRole(request, 'admin');
     const stats = getQuestionStats();
     const cacheStats = cache.getStats();
 
@@ -47,6 +50,18 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { 
+          status: error.statusCode,
+          headers: {
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+          },
+        }
+      );
+    }
+
     console.error('Metrics collection failed:', error);
     
     return NextResponse.json(
@@ -62,7 +77,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       }
     );
   }
-}
+});
 
 // Only allow GET requests
 export async function POST(): Promise<NextResponse> {
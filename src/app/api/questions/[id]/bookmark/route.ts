@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, isBookmarked, setBookmark } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse } from '@/lib/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+type BookmarkState = { bookmarked: boolean };
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<BookmarkState>>> => {
+  try {
+    const user = requireUser(request);
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { bookmarked: isBookmarked(user.id, params.id) }
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/bookmark');
+  }
+});
+
+export const PUT = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<BookmarkState>>> => {
+  try {
+    const user = requireUser(request);
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    setBookmark(user.id, params.id, true);
+
+    return NextResponse.json({
+      success: true,
+      data: { bookmarked: true },
+      message: 'Question bookmarked'
+    });
+
+  } catch (error) {
+    return handleError(error, 'PUT /api/questions/[id]/bookmark');
+  }
+});
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<BookmarkState>>> => {
+  try {
+    const user = requireUser(request);
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    setBookmark(user.id, params.id, false);
+
+    return NextResponse.json({
+      success: true,
+      data: { bookmarked: false },
+      message: 'Bookmark removed'
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/questions/[id]/bookmark');
+  }
+});
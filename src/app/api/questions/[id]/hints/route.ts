@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getHintProgress, revealHints } from '@/lib/database';
+import { getRequestContext, requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, HintProgress } from '@/lib/types';
+import { validateHintReveal } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<HintProgress>>> => {
+  try {
+    const question = getQuestion(params.id);
+    if (!question) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      // Anonymous visitors see the ladder with nothing revealed
+      data: getHintProgress(question, getRequestContext(request).user?.id ?? null)
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/hints');
+  }
+});
+
+// Reveal the next hint, or every remaining hint when the learner asks for the solution
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<HintProgress>>> => {
+  try {
+    const user = requireUser(request);
+    // An empty body means "next hint"
+    const body = await request.json().catch(() => ({}));
+    const { action } = validateHintReveal(body);
+
+    const question = getQuestion(params.id);
+    if (!question) {
+      return notFound();
+    }
+
+    const current = getHintProgress(question, user.id);
+    if (action === 'next' && current.solutionUnlocked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: current.total > 0 ? 'All hints have already been revealed' : 'This question has no hints'
+        },
+        { status: 409 }
+      );
+    }
+
+    const progress = revealHints(question, user.id, action === 'solution');
+
+    return NextResponse.json({
+      success: true,
+      data: progress,
+      message: action === 'solution'
+        ? 'Solution unlocked'
+        : `Hint ${progress.revealed.length} of ${progress.total} revealed`
+    });
+
+  } catch (error) {
+    return handleError(error, 'POST /api/questions/[id]/hints');
+  }
+});
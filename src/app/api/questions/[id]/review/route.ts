@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getConversation, createConversation, addConversationMessage } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { reviewSolution } from '@/lib/gemini';
+import { isRunnerAvailable, runQuestionTests } from '@/lib/runner';
+import {
+  ApiResponse,
+  CodeReviewResult,
+  RunResult,
+  ValidationError,
+  GeminiError,
+  DatabaseError,
+  RunnerError,
+  AuthError,
+  LANGUAGE_LABELS,
+} from '@/lib/types';
+import { validateCodeReviewRequest } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Review the user's own code and post the request and structured feedback into a chat thread
+export const POST = withRateLimit(async (request: NextRequest, { params }: RouteContext): Promise<NextResponse<ApiResponse<CodeReviewResult>>> => {
+  try {
+    const user = requireUser(request);
+    const body = await request.json();
+    const { code, language, conversationId } = validateCodeReviewRequest(body);
+
+    const question = getQuestion(params.id);
+    if (!question) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Question not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    if (conversationId) {
+      const conversation = getConversation(conversationId);
+      if (!conversation || conversation.questionId !== question.id || conversation.userId !== user.id) {
+        return NextResponse.json(
+          { 
+            success: false, 
+            error: 'Conversation not found' 
+          },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Ground the review in real test results where the code can be run
+    let run: RunResult | null = null;
+    if (language === 'python' && isRunnerAvailable()) {
+      try {
+        run = await runQuestionTests(question, code);
+      } catch (error) {
+        if (!(error instanceof RunnerError)) {
+          throw error;
+        }
+        console.error('Skipping tests for code review:', error.message);
+      }
+    }
+
+    const review = await reviewSolution(question, code, language, run);
+
+    const threadId = conversationId ?? createConversation(question.id, user.id, `Review of my ${LANGUAGE_LABELS[language]} solution`).id;
+    const messages = [
+      addConversationMessage(threadId, 'user', `Review my ${LANGUAGE_LABELS[language]} solution:\n\n${code}`),
+      addConversationMessage(threadId, 'assistant', review.summary, review),
+    ];
+
+    return NextResponse.json({
+      success: true,
+      data: { review, conversationId: threadId, messages },
+      message: 'Code review generated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/questions/[id]/review:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GeminiError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'AI service is temporarily unavailable. Please try again in a moment.' 
+        },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getRevisionContent } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { diffQuestionContent } from '@/lib/utils';
+import { ApiResponse, RevisionDiff } from '@/lib/types';
+import { validateRevisionDiffQuery } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(error: string): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error 
+    },
+    { status: 404 }
+  );
+}
+
+// Field-by-field changes between ?from and ?to, where "to" defaults to the latest revision
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<RevisionDiff>>> => {
+  try {
+    requireRole(request, 'editor');
+    const { searchParams } = new URL(request.url);
+    const { from, to } = validateRevisionDiffQuery({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    if (!getQuestion(params.id)) {
+      return notFound('Question not found');
+    }
+
+    const before = getRevisionContent(params.id, from);
+    const after = getRevisionContent(params.id, to);
+    if (!before || !after) {
+      return notFound('Revision not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        questionId: params.id,
+        from: before.revision,
+        to: after.revision,
+        changes: diffQuestionContent(before.content, after.content),
+      }
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/revisions/diff');
+  }
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getQuestionIdByTitle, getRevisionContent, updateQuestion } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, Question } from '@/lib/types';
+import { validateQuestion, validateRollback } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(error: string): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error 
+    },
+    { status: 404 }
+  );
+}
+
+// Restore an earlier revision's content. The rollback is saved as a new revision, so it can be undone too.
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<Question>>> => {
+  try {
+    const user = requireRole(request, 'editor');
+    const body = await request.json();
+    const { revision } = validateRollback(body);
+
+    const existing = getQuestion(params.id);
+    if (!existing) {
+      return notFound('Question not found');
+    }
+
+    const target = getRevisionContent(params.id, revision);
+    if (!target) {
+      return notFound('Revision not found');
+    }
+
+    if (getRevisionContent(params.id)?.revision === revision) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'This is already the current revision' 
+        },
+        { status: 409 }
+      );
+    }
+
+    // Another question may have taken the old title since
+    const titleOwner = getQuestionIdByTitle(target.content.title);
+    if (titleOwner && titleOwner !== existing.id) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Another question now uses this revision\'s title' 
+        },
+        { status: 409 }
+      );
+    }
+
+    // Test cases and translations are not versioned and stay as they are
+    const { test_cases: _testCases, solutions: _solutions, hints: _hints, pseudocode: _pseudocode, ...kept } = existing;
+    const { pseudocode, hints, ...content } = target.content;
+    const question = validateQuestion({
+      ...kept,
+      ...content,
+      ...(pseudocode ? { pseudocode } : {}),
+      ...(hints ? { hints } : {}),
+    });
+
+    const updated = updateQuestion(question, 'rollback', user.id, revision);
+    if (!updated) {
+      return notFound('Question not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: `Restored revision ${revision}`
+    });
+
+  } catch (error) {
+    return handleError(error, 'POST /api/questions/[id]/revisions/rollback');
+  }
+});
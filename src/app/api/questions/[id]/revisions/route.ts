@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getQuestionRevisions } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, QuestionRevision } from '@/lib/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(error: string): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error 
+    },
+    { status: 404 }
+  );
+}
+
+// Saved versions of the question, newest first. Editors only, since revisions include the solution.
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<QuestionRevision[]>>> => {
+  try {
+    requireRole(request, 'editor');
+
+    if (!getQuestion(params.id)) {
+      return notFound('Question not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: getQuestionRevisions(params.id)
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/revisions');
+  }
+});
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteQuestion, getQuestion, getQuestionIdByTitle, updateQuestion } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, Question, QuestionInput, QuestionPatch } from '@/lib/types';
+import { validateQuestion, validateQuestionInput, validateQuestionPatch } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+// Apply new content to an existing question, keeping its id, owner, creation time and learner progress
+function saveChanges(
+  existing: Question,
+  changes: QuestionInput | QuestionPatch,
+  authorId: string
+): NextResponse<ApiResponse<Question>> {
+  if (changes.title !== undefined) {
+    const titleOwner = getQuestionIdByTitle(changes.title);
+    if (titleOwner && titleOwner !== existing.id) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'A question with this title already exists' 
+        },
+        { status: 409 }
+      );
+    }
+  }
+
+  // Test cases and translations are only rewritten when the request includes them
+  const { test_cases: _testCases, solutions: _solutions, ...content } = existing;
+  const question = validateQuestion({ ...content, ...changes });
+  const updated = updateQuestion(question, 'edit', authorId);
+  if (!updated) {
+    return notFound();
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: updated,
+    message: 'Question updated'
+  });
+}
+
+// Replace the question's content; omitted optional fields such as hints and pseudocode are cleared
+export const PUT = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<Question>>> => {
+  try {
+    const user = requireRole(request, 'editor');
+    const existing = getQuestion(params.id);
+    if (!existing) {
+      return notFound();
+    }
+
+    const body = await request.json();
+    const { hints: _hints, pseudocode: _pseudocode, ...kept } = existing;
+    return saveChanges(kept, validateQuestionInput(body), user.id);
+
+  } catch (error) {
+    return handleError(error, 'PUT /api/questions/[id]');
+  }
+});
+
+// Change only the fields present in the body
+export const PATCH = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<Question>>> => {
+  try {
+    const user = requireRole(request, 'editor');
+    const existing = getQuestion(params.id);
+    if (!existing) {
+      return notFound();
+    }
+
+    const body = await request.json();
+    return saveChanges(existing, validateQuestionPatch(body), user.id);
+
+  } catch (error) {
+    return handleError(error, 'PATCH /api/questions/[id]');
+  }
+});
+
+// Delete the question with its test cases, conversations, submissions and progress
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse>> => {
+  try {
+    requireRole(request, 'admin');
+
+    if (!deleteQuestion(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Question deleted successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/questions/[id]');
+  }
+});
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { runQuestionTests } from '@/lib/runner';
+import { ApiResponse, RunResult, ValidationError, DatabaseError, RunnerError, AuthError } from '@/lib/types';
+import { validateRunRequest } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Run the stored (or submitted) Python solution against the example, stored and custom test cases
+export const POST = withRateLimit(async (request: NextRequest, { params }: RouteContext): Promise<NextResponse<ApiResponse<RunResult>>> => {
+  try {
+    requireUser(request);
+    const body = await request.json();
+    const { code, entryPoint, cases, includeExamples, includeTestCases } = validateRunRequest(body);
+
+    const question = getQuestion(params.id);
+    if (!question) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Question not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    const result = await runQuestionTests(question, code ?? question.solution_python, {
+      cases,
+      includeExamples,
+      includeTestCases,
+      entryPoint,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/questions/[id]/run:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RunnerError && error.code === 'UNAVAILABLE') {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Code execution is not available on this server' 
+        },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
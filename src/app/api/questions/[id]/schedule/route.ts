@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getReviewState, recordReview, deleteReviewState } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, ReviewState } from '@/lib/types';
+import { validateReviewRating } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+// The question's review schedule, or null if it has never been rated
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<ReviewState | null>>> => {
+  try {
+    const user = requireUser(request);
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: getReviewState(user.id, params.id)
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/schedule');
+  }
+});
+
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<ReviewState>>> => {
+  try {
+    const user = requireUser(request);
+    const body = await request.json();
+    const { rating } = validateReviewRating(body);
+
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    const state = recordReview(user.id, params.id, rating);
+
+    return NextResponse.json({
+      success: true,
+      data: state,
+      message: `Next review in ${state.intervalDays} day${state.intervalDays !== 1 ? 's' : ''}`
+    });
+
+  } catch (error) {
+    return handleError(error, 'POST /api/questions/[id]/schedule');
+  }
+});
+
+// Take the question out of the review queue
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<never>>> => {
+  try {
+    const user = requireUser(request);
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    const removed = deleteReviewState(user.id, params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: removed ? 'Removed from the review queue' : 'Question was not scheduled'
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/questions/[id]/schedule');
+  }
+});
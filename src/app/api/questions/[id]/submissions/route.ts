@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, createSubmission, getSubmissionsByQuestion } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { isRunnerAvailable, runQuestionTests } from '@/lib/runner';
+import { ApiResponse, Submission, RunResult, ValidationError, RunnerError, LANGUAGE_LABELS } from '@/lib/types';
+import { validateSubmission } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<Submission[]>>> => {
+  try {
+    const user = requireUser(request);
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`limit must be between 1 and ${MAX_LIMIT}`, 'limit');
+    }
+
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: getSubmissionsByQuestion(params.id, user.id, limit)
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/submissions');
+  }
+});
+
+// Store a practice attempt; Python code is checked against the question's tests when a runner is available
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<Submission>>> => {
+  try {
+    const user = requireUser(request);
+    const body = await request.json();
+    const { language, code } = validateSubmission(body);
+
+    const question = getQuestion(params.id);
+    if (!question) {
+      return notFound();
+    }
+
+    let result: RunResult | null = null;
+    if (language === 'python' && isRunnerAvailable()) {
+      try {
+        result = await runQuestionTests(question, code);
+      } catch (error) {
+        // Store the attempt unchecked if the interpreter disappeared in the meantime
+        if (!(error instanceof RunnerError && error.code === 'UNAVAILABLE')) {
+          throw error;
+        }
+      }
+    }
+
+    const submission = createSubmission(question.id, user.id, language, code, result);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: submission,
+        message: result
+          ? `Passed ${submission.passed} of ${submission.total} test cases`
+          : `Submission saved. ${LANGUAGE_LABELS[language]} solutions cannot be checked on this server.`
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST /api/questions/[id]/submissions');
+  }
+});
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateTestCase, deleteTestCase } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, TestCase, ValidationError } from '@/lib/types';
+import { validateTestCase } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string; caseId: string };
+}
+
+function parseCaseId(value: string): number {
+  const caseId = Number(value);
+  if (!Number.isInteger(caseId) || caseId <= 0) {
+    throw new ValidationError('Invalid test case id', 'caseId');
+  }
+  return caseId;
+}
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Test case not found' 
+    },
+    { status: 404 }
+  );
+}
+
+export const PUT = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<TestCase>>> => {
+  try {
+    requireRole(request, 'editor');
+    const caseId = parseCaseId(params.caseId);
+    const body = await request.json();
+    const testCase = updateTestCase(params.id, caseId, validateTestCase(body));
+
+    if (!testCase) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: testCase,
+      message: 'Test case updated successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'PUT /api/questions/[id]/test-cases/[caseId]');
+  }
+});
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse>> => {
+  try {
+    requireRole(request, 'editor');
+    if (!deleteTestCase(params.id, parseCaseId(params.caseId))) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Test case deleted successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/questions/[id]/test-cases/[caseId]');
+  }
+});
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, getTestCases, replaceTestCases, addTestCase } from '@/lib/database';
+import { getRequestContext, requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, TestCase, ValidationError } from '@/lib/types';
+import { validateTestCase, validateTestCaseList } from '@/lib/validation';
+import { hasRole } from '@/lib/utils';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const MAX_TEST_CASES = 30;
+
+function notFound(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Question not found' 
+    },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<TestCase[]>>> => {
+  try {
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    // Hidden cases check solutions, so only editors get their arguments and expected values
+    const testCases = getTestCases(params.id);
+    return NextResponse.json({
+      success: true,
+      data: hasRole(getRequestContext(request).user, 'editor')
+        ? testCases
+        : testCases.filter(testCase => !testCase.hidden)
+    });
+
+  } catch (error) {
+    return handleError(error, 'GET /api/questions/[id]/test-cases');
+  }
+});
+
+// Replace the whole test case suite, e.g. after reordering
+export const PUT = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<TestCase[]>>> => {
+  try {
+    requireRole(request, 'editor');
+    const body = await request.json();
+    const { testCases } = validateTestCaseList(body);
+
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: replaceTestCases(params.id, testCases),
+      message: 'Test cases updated successfully'
+    });
+
+  } catch (error) {
+    return handleError(error, 'PUT /api/questions/[id]/test-cases');
+  }
+});
+
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<TestCase>>> => {
+  try {
+    requireRole(request, 'editor');
+    const body = await request.json();
+    const testCase = validateTestCase(body);
+
+    if (!getQuestion(params.id)) {
+      return notFound();
+    }
+
+    if (getTestCases(params.id).length >= MAX_TEST_CASES) {
+      throw new ValidationError(`A question can have at most ${MAX_TEST_CASES} test cases`);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: addTestCase(params.id, testCase),
+        message: 'Test case added successfully'
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST /api/questions/[id]/test-cases');
+  }
+});
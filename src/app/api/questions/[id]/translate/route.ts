@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuestion, saveSolution } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { translateSolution } from '@/lib/gemini';
+import { ApiResponse, Question, ValidationError, GeminiError, DatabaseError, LANGUAGE_LABELS, AuthError } from '@/lib/types';
+import { validateTranslateSolution } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Translate the Python solution into another language and store it with the question
+export const POST = withRateLimit(async (request: NextRequest, { params }: RouteContext): Promise<NextResponse<ApiResponse<Question>>> => {
+  try {
+    requireRole(request, 'editor');
+    const body = await request.json();
+    const { language, overwrite } = validateTranslateSolution(body);
+
+    const question = getQuestion(params.id);
+    if (!question) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Question not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    if (question.solutions?.[language] && !overwrite) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `A ${LANGUAGE_LABELS[language]} solution already exists. Pass "overwrite": true to regenerate it.` 
+        },
+        { status: 409 }
+      );
+    }
+
+    const code = await translateSolution(question, language);
+    saveSolution(question.id, language, code);
+
+    return NextResponse.json({
+      success: true,
+      data: getQuestion(question.id) ?? question,
+      message: `Solution translated to ${LANGUAGE_LABELS[language]}`
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/questions/[id]/translate:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GeminiError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'AI service is temporarily unavailable. Please try again in a moment.' 
+        },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
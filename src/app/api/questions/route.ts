@@ -1,14 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllQuestions, getQuestion, searchQuestions, getQuestionsByDifficulty } from '@/lib/database';
-import { ApiResponse, ValidationError, DatabaseError } from '@/lib/types';
-import { getErrorMessage } from '@/lib/utils';
+import { getRequestContext, requireRole, withRateLimit } from '@/lib/auth';
+import { getAllQuestions, getQuestion, getQuestionView, queryQuestions, getQuestionNavigation, saveQuestion, getQuestionIdByTitle } from '@/lib/database';
+import { ApiResponse, PaginatedResponse, Question, QuestionView, QuestionSearchResult, ValidationError, DatabaseError, AuthError } from '@/lib/types';
+import { validateQuestionQuery, validateQuestionInput, validateQuestion } from '@/lib/validation';
+import { generateId } from '@/lib/utils';
 
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+// Accept repeated (?topic=a&topic=b) and comma-separated (?topics=a,b) list params
+function getListParam(searchParams: URLSearchParams, ...names: string[]): string[] | undefined {
+  const values = names
+    .flatMap(name => searchParams.getAll(name))
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+  return values.length > 0 ? values : undefined;
+}
+
+// ?weights=title:1,solution:5 as { title: '1', solution: '5' }; the query schema checks fields and numbers
+function getWeightsParam(searchParams: URLSearchParams): Record<string, string | undefined> | undefined {
+  const entries = getListParam(searchParams, 'weights')?.map(entry => {
+    const [field = '', weight] = entry.split(':');
+    return [field.trim(), weight?.trim()];
+  });
+  return entries ? Object.fromEntries(entries) : undefined;
+}
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse>> => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const search = searchParams.get('search');
-    const difficulty = searchParams.get('difficulty') as 'Easy' | 'Medium' | 'Hard' | null;
+    const { user } = getRequestContext(request);
     
     // Get specific question by ID
     if (id) {
@@ -34,62 +54,117 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         );
       }
 
+      // Previous/next links in the default listing order
+      if (searchParams.get('navigation') === 'true') {
+        return NextResponse.json({
+          success: true,
+          data: { question: getQuestionView(question, user), navigation: getQuestionNavigation(question.id) }
+        });
+      }
+
       return NextResponse.json({
         success: true,
-        data: question
+        data: getQuestionView(question, user)
       });
     }
 
-    // Search questions
-    if (search) {
-      if (typeof search !== 'string' || search.trim().length === 0) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Invalid search term provided' 
-          },
-          { status: 400 }
-        );
-      }
+    // Paged listing with combinable filters; search results carry a highlighted snippet in `match`
+    const query = validateQuestionQuery({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      sort: searchParams.get('sort') ?? undefined,
+      order: searchParams.get('order') ?? undefined,
+      difficulty: getListParam(searchParams, 'difficulty'),
+      topics: getListParam(searchParams, 'topic', 'topics'),
+      search: searchParams.get('search') ?? undefined,
+      weights: getWeightsParam(searchParams),
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
 
-      const questions = searchQuestions(search.trim());
-      return NextResponse.json({
-        success: true,
-        data: questions,
-        message: `Found ${questions.length} questions matching "${search}"`
-      });
+    const { questions, total } = queryQuestions(query, user);
+    const response: PaginatedResponse<QuestionView | QuestionView<QuestionSearchResult>> = {
+      success: true,
+      data: questions,
+      message: `Retrieved ${questions.length} of ${total} questions`,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error in GET /api/questions:', error);
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
     }
 
-    // Filter by difficulty
-    if (difficulty) {
-      if (!['Easy', 'Medium', 'Hard'].includes(difficulty)) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Invalid difficulty level. Must be Easy, Medium, or Hard' 
-          },
-          { status: 400 }
-        );
-      }
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
 
-      const questions = getQuestionsByDifficulty(difficulty);
-      return NextResponse.json({
-        success: true,
-        data: questions,
-        message: `Found ${questions.length} ${difficulty} questions`
-      });
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Add a hand-written question; the caller becomes its owner
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<Question>>> => {
+  try {
+    const user = requireRole(request, 'editor');
+    const body = await request.json();
+    const input = validateQuestionInput(body);
+
+    if (getQuestionIdByTitle(input.title)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'A question with this title already exists' 
+        },
+        { status: 409 }
+      );
     }
 
-    // Get all questions
-    const questions = getAllQuestions();
-    return NextResponse.json({
-      success: true,
-      data: questions,
-      message: `Retrieved ${questions.length} questions`
+    const question = validateQuestion({
+      ...input,
+      id: generateId(),
+      owner_id: user.id,
+      created_at: new Date().toISOString(),
     });
+    saveQuestion(question, 'import');
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: getQuestion(question.id) ?? question,
+        message: 'Question created'
+      },
+      { status: 201 }
+    );
 
   } catch (error) {
-    console.error('Error in GET /api/questions:', error);
+    console.error('Error in POST /api/questions:', error);
 
     if (error instanceof ValidationError) {
       return NextResponse.json(
@@ -101,6 +176,16 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       );
     }
 
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof DatabaseError) {
       return NextResponse.json(
         { 
@@ -119,7 +204,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       { status: 500 }
     );
   }
-}
+});
 
 // Health check endpoint
 export async function HEAD(request: NextRequest): Promise<NextResponse> {
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewQueue } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { ApiResponse, ReviewQueue, ValidationError, DatabaseError, AuthError } from '@/lib/types';
+
+// Due dates move with the clock, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+// Everything due by the end of today, most overdue first
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<ReviewQueue>>> => {
+  try {
+    const user = requireUser(request);
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`limit must be between 1 and ${MAX_LIMIT}`, 'limit');
+    }
+
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+
+    const queue = getReviewQueue(user, endOfToday.toISOString(), limit);
+    return NextResponse.json({
+      success: true,
+      data: queue,
+      message: `${queue.due.length} question${queue.due.length !== 1 ? 's' : ''} due for review`
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/review-queue:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
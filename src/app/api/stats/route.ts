@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProgressStats } from '@/lib/database';
+import { requireUser, withRateLimit } from '@/lib/auth';
+import { ApiResponse, ProgressStats, ValidationError, DatabaseError, AuthError } from '@/lib/types';
+
+// Stats change with every submission, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DAYS = 90;
+const MAX_DAYS = 365;
+const DEFAULT_HISTORY = 20;
+const MAX_HISTORY = 100;
+
+function parseIntParam(value: string | null, fallback: number, min: number, max: number, name: string): number {
+  const parsed = value ? parseInt(value, 10) : fallback;
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ValidationError(`${name} must be between ${min} and ${max}`, name);
+  }
+  return parsed;
+}
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<ProgressStats>>> => {
+  try {
+    const user = requireUser(request);
+    const { searchParams } = request.nextUrl;
+    const days = parseIntParam(searchParams.get('days'), DEFAULT_DAYS, 1, MAX_DAYS, 'days');
+    const history = parseIntParam(searchParams.get('history'), DEFAULT_HISTORY, 1, MAX_HISTORY, 'history');
+
+    return NextResponse.json({
+      success: true,
+      data: getProgressStats(user.id, days, history)
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/stats:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
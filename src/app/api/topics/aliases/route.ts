@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTopic, addTopicAlias, removeTopicAlias } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, Topic } from '@/lib/types';
+import { validateTopicAlias } from '@/lib/validation';
+
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<Topic>>> => {
+  try {
+    requireRole(request, 'editor');
+    const body = await request.json();
+    const { alias, topic } = validateTopicAlias(body);
+
+    const existing = findTopic(alias);
+    if (existing) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: existing.name.toLowerCase() === alias.toLowerCase()
+            ? `"${alias}" is already a topic; merge it instead`
+            : `"${alias}" is already an alias of "${existing.name}"` 
+        },
+        { status: 409 }
+      );
+    }
+
+    const target = findTopic(topic);
+    if (!target) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `Topic "${topic}" not found` 
+        },
+        { status: 404 }
+      );
+    }
+
+    const updated = addTopicAlias(alias, target.id);
+    if (!updated) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `Topic "${topic}" not found` 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: updated,
+        message: `"${alias}" now refers to "${updated.name}"`
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST /api/topics/aliases');
+  }
+});
+
+export const DELETE = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<never>>> => {
+  try {
+    requireRole(request, 'editor');
+    const alias = request.nextUrl.searchParams.get('alias')?.trim();
+    if (!alias) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'alias is required' 
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!removeTopicAlias(alias)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Alias not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Alias "${alias}" removed`
+    });
+
+  } catch (error) {
+    return handleError(error, 'DELETE /api/topics/aliases');
+  }
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTopic, mergeTopics } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { handleError } from '@/lib/api-errors';
+import { ApiResponse, Topic } from '@/lib/types';
+import { validateTopicMerge } from '@/lib/validation';
+
+// Merge the source topic into the target; the source name is kept as an alias of the target
+export const POST = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<Topic>>> => {
+  try {
+    requireRole(request, 'editor');
+    const body = await request.json();
+    const { source, target } = validateTopicMerge(body);
+
+    const sourceTopic = findTopic(source);
+    const targetTopic = findTopic(target);
+    if (!sourceTopic || !targetTopic) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `Topic "${!sourceTopic ? source : target}" not found` 
+        },
+        { status: 404 }
+      );
+    }
+
+    if (sourceTopic.id === targetTopic.id) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `"${source}" and "${target}" are already the same topic` 
+        },
+        { status: 409 }
+      );
+    }
+
+    const merged = mergeTopics(sourceTopic.id, targetTopic.id);
+    if (!merged) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Topic not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: merged,
+      message: `Merged "${sourceTopic.name}" into "${merged.name}"`
+    });
+
+  } catch (error) {
+    return handleError(error, 'POST /api/topics/merge');
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/auth';
+import { getTopicSummaries } from '@/lib/database';
+import { ApiResponse, TopicSummary, DatabaseError } from '@/lib/types';
+
+// Counts change with every generation, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<TopicSummary[]>>> => {
+  try {
+    const topics = getTopicSummaries();
+    return NextResponse.json({
+      success: true,
+      data: topics,
+      message: `Retrieved ${topics.length} topics`
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/topics:', error);
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser, getAdminCount, updateUserRole } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { ApiResponse, User, ValidationError, DatabaseError, AuthError, USER_ROLE_LABELS } from '@/lib/types';
+import { validateUpdateUserRole } from '@/lib/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const PATCH = withRateLimit(async (
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApiResponse<User>>> => {
+  try {
+    requireRole(request, 'admin');
+    const body = await request.json();
+    const { role } = validateUpdateUserRole(body);
+
+    const target = getUser(params.id);
+    if (!target) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'User not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    // Demoting the last admin would leave nobody able to manage users
+    if (target.role === 'admin' && role !== 'admin' && getAdminCount() <= 1) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'At least one admin is required' 
+        },
+        { status: 409 }
+      );
+    }
+
+    const user = updateUserRole(target.id, role);
+    if (!user) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'User not found' 
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: `Changed ${user.name}'s role to ${USER_ROLE_LABELS[role]}`
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/users/[id]:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Database operation failed' 
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
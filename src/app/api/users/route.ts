@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsers } from '@/lib/database';
+import { requireRole, withRateLimit } from '@/lib/auth';
+import { ApiResponse, User, DatabaseError, AuthError } from '@/lib/types';
+
+// Accounts change at any time, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+export const GET = withRateLimit(async (request: NextRequest): Promise<NextResponse<ApiResponse<User[]>>> => {
+  try {
+    requireRole(request, 'admin');
+
+    const users = getUsers();
+    return NextResponse.json({
+      success: true,
+      data: users,
+      message: `Retrieved ${users.length} users`
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/users:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: error.message 
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof DatabaseError ? 'Database operation failed' : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+});
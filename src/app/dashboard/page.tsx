@@ -0,0 +1,323 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ProgressStats, ProgressCounts, ActivityDay, ApiResponse, DIFFICULTY_COLORS, LANGUAGE_LABELS } from '@/lib/types';
+import { formatDate } from '@/lib/utils';
+import { STATUS_STYLES } from '@/components/RunResults';
+import SignInPrompt from '@/components/SignInPrompt';
+import { useAuth } from '@/components/AuthProvider';
+import { ArrowLeft, BarChart3, Loader2, CheckCircle, PenLine, Bookmark, Flame, TrendingDown, Activity, History, Tag } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function ProgressBar({ counts }: { counts: ProgressCounts }) {
+  return (
+    <div className="relative h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+      <div
+        className="absolute inset-y-0 left-0 bg-yellow-300 dark:bg-yellow-700"
+        style={{ width: `${percent(counts.attempted, counts.total)}%` }}
+      />
+      <div
+        className="absolute inset-y-0 left-0 bg-green-500"
+        style={{ width: `${percent(counts.solved, counts.total)}%` }}
+      />
+    </div>
+  );
+}
+
+function activityColor(day: ActivityDay): string {
+  if (day.submissions === 0) return 'bg-gray-200 dark:bg-gray-700';
+  if (day.passed === 0) return 'bg-yellow-300 dark:bg-yellow-700';
+  if (day.submissions < 3) return 'bg-green-300 dark:bg-green-800';
+  return 'bg-green-500';
+}
+
+export default function DashboardPage() {
+  const [stats, setStats] = useState<ProgressStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { user, loading: authLoading } = useAuth();
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (user) {
+      fetchStats();
+    } else {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  const fetchStats = async () => {
+    try {
+      const response = await fetch('/api/stats');
+      const data: ApiResponse<ProgressStats> = await response.json();
+
+      if (data.success && data.data) {
+        setStats(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch progress');
+      }
+    } catch (error) {
+      console.error('Error fetching progress:', error);
+      toast.error('Failed to load progress');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!loading && !user) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="container mx-auto px-4 py-8 max-w-7xl">
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-blue-600" />
+            Your Progress
+          </h1>
+          <SignInPrompt message="Sign in to track solved questions, streaks and weak topics." />
+        </div>
+      </div>
+    );
+  }
+
+  if (loading || !stats) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          {loading ? (
+            <>
+              <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">Loading progress...</p>
+            </>
+          ) : (
+            <p className="text-gray-600 dark:text-gray-400">Progress could not be loaded.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { overall, streak } = stats;
+  const summaryCards = [
+    { label: 'Solved', value: overall.solved, detail: `of ${overall.total} questions`, icon: CheckCircle, color: 'text-green-600' },
+    { label: 'Attempted', value: overall.attempted, detail: `${percent(overall.solved, overall.attempted)}% solved`, icon: PenLine, color: 'text-yellow-600' },
+    { label: 'Bookmarked', value: overall.bookmarked, detail: 'saved for later', icon: Bookmark, color: 'text-blue-600' },
+    { label: 'Current streak', value: streak.current, detail: `longest ${streak.longest} day${streak.longest !== 1 ? 's' : ''}`, icon: Flame, color: 'text-orange-500' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-blue-600" />
+            Your Progress
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Practised on {streak.activeDays} day{streak.activeDays !== 1 ? 's' : ''} so far
+          </p>
+        </motion.div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          {summaryCards.map(({ label, value, detail, icon: Icon, color }, index) => (
+            <motion.div
+              key={label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="card p-5"
+            >
+              <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-2">
+                <Icon className={`h-4 w-4 ${color}`} />
+                {label}
+              </div>
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">{value}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{detail}</p>
+            </motion.div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {/* Activity */}
+            <section className="card p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                <Activity className="h-5 w-5 text-green-600" />
+                Activity
+              </h2>
+              <div className="flex flex-wrap gap-1">
+                {stats.activity.map((day) => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${day.submissions} submission${day.submissions !== 1 ? 's' : ''}, ${day.passed} passed`}
+                    className={`h-3 w-3 rounded-sm ${activityColor(day)}`}
+                  />
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                Last {stats.activity.length} days · yellow days had submissions but none passed
+              </p>
+            </section>
+
+            {/* By difficulty */}
+            <section className="card p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                <BarChart3 className="h-5 w-5 text-blue-600" />
+                By Difficulty
+              </h2>
+              <div className="space-y-4">
+                {DIFFICULTIES.map((difficulty) => {
+                  const counts = stats.byDifficulty[difficulty];
+                  return (
+                    <div key={difficulty}>
+                      <div className="flex items-center justify-between mb-1 text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DIFFICULTY_COLORS[difficulty]}`}>
+                          {difficulty}
+                        </span>
+                        <span className="text-gray-600 dark:text-gray-400">
+                          {counts.solved} solved · {counts.attempted} attempted · {counts.total} total
+                        </span>
+                      </div>
+                      <ProgressBar counts={counts} />
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+
+            {/* By topic */}
+            <section className="card p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                <Tag className="h-5 w-5 text-blue-600" />
+                By Topic
+              </h2>
+              {stats.byTopic.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400">
+                        <th className="py-2 pr-4 font-medium">Topic</th>
+                        <th className="py-2 pr-4 font-medium">Solved</th>
+                        <th className="py-2 pr-4 font-medium">Attempted</th>
+                        <th className="py-2 pr-4 font-medium">Bookmarked</th>
+                        <th className="py-2 pr-4 font-medium w-1/3">Progress</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {stats.byTopic.map((topic) => (
+                        <tr key={topic.topic} className="text-gray-700 dark:text-gray-300">
+                          <td className="py-2 pr-4">
+                            <Link href={`/?topic=${encodeURIComponent(topic.topic)}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+                              {topic.topic}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-4">{topic.solved}/{topic.total}</td>
+                          <td className="py-2 pr-4">{topic.attempted}</td>
+                          <td className="py-2 pr-4">{topic.bookmarked}</td>
+                          <td className="py-2 pr-4"><ProgressBar counts={topic} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">Generate some questions to see topic progress.</p>
+              )}
+            </section>
+          </div>
+
+          <div className="space-y-8">
+            {/* Weakest topics */}
+            <section className="card p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                <TrendingDown className="h-5 w-5 text-red-600" />
+                Weakest Topics
+              </h2>
+              {stats.weakestTopics.length > 0 ? (
+                <ul className="space-y-3">
+                  {stats.weakestTopics.map((topic) => (
+                    <li key={topic.topic} className="text-sm">
+                      <Link
+                        href={`/?topic=${encodeURIComponent(topic.topic)}`}
+                        className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                      >
+                        {topic.topic}
+                      </Link>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {topic.solved} of {topic.attempted} attempted solved · {Math.round(topic.passRate * 100)}% of submissions passed
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Submit a few solutions to find out where to focus.</p>
+              )}
+            </section>
+
+            {/* History */}
+            <section className="card p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                <History className="h-5 w-5 text-gray-500" />
+                History
+              </h2>
+              {stats.history.length > 0 ? (
+                <ol className="relative border-l border-gray-200 dark:border-gray-700 space-y-4 ml-2">
+                  {stats.history.map((entry) => (
+                    <li key={entry.submissionId} className="ml-4 text-sm">
+                      <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 bg-gray-300 dark:bg-gray-600" />
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(entry.created_at)}</p>
+                      <Link
+                        href={`/question/${entry.questionId}`}
+                        className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                      >
+                        {entry.questionTitle}
+                      </Link>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status].className}`}>
+                          {STATUS_STYLES[entry.status].label}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {LANGUAGE_LABELS[entry.language]}
+                          {entry.total > 0 && ` · ${entry.passed}/${entry.total}`}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No submissions yet.</p>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import { Inter, JetBrains_Mono } from 'next/font/google';
 import './globals.css';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { AuthProvider } from '@/components/AuthProvider';
 import { Toaster } from 'react-hot-toast';
 
 const inter = Inter({ 
@@ -89,16 +90,18 @@ export default function RootLayout({
       </head>
       <body className={`${inter.className} bg-gray-50 dark:bg-gray-900 transition-colors duration-300 antialiased`}>
         <ErrorBoundary>
-          <div className="min-h-screen flex flex-col">
-            <main className="flex-1">
-              {children}
-            </main>
-            <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 py-6 mt-auto">
-              <div className="container mx-auto px-4 text-center text-gray-600 dark:text-gray-400 text-sm">
-                <p>© 2024 AI Coding Book. Powered by AI for enhanced learning.</p>
-              </div>
-            </footer>
-          </div>
+          <AuthProvider>
+            <div className="min-h-screen flex flex-col">
+              <main className="flex-1">
+                {children}
+              </main>
+              <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 py-6 mt-auto">
+                <div className="container mx-auto px-4 text-center text-gray-600 dark:text-gray-400 text-sm">
+                  <p>© 2024 AI Coding Book. Powered by AI for enhanced learning.</p>
+                </div>
+              </footer>
+            </div>
+          </AuthProvider>
           <Toaster 
             position="top-right"
             toastOptions={{
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ApiResponse, User } from '@/lib/types';
+import { useAuth } from '@/components/AuthProvider';
+import { ArrowLeft, LogIn, UserPlus, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type Mode = 'login' | 'register';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const { setUser } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'register' ? { name, email, password } : { email, password }),
+      });
+      const data: ApiResponse<User> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || (mode === 'register' ? 'Failed to create account' : 'Failed to sign in'));
+      }
+
+      setUser(data.data);
+      toast.success(mode === 'register' ? 'Account created' : `Welcome back, ${data.data.name}`);
+
+      // Only follow same-site paths so the link cannot bounce users elsewhere
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (error) {
+      console.error(`Error in ${mode}:`, error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isRegister = mode === 'register';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Link
+          href="/"
+          className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Questions
+        </Link>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="card p-8"
+        >
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            {isRegister ? <UserPlus className="h-6 w-6 text-blue-600" /> : <LogIn className="h-6 w-6 text-blue-600" />}
+            {isRegister ? 'Create an account' : 'Sign in'}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-6 text-sm">
+            {isRegister
+              ? 'Your conversations, progress and generated questions are saved to your account.'
+              : 'Sign in to chat with the tutor, track progress and generate questions.'}
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isRegister && (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  maxLength={100}
+                  autoComplete="name"
+                  required
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                autoComplete="email"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                minLength={isRegister ? 8 : undefined}
+                autoComplete={isRegister ? 'new-password' : 'current-password'}
+                required
+              />
+              {isRegister && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">At least 8 characters</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn-primary w-full flex items-center justify-center gap-2"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isRegister ? 'Create account' : 'Sign in'}
+            </button>
+          </form>
+
+          <p className="mt-6 text-sm text-center text-gray-600 dark:text-gray-400">
+            {isRegister ? 'Already have an account?' : 'New here?'}{' '}
+            <button
+              type="button"
+              onClick={() => setMode(isRegister ? 'login' : 'register')}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {isRegister ? 'Sign in' : 'Create an account'}
+            </button>
+          </p>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -1,69 +1,204 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Question, ApiResponse, GenerationStatus } from '@/lib/types';
-import { DIFFICULTY_COLORS } from '@/lib/types';
+import { Question, QuestionSearchResult, QuestionSortField, ApiResponse, PaginatedResponse, GenerationJob, GenerationItemStatus, GenerationJobItem, TestCase } from '@/lib/types';
+import { DIFFICULTY_COLORS, SUPPORTED_LANGUAGES, LANGUAGE_LABELS, SupportedLanguage, DuplicateTitleAction, DUPLICATE_TITLE_ACTIONS, DUPLICATE_TITLE_ACTION_LABELS } from '@/lib/types';
 import QuestionCard from '@/components/QuestionCard';
-import { Loader2, Plus, Download, Search, Filter, Sun, Moon, BookOpen } from 'lucide-react';
+import { Loader2, Plus, Download, Search, Filter, Sun, Moon, BookOpen, Clock, CheckCircle, XCircle, ArrowUpDown, ChevronLeft, ChevronRight, Tag, Tags, CalendarClock, BarChart3, X, LogIn, LogOut, User as UserIcon, Users } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { debounce } from '@/lib/utils';
+import Link from 'next/link';
+import { debounce, formatTestCaseArgs, hasRole } from '@/lib/utils';
+import { useAuth } from '@/components/AuthProvider';
+
+const GENERATION_POLL_INTERVAL = 1500;
+const GENERATION_JOB_STORAGE_KEY = 'generationJobId';
+const QUESTIONS_PER_PAGE = 12;
+
+type SortOption = 'relevance' | 'newest' | 'oldest' | 'updated' | 'title' | 'difficulty';
+
+const SORT_OPTIONS: Record<SortOption, { label: string; sort: QuestionSortField; order: 'asc' | 'desc' }> = {
+  relevance: { label: 'Best match', sort: 'relevance', order: 'asc' },
+  newest: { label: 'Newest first', sort: 'created', order: 'desc' },
+  oldest: { label: 'Oldest first', sort: 'created', order: 'asc' },
+  updated: { label: 'Recently updated', sort: 'updated', order: 'desc' },
+  title: { label: 'Title (A-Z)', sort: 'title', order: 'asc' },
+  difficulty: { label: 'Difficulty', sort: 'difficulty', order: 'asc' },
+};
+
+interface QuestionListQuery {
+  searchTerm: string;
+  difficulty: string;
+  topic: string;
+  sortOption: SortOption;
+  page: number;
+}
+
+const GENERATION_ITEM_LABELS: Record<GenerationItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Generating',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+// Finished items say what happened to their title
+function getGenerationItemLabel(item: GenerationJobItem): string {
+  switch (item.action) {
+    case 'updated': return 'Updated';
+    case 'skipped': return 'Already exists';
+    case 'variant': return 'Added as variant';
+    default: return GENERATION_ITEM_LABELS[item.status];
+  }
+}
 
 interface HomePageState {
-  questions: Question[];
-  filteredQuestions: Question[];
+  questions: (Question | QuestionSearchResult)[];
+  totalQuestions: number;
+  matchingQuestions: number;
+  totalPages: number;
+  page: number;
+  sortOption: SortOption;
   inputTitles: string;
+  extraLanguages: SupportedLanguage[];
+  onDuplicate: DuplicateTitleAction;
   isGenerating: boolean;
+  generationJob: GenerationJob | null;
   isDarkMode: boolean;
   searchTerm: string;
   selectedDifficulty: 'all' | 'Easy' | 'Medium' | 'Hard';
+  selectedTopic: string;
   isLoading: boolean;
 }
 
 export default function HomePage() {
+  const { user, loading: authLoading, logout } = useAuth();
+  const canGenerate = hasRole(user, 'editor');
   const [state, setState] = useState<HomePageState>({
     questions: [],
-    filteredQuestions: [],
+    totalQuestions: 0,
+    matchingQuestions: 0,
+    totalPages: 0,
+    page: 1,
+    sortOption: 'newest',
     inputTitles: '',
+    extraLanguages: [],
+    onDuplicate: 'skip',
     isGenerating: false,
+    generationJob: null,
     isDarkMode: false,
     searchTerm: '',
     selectedDifficulty: 'all',
+    selectedTopic: '',
     isLoading: true,
   });
 
-  // Debounced search function
-  const debouncedSearch = useCallback(
-    debounce((searchTerm: string, difficulty: string, questions: Question[]) => {
-      let filtered = questions;
-
-      if (searchTerm.trim()) {
-        filtered = filtered.filter(
-          (q) =>
-            q.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            q.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            q.topics.some((topic) =>
-              topic.toLowerCase().includes(searchTerm.toLowerCase())
-            )
-        );
-      }
+  const latestRequest = useRef(0);
 
-      if (difficulty !== 'all') {
-        filtered = filtered.filter((q) => q.difficulty === difficulty);
+  const buildQueryString = (query: QuestionListQuery): string => {
+    const sort = SORT_OPTIONS[query.sortOption];
+    const params = new URLSearchParams({
+      page: String(query.page),
+      limit: String(QUESTIONS_PER_PAGE),
+      // Relevance only applies to searches; fall back to newest first otherwise
+      sort: sort.sort === 'relevance' && !query.searchTerm.trim() ? 'created' : sort.sort,
+      order: sort.sort === 'relevance' && !query.searchTerm.trim() ? 'desc' : sort.order,
+    });
+    if (query.searchTerm.trim()) {
+      params.set('search', query.searchTerm.trim());
+    }
+    if (query.difficulty !== 'all') {
+      params.set('difficulty', query.difficulty);
+    }
+    if (query.topic) {
+      params.set('topic', query.topic);
+    }
+    return params.toString();
+  };
+
+  // Filtering, sorting and paging all happen server-side
+  const fetchQuestions = async (query: QuestionListQuery) => {
+    const requestId = ++latestRequest.current;
+
+    try {
+      const response = await fetch(`/api/questions?${buildQueryString(query)}`);
+      const data: PaginatedResponse<Question | QuestionSearchResult> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to fetch questions');
       }
 
-      setState((prev) => ({ ...prev, filteredQuestions: filtered }));
-    }, 300),
-    []
-  );
+      // Ignore responses for a query the user has already changed
+      if (requestId !== latestRequest.current) return;
+
+      const isUnfiltered = !query.searchTerm.trim() && query.difficulty === 'all' && !query.topic;
+      const total = data.pagination?.total ?? data.data.length;
+      setState((prev) => ({
+        ...prev,
+        questions: data.data || [],
+        matchingQuestions: total,
+        totalQuestions: isUnfiltered ? total : prev.totalQuestions,
+        totalPages: data.pagination?.totalPages ?? 1,
+      }));
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      if (requestId !== latestRequest.current) return;
+      toast.error('Failed to load questions');
+      setState((prev) => ({ ...prev, questions: [], matchingQuestions: 0, totalPages: 0 }));
+    }
+  };
+
+  const debouncedFetch = useCallback(debounce(fetchQuestions, 300), []);
+
+  // Library size independent of the current filters
+  const fetchTotalQuestions = async () => {
+    try {
+      const response = await fetch('/api/questions?limit=1');
+      const data: PaginatedResponse<Question> = await response.json();
+      if (data.success && data.pagination) {
+        const total = data.pagination.total;
+        setState((prev) => ({ ...prev, totalQuestions: total }));
+      }
+    } catch (error) {
+      console.error('Error fetching question count:', error);
+    }
+  };
 
   useEffect(() => {
     initializeApp();
   }, []);
 
+  const generationJobId = state.generationJob?.id;
+  const isJobActive = state.generationJob?.status === 'queued' || state.generationJob?.status === 'running';
+
+  // Poll the active generation job until it finishes
+  useEffect(() => {
+    if (!generationJobId || !isJobActive) return;
+
+    const interval = setInterval(() => {
+      pollGenerationJob(generationJobId);
+    }, GENERATION_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [generationJobId, isJobActive]);
+
   useEffect(() => {
-    debouncedSearch(state.searchTerm, state.selectedDifficulty, state.questions);
-  }, [state.searchTerm, state.selectedDifficulty, state.questions, debouncedSearch]);
+    if (state.isLoading) return;
+    debouncedFetch({
+      searchTerm: state.searchTerm,
+      difficulty: state.selectedDifficulty,
+      topic: state.selectedTopic,
+      sortOption: state.sortOption,
+      page: state.page,
+    });
+  }, [state.searchTerm, state.selectedDifficulty, state.selectedTopic, state.sortOption, state.page, state.isLoading, debouncedFetch]);
+
+  const currentQuery = (): QuestionListQuery => ({
+    searchTerm: state.searchTerm,
+    difficulty: state.selectedDifficulty,
+    topic: state.selectedTopic,
+    sortOption: state.sortOption,
+    page: state.page,
+  });
 
   const initializeApp = async () => {
     try {
@@ -75,7 +210,23 @@ export default function HomePage() {
         document.documentElement.classList.add('dark');
       }
 
-      await fetchQuestions();
+      // Filters linked from the topic index, e.g. /?topic=Arrays&difficulty=Easy
+      const urlParams = new URLSearchParams(window.location.search);
+      const topic = urlParams.get('topic')?.trim() || '';
+      const urlDifficulty = urlParams.get('difficulty');
+      const difficulty = urlDifficulty === 'Easy' || urlDifficulty === 'Medium' || urlDifficulty === 'Hard' ? urlDifficulty : 'all';
+      setState((prev) => ({ ...prev, selectedTopic: topic, selectedDifficulty: difficulty }));
+
+      await fetchQuestions({ searchTerm: '', difficulty, topic, sortOption: 'newest', page: 1 });
+      if (topic || difficulty !== 'all') {
+        await fetchTotalQuestions();
+      }
+
+      // Resume tracking a generation job started before a reload
+      const savedJobId = localStorage.getItem(GENERATION_JOB_STORAGE_KEY);
+      if (savedJobId) {
+        await pollGenerationJob(savedJobId);
+      }
     } catch (error) {
       console.error('Error initializing app:', error);
       toast.error('Failed to initialize application');
@@ -84,31 +235,6 @@ export default function HomePage() {
     }
   };
 
-  const fetchQuestions = async () => {
-    try {
-      const response = await fetch('/api/questions');
-      const data: ApiResponse<Question[]> = await response.json();
-
-      if (data.success && data.data) {
-        setState((prev) => ({
-          ...prev,
-          questions: data.data || [],
-          filteredQuestions: data.data || [],
-        }));
-      } else {
-        throw new Error(data.error || 'Failed to fetch questions');
-      }
-    } catch (error) {
-      console.error('Error fetching questions:', error);
-      toast.error('Failed to load questions');
-      setState((prev) => ({
-        ...prev,
-        questions: [],
-        filteredQuestions: [],
-      }));
-    }
-  };
-
   const handleGenerate = async () => {
     if (!state.inputTitles.trim()) {
       toast.error('Please enter at least one question title');
@@ -136,41 +262,63 @@ export default function HomePage() {
       const response = await fetch('/api/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ titles }),
+        body: JSON.stringify({ titles, languages: state.extraLanguages, onDuplicate: state.onDuplicate }),
       });
 
-      const data: ApiResponse<GenerationStatus> = await response.json();
-
-      if (data.success || response.status === 207) {
-        // Success or partial success
-        const status = data.data;
-        if (status) {
-          if (status.completed > 0) {
-            toast.success(
-              `Successfully generated ${status.completed} question${status.completed !== 1 ? 's' : ''}`
-            );
-            
-            if (status.failed > 0) {
-              toast.error(`Failed to generate ${status.failed} question${status.failed !== 1 ? 's' : ''}`);
-            }
-            
-            await fetchQuestions();
-            setState((prev) => ({ ...prev, inputTitles: '' }));
-          } else {
-            toast.error('Failed to generate any questions');
-          }
-        }
+      const data: ApiResponse<{ jobId: string; job: GenerationJob }> = await response.json();
+
+      if (data.success && data.data) {
+        localStorage.setItem(GENERATION_JOB_STORAGE_KEY, data.data.jobId);
+        setState((prev) => ({ ...prev, generationJob: data.data?.job ?? null, inputTitles: '' }));
+        toast.success(data.message || 'Generation started');
       } else {
         throw new Error(data.error || 'Failed to generate questions');
       }
     } catch (error) {
       console.error('Error generating questions:', error);
       toast.error('Failed to generate questions. Please try again.');
-    } finally {
       setState((prev) => ({ ...prev, isGenerating: false }));
     }
   };
 
+  const pollGenerationJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/generate/jobs/${encodeURIComponent(jobId)}`);
+      const data: ApiResponse<GenerationJob> = await response.json();
+
+      if (!data.success || !data.data) {
+        if (response.status === 404) {
+          localStorage.removeItem(GENERATION_JOB_STORAGE_KEY);
+          setState((prev) => ({ ...prev, generationJob: null, isGenerating: false }));
+        }
+        return;
+      }
+
+      const job = data.data;
+      const isFinished = job.status === 'completed' || job.status === 'failed';
+      setState((prev) => ({ ...prev, generationJob: job, isGenerating: !isFinished }));
+
+      if (isFinished && localStorage.getItem(GENERATION_JOB_STORAGE_KEY) === job.id) {
+        localStorage.removeItem(GENERATION_JOB_STORAGE_KEY);
+        const { completed, failed, skipped } = job.progress;
+        const generated = completed - skipped;
+
+        if (generated > 0) {
+          toast.success(`Successfully generated ${generated} question${generated !== 1 ? 's' : ''}`);
+          await Promise.all([fetchQuestions(currentQuery()), fetchTotalQuestions()]);
+        }
+        if (skipped > 0) {
+          toast(`Skipped ${skipped} existing title${skipped !== 1 ? 's' : ''}`);
+        }
+        if (failed > 0) {
+          toast.error(`Failed to generate ${failed} question${failed !== 1 ? 's' : ''}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling generation job:', error);
+    }
+  };
+
   const toggleDarkMode = () => {
     const newDarkMode = !state.isDarkMode;
     setState((prev) => ({ ...prev, isDarkMode: newDarkMode }));
@@ -184,7 +332,7 @@ export default function HomePage() {
   };
 
   const exportQuestions = async (format: 'pdf' | 'markdown') => {
-    if (state.questions.length === 0) {
+    if (state.totalQuestions === 0) {
       toast.error('No questions available for export');
       return;
     }
@@ -299,6 +447,83 @@ export default function HomePage() {
         yPosition += lineHeight;
       });
       yPosition += 3;
+
+      // Hints, from gentle to explicit
+      if (question.hints && question.hints.length > 0) {
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Hints:', margin, yPosition);
+        yPosition += lineHeight;
+
+        pdf.setFont('helvetica', 'normal');
+        question.hints.forEach((hint: string, hintIndex: number) => {
+          pdf.splitTextToSize(`${hintIndex + 1}. ${hint}`, 170).forEach((line: string) => {
+            if (yPosition > pageHeight - 30) {
+              pdf.addPage();
+              yPosition = 20;
+            }
+            pdf.text(line, margin, yPosition);
+            yPosition += lineHeight;
+          });
+        });
+        yPosition += 3;
+      }
+
+      // Solutions in every stored language; locked ones are left out of the export
+      if (question.solution_python === undefined) {
+        pdf.setFont('helvetica', 'italic');
+        pdf.text('Solution locked: reveal the hints on the question page to unlock it.', margin, yPosition);
+        yPosition += lineHeight + 3;
+      }
+      const solutions: Record<string, string> = question.solutions || (question.solution_python ? { python: question.solution_python } : {});
+      Object.entries(solutions).forEach(([language, code]) => {
+        if (yPosition > pageHeight - 40) {
+          pdf.addPage();
+          yPosition = 20;
+        }
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(`Solution (${LANGUAGE_LABELS[language as SupportedLanguage] || language}):`, margin, yPosition);
+        yPosition += lineHeight;
+
+        pdf.setFont('courier', 'normal');
+        code.split('\n').forEach((codeLine: string) => {
+          pdf.splitTextToSize(codeLine || ' ', 170).forEach((line: string) => {
+            if (yPosition > pageHeight - 30) {
+              pdf.addPage();
+              yPosition = 20;
+            }
+            pdf.text(line, margin, yPosition);
+            yPosition += lineHeight - 1;
+          });
+        });
+        yPosition += 3;
+      });
+
+      // Visible test cases; hidden ones are left out of the book
+      const visibleTests = (question.test_cases || []).filter((testCase: TestCase) => !testCase.hidden);
+      if (visibleTests.length > 0) {
+        if (yPosition > pageHeight - 40) {
+          pdf.addPage();
+          yPosition = 20;
+        }
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Test Cases:', margin, yPosition);
+        yPosition += lineHeight;
+
+        pdf.setFont('helvetica', 'normal');
+        visibleTests.forEach((testCase: TestCase, testIndex: number) => {
+          const label = testCase.label ? `${testCase.label}: ` : '';
+          const text = `${testIndex + 1}. ${label}${formatTestCaseArgs(testCase.args)} -> ${JSON.stringify(testCase.expected)}`;
+          pdf.splitTextToSize(text, 170).forEach((line: string) => {
+            if (yPosition > pageHeight - 30) {
+              pdf.addPage();
+              yPosition = 20;
+            }
+            pdf.text(line, margin, yPosition);
+            yPosition += lineHeight;
+          });
+        });
+        yPosition += 3;
+      }
       
       // Add separator if not last question
       if (index < data.questions.length - 1) {
@@ -315,17 +540,50 @@ export default function HomePage() {
     setState((prev) => ({ ...prev, inputTitles: e.target.value }));
   };
 
+  const toggleExtraLanguage = (language: SupportedLanguage) => {
+    setState((prev) => ({
+      ...prev,
+      extraLanguages: prev.extraLanguages.includes(language)
+        ? prev.extraLanguages.filter((l) => l !== language)
+        : [...prev.extraLanguages, language],
+    }));
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setState((prev) => ({ ...prev, searchTerm: e.target.value }));
+    const searchTerm = e.target.value;
+    setState((prev) => ({
+      ...prev,
+      searchTerm,
+      page: 1,
+      // Rank search results by relevance unless the user picked another order
+      sortOption: searchTerm.trim() && prev.sortOption === 'newest' ? 'relevance'
+        : !searchTerm.trim() && prev.sortOption === 'relevance' ? 'newest'
+        : prev.sortOption,
+    }));
   };
 
   const handleDifficultyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setState((prev) => ({
       ...prev,
       selectedDifficulty: e.target.value as 'all' | 'Easy' | 'Medium' | 'Hard',
+      page: 1,
     }));
   };
 
+  const clearTopic = () => {
+    setState((prev) => ({ ...prev, selectedTopic: '', page: 1 }));
+    window.history.replaceState(null, '', '/');
+  };
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setState((prev) => ({ ...prev, sortOption: e.target.value as SortOption, page: 1 }));
+  };
+
+  const goToPage = (page: number) => {
+    setState((prev) => ({ ...prev, page }));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   if (state.isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -353,17 +611,71 @@ export default function HomePage() {
                 AI Coding Book
               </h1>
             </div>
-            <button
-              onClick={toggleDarkMode}
-              className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring"
-              aria-label="Toggle dark mode"
-            >
-              {state.isDarkMode ? (
-                <Sun className="h-5 w-5 text-yellow-500" />
-              ) : (
-                <Moon className="h-5 w-5 text-gray-600" />
+            <div className="flex items-center gap-3">
+              <Link
+                href="/topics"
+                className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring flex items-center gap-2 text-gray-700 dark:text-gray-200"
+              >
+                <Tags className="h-5 w-5 text-blue-600" />
+                <span className="hidden sm:inline">Topics</span>
+              </Link>
+              <Link
+                href="/review"
+                className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring flex items-center gap-2 text-gray-700 dark:text-gray-200"
+              >
+                <CalendarClock className="h-5 w-5 text-blue-600" />
+                <span className="hidden sm:inline">Review</span>
+              </Link>
+              <Link
+                href="/dashboard"
+                className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring flex items-center gap-2 text-gray-700 dark:text-gray-200"
+              >
+                <BarChart3 className="h-5 w-5 text-blue-600" />
+                <span className="hidden sm:inline">Progress</span>
+              </Link>
+              {hasRole(user, 'admin') && (
+                <Link
+                  href="/admin"
+                  className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring flex items-center gap-2 text-gray-700 dark:text-gray-200"
+                >
+                  <Users className="h-5 w-5 text-blue-600" />
+                  <span className="hidden sm:inline">Users</span>
+                </Link>
               )}
-            </button>
+              {user ? (
+                <div className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md flex items-center gap-2 text-gray-700 dark:text-gray-200">
+                  <UserIcon className="h-5 w-5 text-blue-600" />
+                  <span className="hidden sm:inline max-w-[10rem] truncate">{user.name}</span>
+                  <button
+                    onClick={logout}
+                    className="ml-1 text-gray-500 hover:text-red-600 transition-colors"
+                    aria-label="Sign out"
+                    title="Sign out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : !authLoading && (
+                <Link
+                  href="/login"
+                  className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring flex items-center gap-2 text-gray-700 dark:text-gray-200"
+                >
+                  <LogIn className="h-5 w-5 text-blue-600" />
+                  <span className="hidden sm:inline">Sign in</span>
+                </Link>
+              )}
+              <button
+                onClick={toggleDarkMode}
+                className="p-3 rounded-lg bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 focus-ring"
+                aria-label="Toggle dark mode"
+              >
+                {state.isDarkMode ? (
+                  <Sun className="h-5 w-5 text-yellow-500" />
+                ) : (
+                  <Moon className="h-5 w-5 text-gray-600" />
+                )}
+              </button>
+            </div>
           </div>
           <p className="text-xl text-gray-600 dark:text-gray-300 max-w-3xl mx-auto leading-relaxed">
             Generate comprehensive coding problems with AI-powered explanations, solutions, and interactive learning.
@@ -396,13 +708,50 @@ export default function HomePage() {
                 disabled={state.isGenerating}
               />
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                Maximum 20 questions per generation
+                {canGenerate || authLoading ? (
+                  'Maximum 20 questions per generation'
+                ) : user ? (
+                  'Only editors can generate questions. Ask an admin for access.'
+                ) : (
+                  <>
+                    <Link href="/login" className="text-blue-600 dark:text-blue-400 hover:underline">Sign in</Link> to generate questions
+                  </>
+                )}
               </p>
             </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <span>Solutions in Python and:</span>
+              {SUPPORTED_LANGUAGES.filter((language) => language !== 'python').map((language) => (
+                <label key={language} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={state.extraLanguages.includes(language)}
+                    onChange={() => toggleExtraLanguage(language)}
+                    disabled={state.isGenerating}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  {LANGUAGE_LABELS[language]}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <label htmlFor="on-duplicate">When a title already exists:</label>
+              <select
+                id="on-duplicate"
+                value={state.onDuplicate}
+                onChange={(e) => setState((prev) => ({ ...prev, onDuplicate: e.target.value as DuplicateTitleAction }))}
+                disabled={state.isGenerating}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {DUPLICATE_TITLE_ACTIONS.map((action) => (
+                  <option key={action} value={action}>{DUPLICATE_TITLE_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
             <div className="flex flex-col sm:flex-row gap-4">
               <button
                 onClick={handleGenerate}
-                disabled={state.isGenerating || !state.inputTitles.trim()}
+                disabled={state.isGenerating || !state.inputTitles.trim() || !canGenerate}
                 className="btn-primary flex-1 flex items-center justify-center gap-2"
               >
                 {state.isGenerating ? (
@@ -417,7 +766,7 @@ export default function HomePage() {
                   </>
                 )}
               </button>
-              {state.questions.length > 0 && (
+              {state.totalQuestions > 0 && (
                 <div className="flex gap-2">
                   <button
                     onClick={() => exportQuestions('pdf')}
@@ -437,10 +786,51 @@ export default function HomePage() {
               )}
             </div>
           </div>
+
+          {/* Generation Progress */}
+          {state.generationJob && (
+            <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-800 dark:text-white">
+                  Generation progress
+                </h3>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {state.generationJob.progress.completed + state.generationJob.progress.failed} of {state.generationJob.progress.total} finished
+                </span>
+              </div>
+              <ul className="space-y-2">
+                {state.generationJob.items.map((item) => (
+                  <li key={item.position} className="flex items-start gap-3 text-sm">
+                    {item.status === 'queued' && <Clock className="h-4 w-4 mt-0.5 text-gray-400" />}
+                    {item.status === 'running' && <Loader2 className="h-4 w-4 mt-0.5 animate-spin text-blue-600" />}
+                    {item.status === 'done' && <CheckCircle className="h-4 w-4 mt-0.5 text-green-500" />}
+                    {item.status === 'failed' && <XCircle className="h-4 w-4 mt-0.5 text-red-500" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between gap-2">
+                        {item.questionId ? (
+                          <a href={`/question/${item.questionId}`} className="truncate text-blue-600 dark:text-blue-400 hover:underline">
+                            {item.title}
+                          </a>
+                        ) : (
+                          <span className="truncate text-gray-800 dark:text-gray-200">{item.title}</span>
+                        )}
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          {getGenerationItemLabel(item)}
+                        </span>
+                      </div>
+                      {item.error && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{item.error}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </motion.div>
 
         {/* Search and Filter Section */}
-        {state.questions.length > 0 && (
+        {state.totalQuestions > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -471,33 +861,84 @@ export default function HomePage() {
                   <option value="Hard">Hard</option>
                 </select>
               </div>
+              <div className="relative">
+                <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <select
+                  value={state.sortOption}
+                  onChange={handleSortChange}
+                  aria-label="Sort questions"
+                  className="pl-10 pr-8 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white appearance-none min-w-[170px]"
+                >
+                  {(Object.keys(SORT_OPTIONS) as SortOption[])
+                    .filter((option) => option !== 'relevance' || state.searchTerm.trim())
+                    .map((option) => (
+                      <option key={option} value={option}>{SORT_OPTIONS[option].label}</option>
+                    ))}
+                </select>
+              </div>
             </div>
-            <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-              Showing {state.filteredQuestions.length} of {state.questions.length} questions
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+              <span>Showing {state.matchingQuestions} of {state.totalQuestions} questions</span>
+              {state.selectedTopic && (
+                <span className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-md font-medium">
+                  <Tag className="h-3 w-3" />
+                  {state.selectedTopic}
+                  <button onClick={clearTopic} className="ml-1 hover:text-blue-900 dark:hover:text-white" aria-label="Clear topic filter">
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              )}
             </div>
           </motion.div>
         )}
 
         {/* Questions Grid */}
-        {state.filteredQuestions.length > 0 ? (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.4 }}
-            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
-          >
-            {state.filteredQuestions.map((question, index) => (
-              <motion.div
-                key={question.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-              >
-                <QuestionCard question={question} />
-              </motion.div>
-            ))}
-          </motion.div>
-        ) : state.questions.length > 0 ? (
+        {state.questions.length > 0 ? (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.4 }}
+              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
+            >
+              {state.questions.map((question, index) => (
+                <motion.div
+                  key={question.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                >
+                  <QuestionCard question={question} match={'match' in question ? question.match : undefined} />
+                </motion.div>
+              ))}
+            </motion.div>
+
+            {/* Pagination */}
+            {state.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <button
+                  onClick={() => goToPage(state.page - 1)}
+                  disabled={state.page <= 1}
+                  className="btn-secondary flex items-center gap-1"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Page {state.page} of {state.totalPages}
+                </span>
+                <button
+                  onClick={() => goToPage(state.page + 1)}
+                  disabled={state.page >= state.totalPages}
+                  className="btn-secondary flex items-center gap-1"
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </>
+        ) : state.totalQuestions > 0 ? (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
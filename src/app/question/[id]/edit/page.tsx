@@ -0,0 +1,539 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Question, QuestionInputSchema, ApiResponse, DIFFICULTY_COLORS } from '@/lib/types';
+import CodeBlock from '@/components/CodeBlock';
+import SignInPrompt from '@/components/SignInPrompt';
+import { QuestionDescription, QuestionExample, StepByStepExplanation, QuestionPseudocode } from '@/components/QuestionSections';
+import { useAuth } from '@/components/AuthProvider';
+import { hasRole } from '@/lib/utils';
+import { ArrowLeft, Loader2, AlertCircle, Save, ShieldAlert, Tag, Code, Lightbulb } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// List fields are edited as one entry per line (topics as a comma-separated line)
+interface QuestionForm {
+  title: string;
+  difficulty: Question['difficulty'];
+  topics: string;
+  description: string;
+  exampleInput: string;
+  exampleOutput: string;
+  exampleExplanation: string;
+  solution: string;
+  steps: string;
+  pseudocode: string;
+  hints: string;
+}
+
+type FormErrors = Partial<Record<keyof QuestionForm, string>>;
+
+const DIFFICULTIES: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+// Schema paths reported by Zod, mapped back to the form field that holds them
+const ERROR_FIELDS: Record<string, keyof QuestionForm> = {
+  title: 'title',
+  difficulty: 'difficulty',
+  topics: 'topics',
+  description: 'description',
+  'example.input': 'exampleInput',
+  'example.output': 'exampleOutput',
+  'example.explanation': 'exampleExplanation',
+  solution_python: 'solution',
+  step_by_step_explanation: 'steps',
+  pseudocode: 'pseudocode',
+  hints: 'hints',
+};
+
+const inputClassName = 'w-full px-3 py-2 border rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+function toForm(question: Question): QuestionForm {
+  return {
+    title: question.title,
+    difficulty: question.difficulty,
+    topics: question.topics.join(', '),
+    description: question.description,
+    exampleInput: question.example.input,
+    exampleOutput: question.example.output,
+    exampleExplanation: question.example.explanation,
+    solution: question.solution_python,
+    steps: question.step_by_step_explanation.join('\n'),
+    pseudocode: (question.pseudocode ?? []).join('\n'),
+    hints: (question.hints ?? []).join('\n'),
+  };
+}
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// The request body for PUT /api/questions/:id; test cases and translations are left as they are
+function toQuestionInput(form: QuestionForm) {
+  const pseudocode = splitLines(form.pseudocode);
+  const hints = splitLines(form.hints);
+
+  return {
+    title: form.title.trim(),
+    difficulty: form.difficulty,
+    topics: form.topics.split(',').map(topic => topic.trim()).filter(topic => topic.length > 0),
+    description: form.description.trim(),
+    example: {
+      input: form.exampleInput.trim(),
+      output: form.exampleOutput.trim(),
+      explanation: form.exampleExplanation.trim(),
+    },
+    solution_python: form.solution,
+    step_by_step_explanation: splitLines(form.steps),
+    ...(pseudocode.length > 0 ? { pseudocode } : {}),
+    ...(hints.length > 0 ? { hints } : {}),
+  };
+}
+
+function validateForm(form: QuestionForm): FormErrors {
+  const result = QuestionInputSchema.safeParse(toQuestionInput(form));
+  if (result.success) {
+    return {};
+  }
+
+  // Keep the first problem reported for each field
+  return result.error.errors.reduce<FormErrors>((errors, issue) => {
+    const path = issue.path[0] === 'example' ? issue.path.slice(0, 2).join('.') : String(issue.path[0]);
+    const field = ERROR_FIELDS[path];
+    return field && !errors[field] ? { ...errors, [field]: issue.message } : errors;
+  }, {});
+}
+
+export default function EditQuestionPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const [original, setOriginal] = useState<QuestionForm | null>(null);
+  const [form, setForm] = useState<QuestionForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [serverErrors, setServerErrors] = useState<FormErrors>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const questionId = params.id as string;
+  const questionPath = `/question/${encodeURIComponent(questionId)}`;
+  const canEdit = hasRole(user, 'editor');
+
+  useEffect(() => {
+    if (questionId) {
+      fetchQuestion(questionId);
+    }
+  }, [questionId]);
+
+  const dirty = form !== null && original !== null && JSON.stringify(form) !== JSON.stringify(original);
+
+  // Reloading or closing the tab with unsaved changes asks the browser to confirm
+  useEffect(() => {
+    if (!dirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  const errors = useMemo<FormErrors>(() => (form ? { ...validateForm(form), ...serverErrors } : {}), [form, serverErrors]);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const fetchQuestion = async (id: string) => {
+    try {
+      const response = await fetch(`/api/questions?id=${encodeURIComponent(id)}`);
+      const data: ApiResponse<Question> = await response.json();
+
+      if (data.success && data.data) {
+        const loaded = toForm(data.data);
+        setOriginal(loaded);
+        setForm(loaded);
+      } else {
+        throw new Error(data.error || 'Question not found');
+      }
+    } catch (error) {
+      console.error('Error fetching question:', error);
+      setError('Failed to load question');
+      toast.error('Failed to load question');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof QuestionForm>(field: K, value: QuestionForm[K]) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setServerErrors(prev => {
+      const { [field]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const leave = () => {
+    if (dirty && !window.confirm('Discard your unsaved changes?')) {
+      return;
+    }
+    router.push(questionPath);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form || hasErrors) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(questionId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toQuestionInput(form)),
+      });
+      const data: ApiResponse<Question> = await response.json();
+
+      if (!data.success || !data.data) {
+        if (response.status === 409) {
+          setServerErrors({ title: data.error || 'A question with this title already exists' });
+        }
+        throw new Error(data.error || 'Failed to save question');
+      }
+
+      const saved = toForm(data.data);
+      setOriginal(saved);
+      setForm(saved);
+      toast.success(data.message || 'Question updated');
+      router.push(questionPath);
+    } catch (error) {
+      console.error('Error saving question:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Loading question...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !form) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center max-w-md">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+            {error || 'Question not found'}
+          </h1>
+          <button
+            onClick={() => router.push('/')}
+            className="btn-primary flex items-center gap-2 mx-auto"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Go Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const preview = toQuestionInput(form);
+
+  const fieldClassName = (field: keyof QuestionForm) =>
+    `${inputClassName} ${errors[field] ? 'border-red-500 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'}`;
+
+  const fieldError = (field: keyof QuestionForm) =>
+    errors[field] && (
+      <p id={`${field}-error`} className="mt-1 text-sm text-red-600 dark:text-red-400">{errors[field]}</p>
+    );
+
+  const label = (field: keyof QuestionForm, text: string, note?: string) => (
+    <label htmlFor={field} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+      {text}
+      {note && <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">({note})</span>}
+    </label>
+  );
+
+  const describedBy = (field: keyof QuestionForm) => (errors[field] ? `${field}-error` : undefined);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <button
+            onClick={leave}
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Question
+          </button>
+
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Edit Question
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Changes are previewed as learners will see them. Test cases and translated solutions keep their current values.
+          </p>
+        </motion.div>
+
+        {!user ? (
+          <SignInPrompt message="Sign in with an editor account to edit questions." />
+        ) : !canEdit ? (
+          <div className="text-center py-12">
+            <ShieldAlert className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Editor access required</h3>
+            <p className="text-gray-600 dark:text-gray-400">Ask an admin to change your role.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Form */}
+            <form onSubmit={save} className="card p-6 space-y-5 h-fit" noValidate>
+              <div>
+                {label('title', 'Title')}
+                <input
+                  id="title"
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => updateField('title', e.target.value)}
+                  className={fieldClassName('title')}
+                  aria-invalid={Boolean(errors.title)}
+                  aria-describedby={describedBy('title')}
+                />
+                {fieldError('title')}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  {label('difficulty', 'Difficulty')}
+                  <select
+                    id="difficulty"
+                    value={form.difficulty}
+                    onChange={(e) => updateField('difficulty', e.target.value as Question['difficulty'])}
+                    className={fieldClassName('difficulty')}
+                  >
+                    {DIFFICULTIES.map((difficulty) => (
+                      <option key={difficulty} value={difficulty}>{difficulty}</option>
+                    ))}
+                  </select>
+                  {fieldError('difficulty')}
+                </div>
+                <div className="sm:col-span-2">
+                  {label('topics', 'Topics', 'comma-separated')}
+                  <input
+                    id="topics"
+                    type="text"
+                    value={form.topics}
+                    onChange={(e) => updateField('topics', e.target.value)}
+                    className={fieldClassName('topics')}
+                    aria-invalid={Boolean(errors.topics)}
+                    aria-describedby={describedBy('topics')}
+                  />
+                  {fieldError('topics')}
+                </div>
+              </div>
+
+              <div>
+                {label('description', 'Description')}
+                <textarea
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => updateField('description', e.target.value)}
+                  rows={5}
+                  className={fieldClassName('description')}
+                  aria-invalid={Boolean(errors.description)}
+                  aria-describedby={describedBy('description')}
+                />
+                {fieldError('description')}
+              </div>
+
+              <fieldset className="space-y-3">
+                <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Example</legend>
+                <div>
+                  {label('exampleInput', 'Input')}
+                  <input
+                    id="exampleInput"
+                    type="text"
+                    value={form.exampleInput}
+                    onChange={(e) => updateField('exampleInput', e.target.value)}
+                    className={`${fieldClassName('exampleInput')} font-mono text-sm`}
+                    aria-invalid={Boolean(errors.exampleInput)}
+                    aria-describedby={describedBy('exampleInput')}
+                  />
+                  {fieldError('exampleInput')}
+                </div>
+                <div>
+                  {label('exampleOutput', 'Output')}
+                  <input
+                    id="exampleOutput"
+                    type="text"
+                    value={form.exampleOutput}
+                    onChange={(e) => updateField('exampleOutput', e.target.value)}
+                    className={`${fieldClassName('exampleOutput')} font-mono text-sm`}
+                    aria-invalid={Boolean(errors.exampleOutput)}
+                    aria-describedby={describedBy('exampleOutput')}
+                  />
+                  {fieldError('exampleOutput')}
+                </div>
+                <div>
+                  {label('exampleExplanation', 'Explanation')}
+                  <textarea
+                    id="exampleExplanation"
+                    value={form.exampleExplanation}
+                    onChange={(e) => updateField('exampleExplanation', e.target.value)}
+                    rows={2}
+                    className={fieldClassName('exampleExplanation')}
+                    aria-invalid={Boolean(errors.exampleExplanation)}
+                    aria-describedby={describedBy('exampleExplanation')}
+                  />
+                  {fieldError('exampleExplanation')}
+                </div>
+              </fieldset>
+
+              <div>
+                {label('solution', 'Python solution')}
+                <textarea
+                  id="solution"
+                  value={form.solution}
+                  onChange={(e) => updateField('solution', e.target.value)}
+                  rows={10}
+                  spellCheck={false}
+                  className={`${fieldClassName('solution')} font-mono text-sm`}
+                  aria-invalid={Boolean(errors.solution)}
+                  aria-describedby={describedBy('solution')}
+                />
+                {fieldError('solution')}
+              </div>
+
+              <div>
+                {label('steps', 'Step-by-step explanation', 'one step per line')}
+                <textarea
+                  id="steps"
+                  value={form.steps}
+                  onChange={(e) => updateField('steps', e.target.value)}
+                  rows={5}
+                  className={fieldClassName('steps')}
+                  aria-invalid={Boolean(errors.steps)}
+                  aria-describedby={describedBy('steps')}
+                />
+                {fieldError('steps')}
+              </div>
+
+              <div>
+                {label('pseudocode', 'Pseudocode', 'optional, one line per line')}
+                <textarea
+                  id="pseudocode"
+                  value={form.pseudocode}
+                  onChange={(e) => updateField('pseudocode', e.target.value)}
+                  rows={5}
+                  spellCheck={false}
+                  className={`${fieldClassName('pseudocode')} font-mono text-sm`}
+                  aria-invalid={Boolean(errors.pseudocode)}
+                  aria-describedby={describedBy('pseudocode')}
+                />
+                {fieldError('pseudocode')}
+              </div>
+
+              <div>
+                {label('hints', 'Hints', 'optional, one per line from gentle to explicit')}
+                <textarea
+                  id="hints"
+                  value={form.hints}
+                  onChange={(e) => updateField('hints', e.target.value)}
+                  rows={4}
+                  className={fieldClassName('hints')}
+                  aria-invalid={Boolean(errors.hints)}
+                  aria-describedby={describedBy('hints')}
+                />
+                {fieldError('hints')}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 pt-2">
+                <button
+                  type="submit"
+                  disabled={saving || !dirty || hasErrors}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  Save changes
+                </button>
+                <button type="button" onClick={leave} className="btn-secondary">
+                  Cancel
+                </button>
+                {dirty && <span className="text-sm text-gray-500 dark:text-gray-400">Unsaved changes</span>}
+              </div>
+            </form>
+
+            {/* Preview */}
+            <div className="space-y-8">
+              <div className="card p-6">
+                <span className={`inline-block mb-4 px-3 py-1 rounded-full text-sm font-medium ${DIFFICULTY_COLORS[preview.difficulty]}`}>
+                  {preview.difficulty}
+                </span>
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4 leading-tight">
+                  {preview.title || 'Untitled question'}
+                </h2>
+                <div className="flex flex-wrap gap-2">
+                  {preview.topics.map((topic, index) => (
+                    <span
+                      key={index}
+                      className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-md text-sm font-medium"
+                    >
+                      <Tag className="h-3 w-3" />
+                      {topic}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <QuestionDescription description={preview.description} delay={0} />
+
+              <QuestionExample example={preview.example} delay={0} />
+
+              {preview.hints && (
+                <section className="card p-6">
+                  <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                    <Lightbulb className="h-6 w-6 text-yellow-500" />
+                    Hints
+                  </h2>
+                  <ol className="list-decimal list-inside space-y-2 text-gray-700 dark:text-gray-300">
+                    {preview.hints.map((hint, index) => (
+                      <li key={index}>{hint}</li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+
+              <section className="card p-6">
+                <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                  <Code className="h-6 w-6 text-purple-600" />
+                  Solution
+                </h2>
+                <CodeBlock
+                  code={preview.solution_python}
+                  language="python"
+                  title="Solution"
+                  showLineNumbers={true}
+                />
+              </section>
+
+              <StepByStepExplanation steps={preview.step_by_step_explanation} delay={0} />
+
+              {preview.pseudocode && <QuestionPseudocode lines={preview.pseudocode} delay={0} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,40 +2,71 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { Question, ApiResponse, DIFFICULTY_COLORS } from '@/lib/types';
+import { Question, QuestionView, QuestionNavigation, HintProgress, ApiResponse, DIFFICULTY_COLORS, SUPPORTED_LANGUAGES, LANGUAGE_LABELS, SupportedLanguage } from '@/lib/types';
 import CodeBlock from '@/components/CodeBlock';
 import ChatBox from '@/components/ChatBox';
+import RunPanel from '@/components/RunPanel';
+import PracticeEditor from '@/components/PracticeEditor';
+import HintLadder from '@/components/HintLadder';
+import ReviewSchedulePanel from '@/components/ReviewSchedulePanel';
+import RevisionHistory from '@/components/RevisionHistory';
+import BookmarkButton from '@/components/BookmarkButton';
 import Navigation from '@/components/Navigation';
-import { formatDate } from '@/lib/utils';
+import SignInPrompt from '@/components/SignInPrompt';
+import { QuestionDescription, QuestionExample, StepByStepExplanation, QuestionPseudocode } from '@/components/QuestionSections';
+import { useAuth } from '@/components/AuthProvider';
+import { formatDate, formatTestCaseArgs, hasRole } from '@/lib/utils';
 import { 
   ArrowLeft, 
   Calendar, 
   Clock, 
   Tag, 
-  BookOpen, 
   Code, 
   Lightbulb,
-  Target,
   Loader2,
   AlertCircle,
-  CheckCircle
+  Languages,
+  ListChecks,
+  Eye,
+  EyeOff,
+  PenLine,
+  Trash2,
+  Pencil
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface QuestionPageState {
-  question: Question | null;
-  allQuestions: Question[];
+  question: QuestionView | null;
+  navigation: QuestionNavigation | null;
+  solutionLanguage: SupportedLanguage;
+  translating: SupportedLanguage | null;
+  deleting: boolean;
+  hideSolution: boolean;
+  solutionRevealed: boolean;
+  hints: HintProgress | null;
+  revealingHint: boolean;
   loading: boolean;
   error: string | null;
 }
 
+const HIDE_SOLUTION_KEY = 'practice_hide_solution';
+
 export default function QuestionPage() {
   const params = useParams();
   const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
   const [state, setState] = useState<QuestionPageState>({
     question: null,
-    allQuestions: [],
+    navigation: null,
+    solutionLanguage: 'python',
+    translating: null,
+    deleting: false,
+    hideSolution: false,
+    solutionRevealed: false,
+    hints: null,
+    revealingHint: false,
     loading: true,
     error: null,
   });
@@ -44,10 +75,19 @@ export default function QuestionPage() {
 
   useEffect(() => {
     if (questionId) {
-      Promise.all([fetchQuestion(questionId), fetchAllQuestions()]);
+      fetchQuestion(questionId);
     }
   }, [questionId]);
 
+  useEffect(() => {
+    setState(prev => ({ ...prev, hideSolution: localStorage.getItem(HIDE_SOLUTION_KEY) === 'true' }));
+  }, []);
+
+  const toggleHideSolution = (hideSolution: boolean) => {
+    localStorage.setItem(HIDE_SOLUTION_KEY, String(hideSolution));
+    setState(prev => ({ ...prev, hideSolution }));
+  };
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
@@ -55,23 +95,15 @@ export default function QuestionPage() {
         return; // Don't handle shortcuts when typing in inputs
       }
 
-      const currentIndex = state.allQuestions.findIndex(q => q.id === questionId);
-      
       switch (event.key) {
         case 'ArrowLeft':
-          if (currentIndex > 0) {
-            const prevQ = state.allQuestions[currentIndex - 1];
-            if (prevQ) {
-              router.push(`/question/${prevQ.id}`);
-            }
+          if (state.navigation?.previous) {
+            router.push(`/question/${state.navigation.previous.id}`);
           }
           break;
         case 'ArrowRight':
-          if (currentIndex < state.allQuestions.length - 1) {
-            const nextQ = state.allQuestions[currentIndex + 1];
-            if (nextQ) {
-              router.push(`/question/${nextQ.id}`);
-            }
+          if (state.navigation?.next) {
+            router.push(`/question/${state.navigation.next.id}`);
           }
           break;
         case 'h':
@@ -83,17 +115,21 @@ export default function QuestionPage() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [state.allQuestions, questionId, router]);
+  }, [state.navigation, router]);
 
   const fetchQuestion = async (id: string) => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
       
-      const response = await fetch(`/api/questions?id=${id}`);
-      const data: ApiResponse<Question> = await response.json();
+      const response = await fetch(`/api/questions?id=${encodeURIComponent(id)}&navigation=true`);
+      const data: ApiResponse<{ question: QuestionView; navigation: QuestionNavigation | null }> = await response.json();
 
       if (data.success && data.data) {
-        setState(prev => ({ ...prev, question: data.data || null, loading: false }));
+        const { question, navigation } = data.data;
+        setState(prev => ({ ...prev, question, navigation, solutionRevealed: false, hints: null, loading: false }));
+        if ((question.hints?.length ?? question.hint_count ?? 0) > 0) {
+          fetchHints(question.id);
+        }
       } else {
         throw new Error(data.error || 'Question not found');
       }
@@ -108,16 +144,93 @@ export default function QuestionPage() {
     }
   };
 
-  const fetchAllQuestions = async () => {
+  const fetchHints = async (id: string) => {
     try {
-      const response = await fetch('/api/questions');
-      const data: ApiResponse<Question[]> = await response.json();
+      const response = await fetch(`/api/questions/${encodeURIComponent(id)}/hints`);
+      const data: ApiResponse<HintProgress> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load hints');
+      }
+
+      const hints = data.data;
+      setState(prev => ({ ...prev, hints }));
+    } catch (error) {
+      console.error('Error fetching hints:', error);
+    }
+  };
+
+  // "next" reveals one more hint; "solution" reveals them all and unlocks the solution
+  const revealHint = async (action: 'next' | 'solution') => {
+    setState(prev => ({ ...prev, revealingHint: true }));
+
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(questionId)}/hints`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data: ApiResponse<HintProgress> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to reveal hint');
+      }
+
+      const hints = data.data;
+      setState(prev => ({ ...prev, hints, revealingHint: false }));
+    } catch (error) {
+      console.error('Error revealing hint:', error);
+      setState(prev => ({ ...prev, revealingHint: false }));
+      toast.error(error instanceof Error ? error.message : 'Failed to reveal hint');
+    }
+  };
+
+  const translateSolution = async (language: SupportedLanguage) => {
+    setState(prev => ({ ...prev, translating: language }));
+
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(questionId)}/translate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language }),
+      });
+      const data: ApiResponse<Question> = await response.json();
 
       if (data.success && data.data) {
-        setState(prev => ({ ...prev, allQuestions: data.data || [] }));
+        const question = data.data;
+        setState(prev => ({ ...prev, question, translating: null }));
+        toast.success(`Solution translated to ${LANGUAGE_LABELS[language]}`);
+      } else {
+        throw new Error(data.error || 'Translation failed');
       }
     } catch (error) {
-      console.error('Error fetching all questions:', error);
+      console.error('Error translating solution:', error);
+      setState(prev => ({ ...prev, translating: null }));
+      toast.error(`Failed to translate to ${LANGUAGE_LABELS[language]}`);
+    }
+  };
+
+  const deleteQuestion = async () => {
+    if (!window.confirm('Delete this question with its test cases, conversations and progress? This cannot be undone.')) {
+      return;
+    }
+
+    setState(prev => ({ ...prev, deleting: true }));
+
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(questionId)}`, { method: 'DELETE' });
+      const data: ApiResponse<never> = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete question');
+      }
+
+      toast.success(data.message || 'Question deleted');
+      router.push('/');
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      setState(prev => ({ ...prev, deleting: false }));
+      toast.error(error instanceof Error ? error.message : 'Failed to delete question');
     }
   };
 
@@ -159,10 +272,19 @@ export default function QuestionPage() {
     );
   }
 
-  const { question, allQuestions } = state;
-  const currentIndex = allQuestions.findIndex(q => q.id === question.id);
-  const prevQuestion = currentIndex > 0 ? allQuestions[currentIndex - 1] : null;
-  const nextQuestion = currentIndex < allQuestions.length - 1 ? allQuestions[currentIndex + 1] : null;
+  const { navigation, solutionLanguage } = state;
+  // While the solution is locked the server leaves it out; the hints endpoint sends it once unlocked
+  const question: QuestionView = { ...state.question, ...state.hints?.solution };
+  const solutionCode = solutionLanguage === 'python'
+    ? question.solution_python
+    : question.solutions?.[solutionLanguage];
+  // Questions with hints lock the solution behind the hint ladder instead of the practice toggle
+  const hasHints = (question.hints?.length ?? question.hint_count ?? 0) > 0;
+  const explanationLocked = hasHints && !state.hints?.solutionUnlocked;
+  const solutionHidden = hasHints ? explanationLocked : state.hideSolution && !state.solutionRevealed;
+  // Editors get hidden cases in the list; everyone else only gets their count
+  const visibleTests = (question.test_cases ?? []).filter(testCase => !testCase.hidden);
+  const hiddenTestCount = question.hidden_test_count ?? (question.test_cases?.length ?? 0) - visibleTests.length;
   const difficultyColor = DIFFICULTY_COLORS[question.difficulty];
 
   return (
@@ -196,6 +318,26 @@ export default function QuestionPage() {
                   <Clock className="h-4 w-4" />
                   {question.id}
                 </div>
+                {user && <BookmarkButton questionId={question.id} />}
+                {hasRole(user, 'editor') && (
+                  <Link
+                    href={`/question/${encodeURIComponent(question.id)}/edit`}
+                    className="btn-secondary flex items-center gap-2 text-sm"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Link>
+                )}
+                {hasRole(user, 'admin') && (
+                  <button
+                    onClick={deleteQuestion}
+                    disabled={state.deleting}
+                    className="btn-secondary flex items-center gap-2 text-sm text-red-600 dark:text-red-400"
+                  >
+                    {state.deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    Delete
+                  </button>
+                )}
               </div>
               
               <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-4 leading-tight">
@@ -204,13 +346,14 @@ export default function QuestionPage() {
               
               <div className="flex flex-wrap gap-2">
                 {question.topics.map((topic, index) => (
-                  <span
+                  <Link
                     key={index}
-                    className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-md text-sm font-medium"
+                    href={`/?topic=${encodeURIComponent(topic)}`}
+                    className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-md text-sm font-medium hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
                   >
                     <Tag className="h-3 w-3" />
                     {topic}
-                  </span>
+                  </Link>
                 ))}
               </div>
             </div>
@@ -220,137 +363,200 @@ export default function QuestionPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
-            {/* Description */}
+            <QuestionDescription description={question.description} />
+
+            <QuestionExample example={question.example} />
+
+            {/* Test Cases */}
+            {(visibleTests.length > 0 || hiddenTestCount > 0) && (
+              <motion.section 
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.25 }}
+                className="card p-6"
+              >
+                <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                  <ListChecks className="h-6 w-6 text-green-600" />
+                  Test Cases
+                </h2>
+                <div className="space-y-3">
+                  {visibleTests.map((testCase, index) => (
+                    <div key={testCase.id ?? index} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+                      {testCase.label && (
+                        <span className="inline-block mb-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                          {testCase.label}
+                        </span>
+                      )}
+                      <div className="text-sm font-mono text-gray-700 dark:text-gray-300 space-y-1">
+                        <p><span className="text-gray-500">Input:</span> {formatTestCaseArgs(testCase.args)}</p>
+                        <p><span className="text-gray-500">Expected:</span> {JSON.stringify(testCase.expected)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {hiddenTestCount > 0 && (
+                  <p className="mt-4 text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                    <EyeOff className="h-4 w-4" />
+                    {hiddenTestCount} hidden test case{hiddenTestCount !== 1 ? 's' : ''} also run when you check a solution
+                  </p>
+                )}
+              </motion.section>
+            )}
+
+            {/* Hints */}
+            {hasHints && (
+              <motion.section 
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.27 }}
+                className="card p-6"
+              >
+                <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+                  <Lightbulb className="h-6 w-6 text-yellow-500" />
+                  Hints
+                </h2>
+                {!user && !authLoading ? (
+                  <SignInPrompt message="Sign in to work through the hints and unlock the solution." />
+                ) : state.hints ? (
+                  <HintLadder
+                    progress={state.hints}
+                    revealing={state.revealingHint}
+                    onNextHint={() => revealHint('next')}
+                    onUnlockSolution={() => revealHint('solution')}
+                  />
+                ) : (
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                )}
+              </motion.section>
+            )}
+
+            {/* Practice */}
             <motion.section 
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.1 }}
+              transition={{ delay: 0.28 }}
               className="card p-6"
             >
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
-                <BookOpen className="h-6 w-6 text-blue-600" />
-                Problem Description
-              </h2>
-              <div className="prose dark:prose-invert max-w-none">
-                <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
-                  {question.description}
-                </p>
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                  <PenLine className="h-6 w-6 text-blue-600" />
+                  Practice
+                </h2>
+                {!hasHints && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={state.hideSolution}
+                      onChange={(e) => toggleHideSolution(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    Hide reference solution until I give up
+                  </label>
+                )}
               </div>
+              {user ? (
+                <PracticeEditor question={question} />
+              ) : (
+                <SignInPrompt message="Sign in to write, run and save your own solutions." />
+              )}
             </motion.section>
 
-            {/* Example */}
+            {/* Solution */}
             <motion.section 
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.2 }}
+              transition={{ delay: 0.3 }}
               className="card p-6"
             >
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
-                <Target className="h-6 w-6 text-green-600" />
-                Example
-              </h2>
-              <div className="space-y-4">
-                <div>
-                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                    Input:
-                  </h3>
-                  <code className="block bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-sm font-mono">
-                    {question.example.input}
-                  </code>
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                  <Code className="h-6 w-6 text-purple-600" />
+                  Solution
+                </h2>
+                <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1" role="tablist">
+                  {SUPPORTED_LANGUAGES.map((language) => {
+                    const available = language === 'python' || Boolean(question.solutions?.[language]);
+                    return (
+                      <button
+                        key={language}
+                        role="tab"
+                        aria-selected={solutionLanguage === language}
+                        onClick={() => setState(prev => ({ ...prev, solutionLanguage: language }))}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          solutionLanguage === language
+                            ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm'
+                            : available
+                              ? 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                              : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'
+                        }`}
+                      >
+                        {LANGUAGE_LABELS[language]}
+                      </button>
+                    );
+                  })}
                 </div>
-                <div>
-                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4 text-blue-500" />
-                    Output:
-                  </h3>
-                  <code className="block bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-sm font-mono">
-                    {question.example.output}
-                  </code>
+              </div>
+              {solutionHidden ? (
+                <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-8 text-center">
+                  <EyeOff className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    {hasHints
+                      ? 'Work through the hints first; the solution unlocks once they are all revealed.'
+                      : 'The reference solution is hidden while you practice.'}
+                  </p>
+                  {(user || !hasHints) && (
+                    <button
+                      onClick={() => hasHints
+                        ? revealHint('solution')
+                        : setState(prev => ({ ...prev, solutionRevealed: true }))}
+                      disabled={state.revealingHint}
+                      className="btn-secondary flex items-center gap-2 mx-auto"
+                    >
+                      <Eye className="h-4 w-4" />
+                      I give up, show the solution
+                    </button>
+                  )}
                 </div>
-                <div>
-                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
-                    <Lightbulb className="h-4 w-4 text-yellow-500" />
-                    Explanation:
-                  </h3>
-                  <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
-                    {question.example.explanation}
+              ) : solutionCode ? (
+                <CodeBlock 
+                  code={solutionCode} 
+                  language={solutionLanguage}
+                  title="Solution"
+                  showLineNumbers={true}
+                />
+              ) : (
+                <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-8 text-center">
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    No {LANGUAGE_LABELS[solutionLanguage]} solution yet.
                   </p>
+                  {hasRole(user, 'editor') && (
+                    <button
+                      onClick={() => translateSolution(solutionLanguage)}
+                      disabled={state.translating !== null}
+                      className="btn-primary flex items-center gap-2 mx-auto"
+                    >
+                      {state.translating === solutionLanguage ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Translating...
+                        </>
+                      ) : (
+                        <>
+                          <Languages className="h-4 w-4" />
+                          Translate from Python
+                        </>
+                      )}
+                    </button>
+                  )}
                 </div>
-              </div>
+              )}
+              {solutionLanguage === 'python' && !solutionHidden && user && <RunPanel question={question} />}
             </motion.section>
 
-            {/* Solution */}
-            <motion.section 
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.3 }}
-              className="card p-6"
-            >
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
-                <Code className="h-6 w-6 text-purple-600" />
-                Python Solution
-              </h2>
-              <CodeBlock 
-                code={question.solution_python} 
-                language="python"
-                title="Solution"
-                showLineNumbers={true}
-              />
-            </motion.section>
+            <StepByStepExplanation steps={question.step_by_step_explanation ?? []} locked={explanationLocked} />
 
-            {/* Step by Step Explanation */}
-            <motion.section 
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.4 }}
-              className="card p-6"
-            >
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
-                <Lightbulb className="h-6 w-6 text-yellow-500" />
-                Step-by-Step Explanation
-              </h2>
-              <div className="space-y-4">
-                {question.step_by_step_explanation.map((step, index) => (
-                  <div key={index} className="flex gap-4">
-                    <div className="flex-shrink-0 w-8 h-8 bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300 rounded-full flex items-center justify-center font-semibold text-sm">
-                      {index + 1}
-                    </div>
-                    <div className="flex-1 pt-1">
-                      <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
-                        {step}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </motion.section>
-
-            {/* Pseudocode */}
-            {question.pseudocode && question.pseudocode.length > 0 && (
-              <motion.section 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.5 }}
-                className="card p-6"
-              >
-                <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
-                  <Code className="h-6 w-6 text-gray-600" />
-                  Pseudocode
-                </h2>
-                <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg font-mono text-sm">
-                  {question.pseudocode.map((line, index) => (
-                    <div key={index} className="flex gap-4">
-                      <span className="text-gray-400 w-6 text-right">
-                        {index + 1}
-                      </span>
-                      <span className="text-gray-700 dark:text-gray-300">
-                        {line}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              </motion.section>
+            {!explanationLocked && question.pseudocode && question.pseudocode.length > 0 && (
+              <QuestionPseudocode lines={question.pseudocode} />
             )}
           </div>
 
@@ -363,20 +569,49 @@ export default function QuestionPage() {
               transition={{ delay: 0.2 }}
             >
             <Navigation 
-              prevQuestion={prevQuestion || null}
-              nextQuestion={nextQuestion || null}
-              currentIndex={currentIndex >= 0 ? currentIndex : undefined}
-              totalQuestions={allQuestions.length}
+              prevQuestion={navigation?.previous ?? null}
+              nextQuestion={navigation?.next ?? null}
+              currentIndex={navigation?.position}
+              totalQuestions={navigation?.total ?? 0}
             />
             </motion.div>
+
+            {/* Spaced repetition */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.25 }}
+            >
+              {user ? (
+                <ReviewSchedulePanel questionId={question.id} />
+              ) : (
+                <div className="card p-6">
+                  <SignInPrompt message="Sign in to schedule reviews and chat with the AI tutor." />
+                </div>
+              )}
+            </motion.div>
             
+            {/* Revisions */}
+            {hasRole(user, 'editor') && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.28 }}
+              >
+                <RevisionHistory
+                  questionId={question.id}
+                  onRestored={(restored) => setState(prev => ({ ...prev, question: restored }))}
+                />
+              </motion.div>
+            )}
+
             {/* Chat */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.3 }}
             >
-              <ChatBox question={question} />
+              {user && <ChatBox question={question} />}
             </motion.div>
           </div>
         </div>
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ReviewQueue, ApiResponse, DIFFICULTY_COLORS, REVIEW_RATING_LABELS } from '@/lib/types';
+import { formatDueDate } from '@/lib/utils';
+import SignInPrompt from '@/components/SignInPrompt';
+import { useAuth } from '@/components/AuthProvider';
+import { ArrowLeft, CalendarClock, CalendarCheck, Loader2, Tag } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function ReviewPage() {
+  const [queue, setQueue] = useState<ReviewQueue | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { user, loading: authLoading } = useAuth();
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (user) {
+      fetchQueue();
+    } else {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch('/api/review-queue');
+      const data: ApiResponse<ReviewQueue> = await response.json();
+
+      if (data.success && data.data) {
+        setQueue(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch review queue');
+      }
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      toast.error('Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!loading && !user) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-3">
+            <CalendarClock className="h-8 w-8 text-blue-600" />
+            Review Today
+          </h1>
+          <SignInPrompt message="Sign in to build a spaced-repetition review queue." />
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Loading review queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const due = queue?.due ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <CalendarClock className="h-8 w-8 text-blue-600" />
+            Review Today
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {due.length} due · {queue?.scheduled ?? 0} question{queue?.scheduled !== 1 ? 's' : ''} in your review schedule
+          </p>
+        </motion.div>
+
+        {due.length > 0 ? (
+          <div className="space-y-4">
+            {due.map(({ question, state }, index) => (
+              <motion.div
+                key={question.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index * 0.05, 0.5) }}
+              >
+                <Link href={`/question/${question.id}`} className="card-hover p-5 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 group">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${DIFFICULTY_COLORS[question.difficulty]}`}>
+                        {question.difficulty}
+                      </span>
+                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                        {question.title}
+                      </h2>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {question.topics.slice(0, 3).map((topic) => (
+                        <span
+                          key={topic}
+                          className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-md text-xs font-medium"
+                        >
+                          <Tag className="h-3 w-3" />
+                          {topic}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-sm text-right flex-shrink-0">
+                    <p className="font-medium text-gray-900 dark:text-white">{formatDueDate(state.dueAt)}</p>
+                    {state.lastRating && (
+                      <p className="text-gray-500 dark:text-gray-400">
+                        Last: {REVIEW_RATING_LABELS[state.lastRating]} · every {state.intervalDays}d
+                      </p>
+                    )}
+                  </div>
+                </Link>
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <CalendarCheck className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              {queue && queue.scheduled > 0 ? 'All caught up' : 'Nothing scheduled yet'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              {queue?.nextDueAt
+                ? `Next review: ${formatDueDate(queue.nextDueAt)}`
+                : 'Rate your recall on a question page to add it to the review queue'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
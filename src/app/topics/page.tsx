@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { TopicSummary, ApiResponse, DIFFICULTY_COLORS } from '@/lib/types';
+import { ArrowLeft, Loader2, Search, Tag, Tags } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+function questionListHref(topic: string, difficulty?: string): string {
+  const params = new URLSearchParams({ topic });
+  if (difficulty) {
+    params.set('difficulty', difficulty);
+  }
+  return `/?${params.toString()}`;
+}
+
+export default function TopicsPage() {
+  const [topics, setTopics] = useState<TopicSummary[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTopics();
+  }, []);
+
+  const fetchTopics = async () => {
+    try {
+      const response = await fetch('/api/topics');
+      const data: ApiResponse<TopicSummary[]> = await response.json();
+
+      if (data.success && data.data) {
+        setTopics(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch topics');
+      }
+    } catch (error) {
+      console.error('Error fetching topics:', error);
+      toast.error('Failed to load topics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Loading topics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const term = filter.trim().toLowerCase();
+  const visibleTopics = term
+    ? topics.filter((topic) =>
+        topic.name.toLowerCase().includes(term) ||
+        topic.aliases.some((alias) => alias.toLowerCase().includes(term))
+      )
+    : topics;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Link
+            href="/"
+            className="mb-6 text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2 transition-colors w-fit"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Questions
+          </Link>
+
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+                <Tags className="h-8 w-8 text-blue-600" />
+                Topics
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {topics.length} topic{topics.length !== 1 ? 's' : ''} across the library
+              </p>
+            </div>
+            {topics.length > 0 && (
+              <div className="relative sm:w-72">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Filter topics..."
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            )}
+          </div>
+        </motion.div>
+
+        {visibleTopics.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visibleTopics.map((topic, index) => (
+              <motion.div
+                key={topic.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index * 0.05, 0.5) }}
+                className="card p-6"
+              >
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <Link
+                    href={questionListHref(topic.name)}
+                    className="text-lg font-semibold text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-2"
+                  >
+                    <Tag className="h-4 w-4 text-blue-600" />
+                    {topic.name}
+                  </Link>
+                  <span className="text-sm text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {topic.total} question{topic.total !== 1 ? 's' : ''}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {DIFFICULTIES.filter((difficulty) => topic.byDifficulty[difficulty] > 0).map((difficulty) => (
+                    <Link
+                      key={difficulty}
+                      href={questionListHref(topic.name, difficulty)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${DIFFICULTY_COLORS[difficulty]}`}
+                    >
+                      {difficulty}: {topic.byDifficulty[difficulty]}
+                    </Link>
+                  ))}
+                </div>
+
+                {topic.aliases.length > 0 && (
+                  <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                    Also known as: {topic.aliases.join(', ')}
+                  </p>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Tags className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              {topics.length > 0 ? 'No topics match your filter' : 'No topics yet'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              {topics.length > 0 ? 'Try a different name or alias' : 'Generate some questions to build the topic index'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiKey, ApiKeyScope, CreatedApiKey, User, ApiResponse, API_KEY_SCOPES, API_KEY_SCOPE_LABELS } from '@/lib/types';
+import { formatDate } from '@/lib/utils';
+import { KeyRound, Loader2, Plus, Copy, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ApiKeysPanelProps {
+  users: User[];
+  currentUserId: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export default function ApiKeysPanel({ users, currentUserId }: ApiKeysPanelProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['generate', 'export']);
+  const [ownerId, setOwnerId] = useState(currentUserId);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [rateLimit, setRateLimit] = useState('');
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await fetch('/api/api-keys');
+      const data: ApiResponse<ApiKey[]> = await response.json();
+
+      if (data.success && data.data) {
+        setApiKeys(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch API keys');
+      }
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+      toast.error('Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => (prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]));
+  };
+
+  const createApiKey = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          userId: ownerId,
+          // The key stays valid through the whole chosen day
+          ...(expiresOn ? { expiresAt: new Date(`${expiresOn}T23:59:59`).toISOString() } : {}),
+          ...(rateLimit ? { rateLimit: parseInt(rateLimit, 10) } : {}),
+        }),
+      });
+      const data: ApiResponse<CreatedApiKey> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+
+      const { key, ...apiKey } = data.data;
+      setApiKeys(prev => [apiKey, ...prev]);
+      setCreatedKey(key);
+      setName('');
+      setExpiresOn('');
+      setRateLimit('');
+      toast.success('API key created');
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeApiKey = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    setRevoking(apiKey.id);
+    try {
+      const response = await fetch(`/api/api-keys/${encodeURIComponent(apiKey.id)}`, { method: 'DELETE' });
+      const data: ApiResponse<never> = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+
+      setApiKeys(prev => prev.filter(k => k.id !== apiKey.id));
+      toast.success(data.message || 'API key revoked');
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const userNames = new Map(users.map(u => [u.id, u.name]));
+
+  return (
+    <section className="card p-6">
+      <h2 className="text-xl font-semibold mb-2 text-gray-900 dark:text-white flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-blue-600" />
+        API Keys
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Scripts send a key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> and act as the key&apos;s user, limited to its scopes.
+      </p>
+
+      {createdKey && (
+        <div className="mb-6 p-4 rounded-lg bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800">
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <p className="text-sm font-medium text-green-800 dark:text-green-200">
+              Copy this key now. It will not be shown again.
+            </p>
+            <button onClick={() => setCreatedKey(null)} className="text-green-700 dark:text-green-300" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 font-mono text-sm break-all text-gray-900 dark:text-white">{createdKey}</code>
+            <button onClick={copyCreatedKey} className="btn-secondary flex items-center gap-2 text-sm">
+              <Copy className="h-4 w-4" />
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={createApiKey} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label htmlFor="api-key-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+          <input
+            id="api-key-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nightly generation"
+            maxLength={100}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="api-key-owner" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Acts as</label>
+          <select id="api-key-owner" value={ownerId} onChange={(e) => setOwnerId(e.target.value)} className={inputClassName}>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>{u.name} ({u.role})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="api-key-expires" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Expires (optional)</label>
+          <input
+            id="api-key-expires"
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="api-key-rate-limit" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Requests per minute (optional)</label>
+          <input
+            id="api-key-rate-limit"
+            type="number"
+            min={1}
+            max={1000}
+            value={rateLimit}
+            onChange={(e) => setRateLimit(e.target.value)}
+            placeholder="Route default"
+            className={inputClassName}
+          />
+        </div>
+        <div className="md:col-span-2 flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <span>Scopes:</span>
+          {API_KEY_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {API_KEY_SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="btn-primary flex items-center gap-2"
+          >
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Create API key
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      ) : apiKeys.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Name</th>
+                <th className="py-2 pr-4 font-medium">Key</th>
+                <th className="py-2 pr-4 font-medium">Acts as</th>
+                <th className="py-2 pr-4 font-medium">Scopes</th>
+                <th className="py-2 pr-4 font-medium">Limit</th>
+                <th className="py-2 pr-4 font-medium">Expires</th>
+                <th className="py-2 pr-4 font-medium">Last used</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {apiKeys.map((apiKey) => (
+                <tr key={apiKey.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{apiKey.name}</td>
+                  <td className="py-2 pr-4 font-mono">{apiKey.prefix}…</td>
+                  <td className="py-2 pr-4">{userNames.get(apiKey.userId) ?? apiKey.userId}</td>
+                  <td className="py-2 pr-4">{apiKey.scopes.map(scope => API_KEY_SCOPE_LABELS[scope]).join(', ')}</td>
+                  <td className="py-2 pr-4">{apiKey.rateLimit ? `${apiKey.rateLimit}/min` : 'Default'}</td>
+                  <td className="py-2 pr-4">{apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'Never'}</td>
+                  <td className="py-2 pr-4">{apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : 'Never'}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => revokeApiKey(apiKey)}
+                      disabled={revoking !== null}
+                      className="text-gray-500 hover:text-red-600 transition-colors"
+                      aria-label={`Revoke ${apiKey.name}`}
+                    >
+                      {revoking === apiKey.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No API keys yet.</p>
+      )}
+    </section>
+  );
+}
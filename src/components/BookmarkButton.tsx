@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiResponse } from '@/lib/types';
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface BookmarkButtonProps {
+  questionId: string;
+}
+
+export default function BookmarkButton({ questionId }: BookmarkButtonProps) {
+  const [bookmarked, setBookmarked] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const bookmarkUrl = `/api/questions/${encodeURIComponent(questionId)}/bookmark`;
+
+  useEffect(() => {
+    const fetchBookmark = async () => {
+      try {
+        const response = await fetch(bookmarkUrl);
+        const data: ApiResponse<{ bookmarked: boolean }> = await response.json();
+        if (data.success && data.data) {
+          setBookmarked(data.data.bookmarked);
+        }
+      } catch (error) {
+        console.error('Error fetching bookmark:', error);
+      }
+    };
+
+    fetchBookmark();
+  }, [bookmarkUrl]);
+
+  const toggleBookmark = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(bookmarkUrl, { method: bookmarked ? 'DELETE' : 'PUT' });
+      const data: ApiResponse<{ bookmarked: boolean }> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to update bookmark');
+      }
+
+      setBookmarked(data.data.bookmarked);
+      toast.success(data.message || (data.data.bookmarked ? 'Question bookmarked' : 'Bookmark removed'));
+    } catch (error) {
+      console.error('Error updating bookmark:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update bookmark');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={toggleBookmark}
+      disabled={saving}
+      aria-pressed={bookmarked}
+      className="btn-secondary flex items-center gap-2 text-sm"
+    >
+      {bookmarked ? (
+        <>
+          <BookmarkCheck className="h-4 w-4 text-blue-600" />
+          Bookmarked
+        </>
+      ) : (
+        <>
+          <Bookmark className="h-4 w-4" />
+          Bookmark
+        </>
+      )}
+    </button>
+  );
+}
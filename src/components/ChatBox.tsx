@@ -1,59 +1,181 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Question, ChatMessage, ApiResponse } from '@/lib/types';
-import { Send, Bot, User, Loader2, AlertCircle, Trash2 } from 'lucide-react';
+import {
+  QuestionView,
+  ChatMessage,
+  ApiResponse,
+  Conversation,
+  ConversationWithMessages,
+  CodeReviewResult,
+  SUPPORTED_LANGUAGES,
+  LANGUAGE_LABELS,
+  SupportedLanguage,
+} from '@/lib/types';
+import { Send, Bot, User, Loader2, AlertCircle, Trash2, Square, Plus, Pencil, ClipboardCheck } from 'lucide-react';
+import ReviewCard from '@/components/ReviewCard';
+import { practiceDraftKey } from '@/components/PracticeEditor';
 import { formatDate } from '@/lib/utils';
+import { readSSE } from '@/lib/sse';
 import toast from 'react-hot-toast';
 
 interface ChatBoxProps {
-  question: Question;
+  question: QuestionView;
 }
 
 interface ChatState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
   messages: ChatMessage[];
   input: string;
   isLoading: boolean;
+  streamingContent: string;
   error: string | null;
+  reviewOpen: boolean;
+  reviewCode: string;
+  reviewLanguage: SupportedLanguage;
 }
 
 export default function ChatBox({ question }: ChatBoxProps) {
   const [state, setState] = useState<ChatState>({
+    conversations: [],
+    activeConversationId: null,
     messages: [],
     input: '',
     isLoading: false,
+    streamingContent: '',
     error: null,
+    reviewOpen: false,
+    reviewCode: '',
+    reviewLanguage: 'python',
   });
 
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     scrollToBottom();
-  }, [state.messages]);
+  }, [state.messages, state.streamingContent]);
 
+  // Abort any in-flight response when leaving the question
   useEffect(() => {
-    // Load chat history from localStorage
-    const savedMessages = localStorage.getItem(`chat_${question.id}`);
-    if (savedMessages) {
-      try {
-        const messages = JSON.parse(savedMessages);
-        setState(prev => ({ ...prev, messages }));
-      } catch (error) {
-        console.error('Failed to load chat history:', error);
-      }
-    }
+    return () => abortControllerRef.current?.abort();
+  }, [question.id]);
+
+  useEffect(() => {
+    loadConversations();
   }, [question.id]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const saveChatHistory = (messages: ChatMessage[]) => {
+  // One-time import of chat history saved by earlier versions in localStorage
+  const importLocalHistory = async () => {
+    const storageKey = `chat_${question.id}`;
+    const savedMessages = localStorage.getItem(storageKey);
+    if (!savedMessages) return;
+
+    try {
+      const messages: ChatMessage[] = JSON.parse(savedMessages);
+      if (Array.isArray(messages) && messages.length > 0) {
+        const response = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            questionId: question.id,
+            title: 'Imported chat',
+            messages: messages.slice(-50).map(({ role, content }) => ({ role, content })),
+          }),
+        });
+        const data: ApiResponse<ConversationWithMessages> = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to import chat history');
+        }
+      }
+      localStorage.removeItem(storageKey);
+    } catch (error) {
+      console.error('Failed to import chat history:', error);
+    }
+  };
+
+  const loadConversations = async () => {
+    try {
+      await importLocalHistory();
+
+      const response = await fetch(`/api/conversations?questionId=${encodeURIComponent(question.id)}`);
+      const data: ApiResponse<Conversation[]> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load conversations');
+      }
+
+      const conversations = data.data;
+      setState(prev => ({ ...prev, conversations, activeConversationId: null, messages: [] }));
+
+      const latest = conversations[0];
+      if (latest) {
+        await selectConversation(latest.id);
+      }
+    } catch (error) {
+      console.error('Failed to load chat history:', error);
+      setState(prev => ({ ...prev, error: 'Failed to load chat history' }));
+    }
+  };
+
+  const selectConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`);
+      const data: ApiResponse<ConversationWithMessages> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load conversation');
+      }
+
+      const conversation = data.data;
+      setState(prev => ({
+        ...prev,
+        activeConversationId: conversation.id,
+        messages: conversation.messages,
+        error: null,
+      }));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      toast.error('Failed to load conversation');
+    }
+  };
+
+  const createConversation = async (): Promise<Conversation> => {
+    const response = await fetch('/api/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ questionId: question.id }),
+    });
+    const data: ApiResponse<ConversationWithMessages> = await response.json();
+
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to create conversation');
+    }
+
+    const conversation: Conversation = data.data;
+    setState(prev => ({
+      ...prev,
+      conversations: [conversation, ...prev.conversations],
+      activeConversationId: conversation.id,
+    }));
+    return conversation;
+  };
+
+  const refreshConversationList = async () => {
     try {
-      localStorage.setItem(`chat_${question.id}`, JSON.stringify(messages));
+      const response = await fetch(`/api/conversations?questionId=${encodeURIComponent(question.id)}`);
+      const data: ApiResponse<Conversation[]> = await response.json();
+      if (data.success && data.data) {
+        setState(prev => ({ ...prev, conversations: data.data || [] }));
+      }
     } catch (error) {
-      console.error('Failed to save chat history:', error);
+      console.error('Failed to refresh conversations:', error);
     }
   };
 
@@ -82,41 +204,79 @@ export default function ChatBox({ question }: ChatBoxProps) {
       error: null,
     }));
 
-    saveChatHistory(newMessages);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let streamedContent = '';
+
+    let savedMessage: ChatMessage | undefined;
+
+    const finishWithAssistantMessage = (content: string) => {
+      const assistantMessage: ChatMessage = savedMessage ?? {
+        id: `msg_${Date.now()}_assistant`,
+        role: 'assistant',
+        content,
+        timestamp: new Date().toISOString(),
+      };
+
+      setState(prev => ({
+        ...prev,
+        messages: [...newMessages, assistantMessage],
+        isLoading: false,
+        streamingContent: '',
+      }));
+      refreshConversationList();
+    };
 
     try {
+      // Threads are created lazily on the first message
+      const conversationId = state.activeConversationId ?? (await createConversation()).id;
+
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           questionId: question.id,
+          conversationId,
           message: trimmedInput,
-          chatHistory: state.messages.slice(-10), // Send last 10 messages for context
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
-      const data: ApiResponse<{ response: string }> = await response.json();
-
-      if (data.success && data.data) {
-        const assistantMessage: ChatMessage = {
-          id: `msg_${Date.now()}_assistant`,
-          role: 'assistant',
-          content: data.data.response,
-          timestamp: new Date().toISOString(),
-        };
-
-        const updatedMessages = [...newMessages, assistantMessage];
-        setState(prev => ({
-          ...prev,
-          messages: updatedMessages,
-          isLoading: false,
-        }));
-
-        saveChatHistory(updatedMessages);
-      } else {
+      if (!response.ok || !response.body) {
+        const data: ApiResponse = await response.json();
         throw new Error(data.error || 'Failed to get response');
       }
+
+      for await (const { event, data } of readSSE(response.body)) {
+        if (event === 'token') {
+          streamedContent += (data as { text: string }).text;
+          setState(prev => ({ ...prev, streamingContent: streamedContent }));
+        } else if (event === 'done') {
+          const done = data as { response: string; message?: ChatMessage };
+          streamedContent = done.response;
+          savedMessage = done.message;
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error || 'Failed to get response');
+        }
+      }
+
+      if (!streamedContent.trim()) {
+        throw new Error('Empty response from AI service');
+      }
+
+      finishWithAssistantMessage(streamedContent.trim());
     } catch (error) {
+      // Stopped by the user: keep whatever was generated so far
+      if (abortController.signal.aborted) {
+        if (streamedContent.trim()) {
+          finishWithAssistantMessage(streamedContent.trim());
+        } else {
+          setState(prev => ({ ...prev, isLoading: false, streamingContent: '' }));
+        }
+        return;
+      }
+
       console.error('Error sending message:', error);
       
       const errorMessage: ChatMessage = {
@@ -131,13 +291,77 @@ export default function ChatBox({ question }: ChatBoxProps) {
         ...prev,
         messages: updatedMessages,
         isLoading: false,
+        streamingContent: '',
         error: 'Failed to send message',
       }));
 
       toast.error('Failed to send message. Please try again.');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  // Start from the practice editor's draft so the user rarely has to paste anything
+  const openReview = () => {
+    setState(prev => ({
+      ...prev,
+      reviewOpen: true,
+      reviewCode: prev.reviewCode || localStorage.getItem(practiceDraftKey(question.id, prev.reviewLanguage)) || '',
+    }));
+  };
+
+  const changeReviewLanguage = (reviewLanguage: SupportedLanguage) => {
+    setState(prev => ({
+      ...prev,
+      reviewLanguage,
+      reviewCode: localStorage.getItem(practiceDraftKey(question.id, reviewLanguage)) || prev.reviewCode,
+    }));
+  };
+
+  const requestReview = async () => {
+    const code = state.reviewCode.trim();
+    if (!code || state.isLoading) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(question.id)}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code,
+          language: state.reviewLanguage,
+          ...(state.activeConversationId ? { conversationId: state.activeConversationId } : {}),
+        }),
+      });
+      const data: ApiResponse<CodeReviewResult> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to review code');
+      }
+
+      const { conversationId, messages } = data.data;
+      setState(prev => ({
+        ...prev,
+        activeConversationId: conversationId,
+        messages: prev.activeConversationId === conversationId ? [...prev.messages, ...messages] : messages,
+        isLoading: false,
+        reviewOpen: false,
+      }));
+      refreshConversationList();
+    } catch (error) {
+      console.error('Error requesting code review:', error);
+      setState(prev => ({ ...prev, isLoading: false }));
+      toast.error(error instanceof Error ? error.message : 'Failed to review code');
     }
   };
 
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -145,10 +369,65 @@ export default function ChatBox({ question }: ChatBoxProps) {
     }
   };
 
-  const clearChat = () => {
-    setState(prev => ({ ...prev, messages: [] }));
-    localStorage.removeItem(`chat_${question.id}`);
-    toast.success('Chat history cleared');
+  const startNewConversation = () => {
+    setState(prev => ({ ...prev, activeConversationId: null, messages: [], error: null }));
+    inputRef.current?.focus();
+  };
+
+  const renameActiveConversation = async () => {
+    const active = state.conversations.find(c => c.id === state.activeConversationId);
+    if (!active) return;
+
+    const title = window.prompt('Rename conversation', active.title)?.trim();
+    if (!title || title === active.title) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(active.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      const data: ApiResponse<ConversationWithMessages> = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to rename conversation');
+      }
+      await refreshConversationList();
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+      toast.error('Failed to rename conversation');
+    }
+  };
+
+  const deleteActiveConversation = async () => {
+    const activeId = state.activeConversationId;
+    if (!activeId || !window.confirm('Delete this conversation?')) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(activeId)}`, { method: 'DELETE' });
+      const data: ApiResponse = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete conversation');
+      }
+
+      const remaining = state.conversations.filter(c => c.id !== activeId);
+      setState(prev => ({ ...prev, conversations: remaining, activeConversationId: null, messages: [] }));
+      const next = remaining[0];
+      if (next) {
+        await selectConversation(next.id);
+      }
+      toast.success('Conversation deleted');
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      toast.error('Failed to delete conversation');
+    }
+  };
+
+  const handleConversationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value) {
+      selectConversation(e.target.value);
+    } else {
+      startNewConversation();
+    }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -163,20 +442,125 @@ export default function ChatBox({ question }: ChatBoxProps) {
           <Bot className="h-5 w-5 text-blue-600" />
           AI Assistant
         </h3>
-        {state.messages.length > 0 && (
+        <div className="flex items-center gap-1">
           <button
-            onClick={clearChat}
-            className="p-1 text-gray-500 hover:text-red-500 transition-colors"
-            title="Clear chat history"
-            aria-label="Clear chat history"
+            onClick={() => (state.reviewOpen ? setState(prev => ({ ...prev, reviewOpen: false })) : openReview())}
+            disabled={state.isLoading}
+            className={`p-1 transition-colors ${state.reviewOpen ? 'text-blue-600' : 'text-gray-500 hover:text-blue-600'}`}
+            title="Review my code"
+            aria-label="Review my code"
+            aria-pressed={state.reviewOpen}
           >
-            <Trash2 className="h-4 w-4" />
+            <ClipboardCheck className="h-4 w-4" />
           </button>
-        )}
+          <button
+            onClick={startNewConversation}
+            disabled={state.isLoading}
+            className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+            title="New conversation"
+            aria-label="New conversation"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          {state.activeConversationId && (
+            <>
+              <button
+                onClick={renameActiveConversation}
+                disabled={state.isLoading}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                title="Rename conversation"
+                aria-label="Rename conversation"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={deleteActiveConversation}
+                disabled={state.isLoading}
+                className="p-1 text-gray-500 hover:text-red-500 transition-colors"
+                title="Delete conversation"
+                aria-label="Delete conversation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
+      {/* Conversation threads */}
+      {state.conversations.length > 0 && (
+        <select
+          value={state.activeConversationId ?? ''}
+          onChange={handleConversationChange}
+          disabled={state.isLoading}
+          className="mb-3 w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+          aria-label="Conversation"
+        >
+          <option value="">New conversation</option>
+          {state.conversations.map(conversation => (
+            <option key={conversation.id} value={conversation.id}>
+              {conversation.title} ({conversation.messageCount})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Code review request */}
+      {state.reviewOpen && (
+        <div className="flex-1 flex flex-col gap-2 min-h-0">
+          <select
+            value={state.reviewLanguage}
+            onChange={(e) => changeReviewLanguage(e.target.value as SupportedLanguage)}
+            disabled={state.isLoading}
+            className="w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            aria-label="Code language"
+          >
+            {SUPPORTED_LANGUAGES.map(language => (
+              <option key={language} value={language}>
+                {LANGUAGE_LABELS[language]}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={state.reviewCode}
+            onChange={(e) => setState(prev => ({ ...prev, reviewCode: e.target.value }))}
+            placeholder="Paste your solution to get feedback on correctness, complexity, style and edge cases"
+            disabled={state.isLoading}
+            spellCheck={false}
+            maxLength={10000}
+            className="flex-1 min-h-0 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-xs font-mono resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setState(prev => ({ ...prev, reviewOpen: false }))}
+              disabled={state.isLoading}
+              className="btn-secondary px-3 py-1.5 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={requestReview}
+              disabled={state.isLoading || !state.reviewCode.trim()}
+              className="btn-primary px-3 py-1.5 text-sm flex items-center gap-2"
+            >
+              {state.isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Reviewing...
+                </>
+              ) : (
+                <>
+                  <ClipboardCheck className="h-4 w-4" />
+                  Review
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto mb-4 space-y-3 scrollbar-thin">
+      <div className={`flex-1 overflow-y-auto mb-4 space-y-3 scrollbar-thin ${state.reviewOpen ? 'hidden' : ''}`}>
         {state.messages.length === 0 && (
           <div className="text-center py-8">
             <Bot className="h-12 w-12 text-gray-400 mx-auto mb-3" />
@@ -212,36 +596,48 @@ export default function ChatBox({ question }: ChatBoxProps) {
 
             {/* Message */}
             <div className={`flex-1 max-w-[80%] ${message.role === 'user' ? 'text-right' : 'text-left'}`}>
-              <div className={`inline-block p-3 rounded-lg text-sm ${
-                message.role === 'user'
-                  ? 'bg-blue-600 text-white rounded-br-sm'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-bl-sm'
-              }`}>
-                <p className="whitespace-pre-wrap break-words">{message.content}</p>
-              </div>
+              {message.review ? (
+                <ReviewCard review={message.review} />
+              ) : (
+                <div className={`inline-block p-3 rounded-lg text-sm ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white rounded-br-sm'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-bl-sm'
+                }`}>
+                  <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                </div>
+              )}
               <div className={`text-xs text-gray-500 dark:text-gray-400 mt-1 ${
                 message.role === 'user' ? 'text-right' : 'text-left'
               }`}>
                 {formatDate(message.timestamp)}
+                {message.imported && ' · Imported'}
               </div>
             </div>
           </div>
         ))}
 
-        {/* Loading message */}
+        {/* Streaming / loading message */}
         {state.isLoading && (
           <div className="flex gap-3">
             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
               <Bot className="h-4 w-4 text-gray-600 dark:text-gray-300" />
             </div>
-            <div className="flex-1">
+            <div className="flex-1 max-w-[80%]">
               <div className="inline-block p-3 bg-gray-100 dark:bg-gray-700 rounded-lg rounded-bl-sm">
-                <div className="flex items-center space-x-2">
-                  <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
-                  <span className="text-sm text-gray-600 dark:text-gray-300">
-                    Thinking...
-                  </span>
-                </div>
+                {state.streamingContent ? (
+                  <p className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words">
+                    {state.streamingContent}
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-blue-600 animate-pulse" />
+                  </p>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      Thinking...
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -259,7 +655,7 @@ export default function ChatBox({ question }: ChatBoxProps) {
       )}
 
       {/* Input */}
-      <div className="flex gap-2">
+      <div className={`flex gap-2 ${state.reviewOpen ? 'hidden' : ''}`}>
         <input
           ref={inputRef}
           type="text"
@@ -271,18 +667,25 @@ export default function ChatBox({ question }: ChatBoxProps) {
           disabled={state.isLoading}
           maxLength={1000}
         />
-        <button
-          onClick={sendMessage}
-          disabled={!state.input.trim() || state.isLoading}
-          className="btn-primary px-3 py-2 min-w-[44px] flex items-center justify-center"
-          aria-label="Send message"
-        >
-          {state.isLoading ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
+        {state.isLoading ? (
+          <button
+            onClick={stopGeneration}
+            className="btn-secondary px-3 py-2 min-w-[44px] flex items-center justify-center"
+            aria-label="Stop generating"
+            title="Stop generating"
+          >
+            <Square className="h-4 w-4" />
+          </button>
+        ) : (
+          <button
+            onClick={sendMessage}
+            disabled={!state.input.trim()}
+            className="btn-primary px-3 py-2 min-w-[44px] flex items-center justify-center"
+            aria-label="Send message"
+          >
             <Send className="h-4 w-4" />
-          )}
-        </button>
+          </button>
+        )}
       </div>
 
       {/* Character count */}
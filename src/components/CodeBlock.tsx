@@ -8,6 +8,7 @@ import Prism from 'prismjs';
 import 'prismjs/components/prism-python';
 import 'prismjs/components/prism-javascript';
 import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-c'; // prism-cpp extends the C grammar
 import 'prismjs/components/prism-cpp';
 
 interface CodeBlockProps {
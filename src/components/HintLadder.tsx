@@ -0,0 +1,73 @@
+'use client';
+
+import { HintProgress } from '@/lib/types';
+import { Lightbulb, Loader2, Eye, Unlock } from 'lucide-react';
+
+interface HintLadderProps {
+  progress: HintProgress;
+  revealing: boolean;
+  onNextHint: () => void;
+  onUnlockSolution: () => void;
+}
+
+export default function HintLadder({ progress, revealing, onNextHint, onUnlockSolution }: HintLadderProps) {
+  const remaining = progress.total - progress.revealed.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-1" aria-label={`${progress.revealed.length} of ${progress.total} hints revealed`}>
+        {Array.from({ length: progress.total }, (_, index) => (
+          <div
+            key={index}
+            className={`h-1.5 flex-1 rounded-full ${
+              index < progress.revealed.length ? 'bg-yellow-400' : 'bg-gray-200 dark:bg-gray-700'
+            }`}
+          />
+        ))}
+      </div>
+
+      {progress.revealed.length > 0 ? (
+        <ol className="space-y-3">
+          {progress.revealed.map((hint, index) => (
+            <li key={index} className="flex gap-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3">
+              <span className="flex-shrink-0 w-6 h-6 bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-200 rounded-full flex items-center justify-center font-semibold text-xs">
+                {index + 1}
+              </span>
+              <p className="text-gray-700 dark:text-gray-300 leading-relaxed">{hint}</p>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Stuck? Hints start with a gentle nudge and get more explicit each time.
+        </p>
+      )}
+
+      {progress.solutionUnlocked ? (
+        <p className="text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+          <Unlock className="h-4 w-4" />
+          Solution and explanation unlocked
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={onNextHint}
+            disabled={revealing || remaining === 0}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            {revealing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lightbulb className="h-4 w-4" />}
+            Show next hint ({remaining} left)
+          </button>
+          <button
+            onClick={onUnlockSolution}
+            disabled={revealing}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:underline flex items-center gap-1"
+          >
+            <Eye className="h-4 w-4" />
+            Skip to the solution
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
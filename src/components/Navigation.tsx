@@ -1,10 +1,10 @@
 import Link from 'next/link';
-import { Question } from '@/lib/types';
+import { QuestionNavigation } from '@/lib/types';
 import { ChevronLeft, ChevronRight, Home, List } from 'lucide-react';
 
 interface NavigationProps {
-  prevQuestion: Question | null;
-  nextQuestion: Question | null;
+  prevQuestion: QuestionNavigation['previous'];
+  nextQuestion: QuestionNavigation['next'];
   currentIndex?: number | undefined;
   totalQuestions?: number;
 }
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { QuestionView, Submission, ApiResponse, SUPPORTED_LANGUAGES, LANGUAGE_LABELS, SupportedLanguage } from '@/lib/types';
+import { formatDate, getPythonStarterCode } from '@/lib/utils';
+import RunResults, { STATUS_STYLES } from '@/components/RunResults';
+import { Send, Loader2, RotateCcw, History, PenLine } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-c'; // prism-cpp extends the C grammar
+import 'prismjs/components/prism-cpp';
+
+interface PracticeEditorProps {
+  question: QuestionView;
+}
+
+// The textarea and the highlighted layer must share metrics so the caret lines up with the text
+const EDITOR_STYLE: React.CSSProperties = {
+  fontFamily: "Consolas, Monaco, 'Andale Mono', 'Ubuntu Mono', monospace",
+  fontSize: '0.875rem',
+  lineHeight: '1.5',
+  padding: '1rem',
+  margin: 0,
+  whiteSpace: 'pre',
+  tabSize: 4,
+};
+
+const INDENT = '    ';
+
+// Drafts are kept per question and language; the chat tutor offers them for code review
+export function practiceDraftKey(questionId: string, language: SupportedLanguage): string {
+  return `practice_${questionId}_${language}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// While the solution is locked the server sends the starter instead of the reference solution
+function getStarterCode(question: QuestionView, language: SupportedLanguage): string {
+  if (language !== 'python') {
+    return `// Write your ${LANGUAGE_LABELS[language]} solution here\n`;
+  }
+
+  return question.solution_python !== undefined
+    ? getPythonStarterCode(question.solution_python)
+    : question.starter_python ?? '# Write your solution here\n';
+}
+
+export default function PracticeEditor({ question }: PracticeEditorProps) {
+  const [language, setLanguage] = useState<SupportedLanguage>('python');
+  const [code, setCode] = useState('');
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [selectedSubmission, setSelectedSubmission] = useState<Submission | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  // Restore the saved draft when switching question or language
+  useEffect(() => {
+    const draft = localStorage.getItem(practiceDraftKey(question.id, language));
+    setCode(draft ?? getStarterCode(question, language));
+  }, [question.id, language]);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [question.id]);
+
+  const highlighted = useMemo(() => {
+    const grammar = Prism.languages[language];
+    // A trailing newline keeps the last empty line visible in the highlighted layer
+    return grammar ? Prism.highlight(`${code}\n`, grammar, language) : escapeHtml(`${code}\n`);
+  }, [code, language]);
+
+  const loadSubmissions = async () => {
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(question.id)}/submissions`);
+      const data: ApiResponse<Submission[]> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load submissions');
+      }
+
+      setSubmissions(data.data);
+    } catch (error) {
+      console.error('Failed to load submissions:', error);
+    }
+  };
+
+  const updateCode = (value: string) => {
+    setCode(value);
+    localStorage.setItem(practiceDraftKey(question.id, language), value);
+  };
+
+  const resetCode = () => {
+    localStorage.removeItem(practiceDraftKey(question.id, language));
+    setCode(getStarterCode(question, language));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab') return;
+
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    updateCode(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  const syncScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+    }
+  };
+
+  const submit = async () => {
+    if (!code.trim()) {
+      toast.error('Write some code first');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(question.id)}/submissions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language, code }),
+      });
+      const data: ApiResponse<Submission> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to submit solution');
+      }
+
+      const submission = data.data;
+      setSubmissions(prev => [submission, ...prev]);
+      setSelectedSubmission(submission);
+
+      if (submission.status === 'passed') {
+        toast.success(data.message || 'All test cases passed');
+      } else if (submission.status === 'unchecked') {
+        toast(data.message || 'Submission saved');
+      } else {
+        toast.error(data.message || 'Some test cases did not pass');
+      }
+    } catch (error) {
+      console.error('Error submitting solution:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit solution');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const loadSubmission = (submission: Submission) => {
+    setSelectedSubmission(submission);
+    // Saving it as the draft lets the language effect pick it up when the language changes
+    localStorage.setItem(practiceDraftKey(question.id, submission.language), submission.code);
+    if (submission.language === language) {
+      setCode(submission.code);
+    } else {
+      setLanguage(submission.language);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as SupportedLanguage)}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          aria-label="Practice language"
+        >
+          {SUPPORTED_LANGUAGES.map((option) => (
+            <option key={option} value={option}>
+              {LANGUAGE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={resetCode}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </button>
+          <button
+            onClick={submit}
+            disabled={submitting}
+            className="btn-primary flex items-center gap-2 text-sm"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4" />
+                Submit
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative h-80 rounded-lg overflow-hidden bg-[#2d2d2d]">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`language-${language} absolute inset-0 overflow-hidden pointer-events-none`}
+          style={{ ...EDITOR_STYLE, borderRadius: 0 }}
+        >
+          <code
+            className={`language-${language}`}
+            dangerouslySetInnerHTML={{ __html: highlighted }}
+          />
+        </pre>
+        <textarea
+          value={code}
+          onChange={(e) => updateCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          aria-label={`${LANGUAGE_LABELS[language]} solution`}
+          className="absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-white outline-none overflow-auto"
+          style={EDITOR_STYLE}
+        />
+      </div>
+
+      {language !== 'python' && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {LANGUAGE_LABELS[language]} submissions are saved but only Python can be checked against the test cases.
+        </p>
+      )}
+
+      {selectedSubmission?.result && <RunResults result={selectedSubmission.result} />}
+
+      {submissions.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+            <History className="h-4 w-4 text-gray-500" />
+            Your submissions
+          </h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {submissions.map((submission) => (
+              <li key={submission.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_STYLES[submission.status].className}`}>
+                    {STATUS_STYLES[submission.status].label}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {LANGUAGE_LABELS[submission.language]}
+                    {submission.total > 0 && ` · ${submission.passed}/${submission.total} passed`}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 truncate">
+                    {formatDate(submission.created_at)}
+                  </span>
+                </div>
+                <button
+                  onClick={() => loadSubmission(submission)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1 flex-shrink-0"
+                >
+                  <PenLine className="h-3 w-3" />
+                  Load
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import Link from 'next/link';
-import { Question, DIFFICULTY_COLORS } from '@/lib/types';
+import { Question, SearchMatch, DIFFICULTY_COLORS } from '@/lib/types';
 import { formatDate } from '@/lib/utils';
 import { Calendar, Clock, Tag } from 'lucide-react';
 
 interface QuestionCardProps {
   question: Question;
+  match?: SearchMatch | undefined;
 }
 
-export default function QuestionCard({ question }: QuestionCardProps) {
+export default function QuestionCard({ question, match }: QuestionCardProps) {
   if (!question) {
     return null;
   }
@@ -33,9 +34,19 @@ export default function QuestionCard({ question }: QuestionCardProps) {
           {question.title}
         </h3>
 
-        {/* Description */}
+        {/* Description, or the matching excerpt when shown as a search result */}
         <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-3 leading-relaxed">
-          {question.description}
+          {match && match.snippet.length > 0
+            ? match.snippet.map((segment, index) =>
+                segment.highlight ? (
+                  <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded px-0.5">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )
+            : question.description}
         </p>
 
         {/* Topics */}
@@ -0,0 +1,142 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Question } from '@/lib/types';
+import { BookOpen, Code, Lightbulb, Target, CheckCircle, Lock } from 'lucide-react';
+
+// Content sections shared by the question page and the editor preview
+
+interface SectionProps {
+  delay?: number;
+}
+
+export function QuestionDescription({ description, delay = 0.1 }: SectionProps & { description: string }) {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="card p-6"
+    >
+      <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <BookOpen className="h-6 w-6 text-blue-600" />
+        Problem Description
+      </h2>
+      <div className="prose dark:prose-invert max-w-none">
+        <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
+          {description}
+        </p>
+      </div>
+    </motion.section>
+  );
+}
+
+export function QuestionExample({ example, delay = 0.2 }: SectionProps & { example: Question['example'] }) {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="card p-6"
+    >
+      <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <Target className="h-6 w-6 text-green-600" />
+        Example
+      </h2>
+      <div className="space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            Input:
+          </h3>
+          <code className="block bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-sm font-mono">
+            {example.input}
+          </code>
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-blue-500" />
+            Output:
+          </h3>
+          <code className="block bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-sm font-mono">
+            {example.output}
+          </code>
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+            <Lightbulb className="h-4 w-4 text-yellow-500" />
+            Explanation:
+          </h3>
+          <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+            {example.explanation}
+          </p>
+        </div>
+      </div>
+    </motion.section>
+  );
+}
+
+export function StepByStepExplanation({ steps, locked = false, delay = 0.4 }: SectionProps & { steps: string[]; locked?: boolean }) {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="card p-6"
+    >
+      <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <Lightbulb className="h-6 w-6 text-yellow-500" />
+        Step-by-Step Explanation
+      </h2>
+      {locked ? (
+        <p className="text-gray-500 dark:text-gray-400 flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Unlocks together with the solution.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {steps.map((step, index) => (
+            <div key={index} className="flex gap-4">
+              <div className="flex-shrink-0 w-8 h-8 bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300 rounded-full flex items-center justify-center font-semibold text-sm">
+                {index + 1}
+              </div>
+              <div className="flex-1 pt-1">
+                <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                  {step}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.section>
+  );
+}
+
+export function QuestionPseudocode({ lines, delay = 0.5 }: SectionProps & { lines: string[] }) {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="card p-6"
+    >
+      <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <Code className="h-6 w-6 text-gray-600" />
+        Pseudocode
+      </h2>
+      <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg font-mono text-sm">
+        {lines.map((line, index) => (
+          <div key={index} className="flex gap-4">
+            <span className="text-gray-400 w-6 text-right">
+              {index + 1}
+            </span>
+            <span className="text-gray-700 dark:text-gray-300">
+              {line}
+            </span>
+          </div>
+        ))}
+      </div>
+    </motion.section>
+  );
+}
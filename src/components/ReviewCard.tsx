@@ -0,0 +1,100 @@
+'use client';
+
+import { CodeReview } from '@/lib/types';
+import { ClipboardCheck, AlertTriangle, Gauge, Sparkles, Bug, Lightbulb } from 'lucide-react';
+
+interface ReviewCardProps {
+  review: CodeReview;
+}
+
+const VERDICT_STYLES: Record<CodeReview['verdict'], { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  partially_correct: { label: 'Partially correct', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  incorrect: { label: 'Incorrect', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+};
+
+function ReviewList({ title, icon, items }: { title: string; icon: React.ReactNode; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium text-gray-900 dark:text-white flex items-center gap-1.5 mb-1">
+        {icon}
+        {title}
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5 text-gray-700 dark:text-gray-300">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Structured code review shown in place of a plain chat bubble
+export default function ReviewCard({ review }: ReviewCardProps) {
+  const verdict = VERDICT_STYLES[review.verdict];
+
+  return (
+    <div className="p-3 rounded-lg rounded-bl-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm space-y-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <ClipboardCheck className="h-4 w-4 text-blue-600" />
+        <span className="font-semibold text-gray-900 dark:text-white">Code review</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${verdict.className}`}>
+          {verdict.label}
+        </span>
+        {review.tests && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {review.tests.passed}/{review.tests.total} tests passed
+          </span>
+        )}
+      </div>
+
+      <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{review.summary}</p>
+
+      <ReviewList
+        title="Correctness"
+        icon={<AlertTriangle className="h-3.5 w-3.5 text-red-500" />}
+        items={review.correctness}
+      />
+
+      <div>
+        <p className="font-medium text-gray-900 dark:text-white flex items-center gap-1.5 mb-1">
+          <Gauge className="h-3.5 w-3.5 text-purple-600" />
+          Complexity
+        </p>
+        <p className="text-gray-700 dark:text-gray-300">
+          Time <code className="font-mono">{review.complexity.time}</code>, space <code className="font-mono">{review.complexity.space}</code>
+          {review.complexity.notes && ` — ${review.complexity.notes}`}
+        </p>
+      </div>
+
+      {review.edgeCases.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white flex items-center gap-1.5 mb-1">
+            <Bug className="h-3.5 w-3.5 text-orange-500" />
+            Failing edge cases
+          </p>
+          <ul className="space-y-1">
+            {review.edgeCases.map((edgeCase, index) => (
+              <li key={index} className="text-gray-700 dark:text-gray-300">
+                <code className="font-mono text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">{edgeCase.case}</code>
+                {' '}{edgeCase.issue}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ReviewList
+        title="Style"
+        icon={<Sparkles className="h-3.5 w-3.5 text-blue-500" />}
+        items={review.style}
+      />
+      <ReviewList
+        title="Suggestions"
+        icon={<Lightbulb className="h-3.5 w-3.5 text-yellow-500" />}
+        items={review.suggestions}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ReviewState, ReviewRating, ApiResponse, REVIEW_RATINGS, REVIEW_RATING_LABELS } from '@/lib/types';
+import { scheduleReview } from '@/lib/scheduler';
+import { formatDate, formatDueDate } from '@/lib/utils';
+import { CalendarClock, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ReviewSchedulePanelProps {
+  questionId: string;
+}
+
+const RATING_STYLES: Record<ReviewRating, string> = {
+  again: 'border-red-300 text-red-700 hover:bg-red-50 dark:border-red-800 dark:text-red-300 dark:hover:bg-red-900/30',
+  hard: 'border-orange-300 text-orange-700 hover:bg-orange-50 dark:border-orange-800 dark:text-orange-300 dark:hover:bg-orange-900/30',
+  good: 'border-green-300 text-green-700 hover:bg-green-50 dark:border-green-800 dark:text-green-300 dark:hover:bg-green-900/30',
+  easy: 'border-blue-300 text-blue-700 hover:bg-blue-50 dark:border-blue-800 dark:text-blue-300 dark:hover:bg-blue-900/30',
+};
+
+export default function ReviewSchedulePanel({ questionId }: ReviewSchedulePanelProps) {
+  const [state, setState] = useState<ReviewState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<ReviewRating | 'remove' | null>(null);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [questionId]);
+
+  const scheduleUrl = `/api/questions/${encodeURIComponent(questionId)}/schedule`;
+
+  const fetchSchedule = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(scheduleUrl);
+      const data: ApiResponse<ReviewState | null> = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load review schedule');
+      }
+
+      setState(data.data ?? null);
+    } catch (error) {
+      console.error('Error fetching review schedule:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rate = async (rating: ReviewRating) => {
+    setSaving(rating);
+    try {
+      const response = await fetch(scheduleUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating }),
+      });
+      const data: ApiResponse<ReviewState> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to save rating');
+      }
+
+      setState(data.data);
+      toast.success(data.message || 'Review scheduled');
+    } catch (error) {
+      console.error('Error saving rating:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save rating');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const removeSchedule = async () => {
+    setSaving('remove');
+    try {
+      const response = await fetch(scheduleUrl, { method: 'DELETE' });
+      const data: ApiResponse<never> = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove from review queue');
+      }
+
+      setState(null);
+      toast.success(data.message || 'Removed from the review queue');
+    } catch (error) {
+      console.error('Error removing review schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove from review queue');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-blue-600" />
+        Review Schedule
+      </h2>
+
+      {loading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      ) : (
+        <>
+          {state ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400 mb-4 space-y-1">
+              <p>
+                Next review: <span className="font-medium text-gray-900 dark:text-white">{formatDueDate(state.dueAt)}</span>
+              </p>
+              {state.lastReviewedAt && state.lastRating && (
+                <p>
+                  Last rated {REVIEW_RATING_LABELS[state.lastRating]} on {formatDate(state.lastReviewedAt)}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              How well did you recall this one? Rating it adds it to your review queue.
+            </p>
+          )}
+
+          <div className="grid grid-cols-4 gap-2">
+            {REVIEW_RATINGS.map((rating) => {
+              // Preview the interval each rating would give so the choice is informed
+              const intervalDays = scheduleReview(state, rating).intervalDays;
+              return (
+                <button
+                  key={rating}
+                  onClick={() => rate(rating)}
+                  disabled={saving !== null}
+                  className={`px-2 py-2 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 ${RATING_STYLES[rating]}`}
+                >
+                  {saving === rating ? (
+                    <Loader2 className="h-4 w-4 animate-spin mx-auto" />
+                  ) : (
+                    <>
+                      <span className="block">{REVIEW_RATING_LABELS[rating]}</span>
+                      <span className="block text-xs opacity-75">{intervalDays}d</span>
+                    </>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {state && (
+            <button
+              onClick={removeSchedule}
+              disabled={saving !== null}
+              className="mt-3 text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 flex items-center gap-1"
+            >
+              <X className="h-3 w-3" />
+              Remove from review queue
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
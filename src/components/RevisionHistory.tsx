@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Question,
+  QuestionRevision,
+  RevisionDiff,
+  RevisionFieldChange,
+  ApiResponse,
+  REVISION_SOURCE_LABELS,
+  QUESTION_CONTENT_FIELD_LABELS,
+} from '@/lib/types';
+import { formatDate } from '@/lib/utils';
+import { History, Loader2, RotateCcw, GitCompare, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface RevisionHistoryProps {
+  questionId: string;
+  onRestored: (question: Question) => void;
+}
+
+function formatValue(value: RevisionFieldChange['before']): string {
+  if (value === null) return '(none)';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join('\n');
+  return `Input: ${value.input}\nOutput: ${value.output}\nExplanation: ${value.explanation}`;
+}
+
+export default function RevisionHistory({ questionId, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const revisionsUrl = `/api/questions/${encodeURIComponent(questionId)}/revisions`;
+
+  useEffect(() => {
+    setDiff(null);
+    fetchRevisions();
+  }, [questionId]);
+
+  const fetchRevisions = async () => {
+    try {
+      const response = await fetch(revisionsUrl);
+      const data: ApiResponse<QuestionRevision[]> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to load revisions');
+      }
+
+      setRevisions(data.data);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Compare an earlier revision with the current content
+  const compare = async (revision: number) => {
+    if (diff?.from === revision) {
+      setDiff(null);
+      return;
+    }
+
+    setComparing(revision);
+    try {
+      const response = await fetch(`${revisionsUrl}/diff?from=${revision}`);
+      const data: ApiResponse<RevisionDiff> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to compare revisions');
+      }
+
+      setDiff(data.data);
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compare revisions');
+    } finally {
+      setComparing(null);
+    }
+  };
+
+  const restore = async (revision: number) => {
+    if (!window.confirm(`Restore revision ${revision}? The current content stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(revision);
+    try {
+      const response = await fetch(`${revisionsUrl}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision }),
+      });
+      const data: ApiResponse<Question> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      onRestored(data.data);
+      setDiff(null);
+      await fetchRevisions();
+      toast.success(data.message || 'Revision restored');
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const latest = revisions[0]?.revision;
+
+  return (
+    <section className="card p-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <History className="h-5 w-5 text-blue-600" />
+        Revision History
+      </h3>
+
+      {loading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No revisions yet.</p>
+      ) : (
+        <ol className="space-y-3 max-h-96 overflow-y-auto">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="text-sm border-b border-gray-200 dark:border-gray-700 pb-3 last:border-0">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    #{revision.revision} · {REVISION_SOURCE_LABELS[revision.source]}
+                    {revision.restoredFrom !== null && ` of #${revision.restoredFrom}`}
+                    {revision.revision === latest && (
+                      <span className="ml-2 text-xs text-green-600 dark:text-green-400">current</span>
+                    )}
+                  </p>
+                  <p className="text-gray-500 dark:text-gray-400">
+                    {revision.authorName ?? 'Unknown'} · {formatDate(revision.created_at)}
+                  </p>
+                  {revision.changedFields.length > 0 && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                      Changed: {revision.changedFields.map(field => QUESTION_CONTENT_FIELD_LABELS[field]).join(', ')}
+                    </p>
+                  )}
+                </div>
+                {revision.revision !== latest && (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => compare(revision.revision)}
+                      disabled={comparing !== null || restoring !== null}
+                      className="text-gray-500 hover:text-blue-600 transition-colors"
+                      aria-label={`Compare revision ${revision.revision} with the current content`}
+                      title="Compare with current"
+                    >
+                      {comparing === revision.revision ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => restore(revision.revision)}
+                      disabled={comparing !== null || restoring !== null}
+                      className="text-gray-500 hover:text-blue-600 transition-colors"
+                      aria-label={`Restore revision ${revision.revision}`}
+                      title="Restore"
+                    >
+                      {restoring === revision.revision ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {diff?.from === revision.revision && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                    <span>#{diff.from} → #{diff.to}</span>
+                    <button onClick={() => setDiff(null)} aria-label="Close comparison">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {diff.changes.length === 0 ? (
+                    <p className="text-gray-500 dark:text-gray-400">Same content as the current revision.</p>
+                  ) : (
+                    diff.changes.map((change) => (
+                      <div key={change.field}>
+                        <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          {QUESTION_CONTENT_FIELD_LABELS[change.field]}
+                        </p>
+                        <pre className="whitespace-pre-wrap text-xs p-2 rounded bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 max-h-40 overflow-y-auto">
+                          {formatValue(change.before)}
+                        </pre>
+                        <pre className="whitespace-pre-wrap text-xs p-2 mt-1 rounded bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200 max-h-40 overflow-y-auto">
+                          {formatValue(change.after)}
+                        </pre>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
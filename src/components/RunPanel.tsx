@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { QuestionView, RunResult, ApiResponse } from '@/lib/types';
+import { Play, Loader2, Plus, X, Terminal } from 'lucide-react';
+import RunResults from '@/components/RunResults';
+import toast from 'react-hot-toast';
+
+interface RunPanelProps {
+  question: QuestionView;
+  // Code to run instead of the stored reference solution
+  code?: string;
+}
+
+interface CustomCase {
+  input: string;
+  expected: string;
+}
+
+const MAX_CUSTOM_CASES = 20;
+
+export default function RunPanel({ question, code }: RunPanelProps) {
+  const [customCases, setCustomCases] = useState<CustomCase[]>([]);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const updateCase = (index: number, field: keyof CustomCase, value: string) => {
+    setCustomCases(prev => prev.map((testCase, i) => (i === index ? { ...testCase, [field]: value } : testCase)));
+  };
+
+  const runCode = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(question.id)}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(code ? { code } : {}),
+          cases: customCases
+            .filter(testCase => testCase.input.trim())
+            .map(testCase => ({
+              input: testCase.input,
+              ...(testCase.expected.trim() ? { expected: testCase.expected } : {}),
+            })),
+        }),
+      });
+      const data: ApiResponse<RunResult> = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to run code');
+      }
+
+      setResult(data.data);
+    } catch (error) {
+      console.error('Error running code:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run code');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Terminal className="h-4 w-4 text-purple-600" />
+          Run against test cases
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setCustomCases(prev => [...prev, { input: '', expected: '' }])}
+            disabled={customCases.length >= MAX_CUSTOM_CASES}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            Add case
+          </button>
+          <button
+            onClick={runCode}
+            disabled={running}
+            className="btn-primary flex items-center gap-2 text-sm"
+          >
+            {running ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Running...
+              </>
+            ) : (
+              <>
+                <Play className="h-4 w-4" />
+                Run
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {customCases.map((testCase, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-start">
+          <textarea
+            value={testCase.input}
+            onChange={(e) => updateCase(index, 'input', e.target.value)}
+            placeholder={`Input, e.g. ${question.example.input}`}
+            rows={2}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <textarea
+            value={testCase.expected}
+            onChange={(e) => updateCase(index, 'expected', e.target.value)}
+            placeholder="Expected output (optional)"
+            rows={2}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg focus-ring bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={() => setCustomCases(prev => prev.filter((_, i) => i !== index))}
+            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+            aria-label={`Remove custom case ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      {result && <RunResults result={result} />}
+    </div>
+  );
+}
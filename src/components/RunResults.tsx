@@ -0,0 +1,88 @@
+'use client';
+
+import { RunResult, RunCaseStatus, SubmissionStatus } from '@/lib/types';
+import { CheckCircle, XCircle, AlertCircle, Clock, Terminal } from 'lucide-react';
+
+interface RunResultsProps {
+  result: RunResult;
+}
+
+export const STATUS_STYLES: Record<RunCaseStatus | SubmissionStatus, { label: string; className: string }> = {
+  passed: { label: 'Passed', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  timeout: { label: 'Timed out', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  ran: { label: 'Ran', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' },
+  unchecked: { label: 'Not checked', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' },
+};
+
+function StatusIcon({ status }: { status: RunCaseStatus }) {
+  switch (status) {
+    case 'passed':
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'timeout':
+      return <Clock className="h-4 w-4 text-yellow-600" />;
+    case 'ran':
+      return <Terminal className="h-4 w-4 text-gray-500" />;
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-red-600" />;
+    default:
+      return <XCircle className="h-4 w-4 text-red-600" />;
+  }
+}
+
+function OutputBlock({ label, text }: { label: string; text: string }) {
+  if (!text) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+      <pre className="bg-gray-900 text-gray-100 text-xs rounded p-3 overflow-x-auto max-h-48 whitespace-pre-wrap">
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+// Per-case outcome of a run, shared by the run panel and practice submissions
+export default function RunResults({ result }: RunResultsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[result.status].className}`}>
+          {STATUS_STYLES[result.status].label}
+        </span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {result.cases.filter(c => c.status === 'passed').length}/{result.cases.length} passed in {result.durationMs} ms
+        </span>
+      </div>
+
+      <OutputBlock label="Output while loading" text={result.stdout} />
+      <OutputBlock label="Errors" text={result.stderr} />
+
+      {result.cases.map((testCase) => (
+        <div key={testCase.name} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+              <StatusIcon status={testCase.status} />
+              {testCase.name}
+            </span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[testCase.status].className}`}>
+              {STATUS_STYLES[testCase.status].label}
+            </span>
+          </div>
+          <div className="text-sm font-mono text-gray-700 dark:text-gray-300 space-y-1">
+            <p><span className="text-gray-500">Input:</span> {testCase.input}</p>
+            {testCase.expected !== undefined && (
+              <p><span className="text-gray-500">Expected:</span> {testCase.expected}</p>
+            )}
+            {testCase.output !== undefined && (
+              <p><span className="text-gray-500">Output:</span> {testCase.output}</p>
+            )}
+          </div>
+          <OutputBlock label="stdout" text={testCase.stdout} />
+          <OutputBlock label="stderr" text={testCase.stderr} />
+        </div>
+      ))}
+    </div>
+  );
+}
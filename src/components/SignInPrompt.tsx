@@ -0,0 +1,26 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { LogIn } from 'lucide-react';
+
+interface SignInPromptProps {
+  message: string;
+}
+
+export default function SignInPrompt({ message }: SignInPromptProps) {
+  const pathname = usePathname();
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-600 dark:text-gray-400">
+      <p>{message}</p>
+      <Link
+        href={`/login?next=${encodeURIComponent(pathname)}`}
+        className="btn-primary flex items-center justify-center gap-2 flex-shrink-0"
+      >
+        <LogIn className="h-4 w-4" />
+        Sign in
+      </Link>
+    </div>
+  );
+}
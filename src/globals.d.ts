@@ -14,15 +14,25 @@ declare module 'prismjs/themes/prism-tomorrow.css';
 declare module 'prismjs/components/prism-python';
 declare module 'prismjs/components/prism-javascript';
 declare module 'prismjs/components/prism-java';
+declare module 'prismjs/components/prism-c';
 declare module 'prismjs/components/prism-cpp';
 
 // Environment variables
 declare namespace NodeJS {
   interface ProcessEnv {
-    GEMINI_API_KEY: string;
+    // Only needed with the gemini provider
+    GEMINI_API_KEY?: string;
+    GEMINI_MODEL?: string;
+    LLM_PROVIDER?: 'gemini' | 'stub';
     NODE_ENV: 'development' | 'production' | 'test';
     NEXT_PUBLIC_APP_URL?: string;
     DATABASE_URL?: string;
     RATE_LIMIT_REQUESTS?: string;
+    CODE_RUNNER_ENABLED?: string;
+    RUNNER_SANDBOX_PATH?: string;
+    RUNNER_UID?: string;
+    PYTHON_PATH?: string;
+    RUNNER_TIMEOUT_MS?: string;
+    RUNNER_MEMORY_MB?: string;
   }
 }
\ No newline at end of file
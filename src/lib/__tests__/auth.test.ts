@@ -0,0 +1,63 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import type { ApiKeyScope, User } from '../types';
+
+// auth.ts opens the database when it is imported, so point it at a scratch file first
+const dataDir = mkdtempSync(path.join(tmpdir(), 'auth-test-'));
+process.env.DATABASE_URL = path.join(dataDir, 'questions.db');
+
+let auth: typeof import('../auth');
+let database: typeof import('../database');
+let user: User;
+
+before(async () => {
+  auth = await import('../auth');
+  database = await import('../database');
+  user = database.createUser('scripts@example.com', 'Scripts', 'unused');
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+function keyRequest(method: string, pathname: string, scopes: ApiKeyScope[]): NextRequest {
+  const { key } = auth.issueApiKey(user.id, scopes.join('+'), scopes, null, null);
+  return new NextRequest(`http://localhost${pathname}`, { method, headers: { authorization: `Bearer ${key}` } });
+}
+
+function rejection(request: NextRequest): number | null {
+  try {
+    auth.requireUser(request);
+    return null;
+  } catch (error) {
+    return (error as { statusCode: number }).statusCode;
+  }
+}
+
+test('the questions scope only reads', () => {
+  assert.equal(rejection(keyRequest('GET', '/api/questions', ['questions'])), null);
+  assert.equal(rejection(keyRequest('GET', '/api/topics/graphs', ['questions'])), null);
+  assert.equal(rejection(keyRequest('POST', '/api/questions', ['questions'])), 403);
+  assert.equal(rejection(keyRequest('PUT', '/api/questions/Q1/test-cases', ['questions'])), 403);
+  assert.equal(rejection(keyRequest('DELETE', '/api/questions/Q1', ['questions'])), 403);
+  assert.equal(rejection(keyRequest('POST', '/api/topics/merge', ['questions'])), 403);
+});
+
+test('the edit scope also writes questions and topics', () => {
+  assert.equal(rejection(keyRequest('POST', '/api/questions', ['edit'])), null);
+  assert.equal(rejection(keyRequest('DELETE', '/api/questions/Q1', ['edit'])), null);
+  assert.equal(rejection(keyRequest('POST', '/api/topics/merge', ['edit'])), null);
+  assert.equal(rejection(keyRequest('POST', '/api/export', ['edit'])), 403);
+});
+
+test('keys stay within their route prefixes', () => {
+  assert.equal(rejection(keyRequest('POST', '/api/generate', ['generate'])), null);
+  assert.equal(rejection(keyRequest('GET', '/api/generate/jobs/J1', ['generate'])), null);
+  assert.equal(rejection(keyRequest('POST', '/api/export', ['generate'])), 403);
+  assert.equal(rejection(keyRequest('GET', '/api/questions-archive', ['questions'])), 403);
+  assert.equal(rejection(keyRequest('GET', '/api/users', ['questions', 'edit', 'generate', 'export'])), 403);
+});
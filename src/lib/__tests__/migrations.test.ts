@@ -0,0 +1,207 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { migrations, runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION } from '../migrations';
+import { DatabaseError } from '../types';
+
+// The questions table as the first release created it, before schema_migrations existed
+function createBaselineDatabase(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE questions (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      difficulty TEXT NOT NULL CHECK(difficulty IN ('Easy', 'Medium', 'Hard')),
+      topics TEXT NOT NULL,
+      description TEXT NOT NULL,
+      example TEXT NOT NULL,
+      solution_python TEXT NOT NULL,
+      step_by_step_explanation TEXT NOT NULL,
+      pseudocode TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT,
+      UNIQUE(title) ON CONFLICT REPLACE
+    );
+
+    CREATE INDEX idx_questions_difficulty ON questions(difficulty);
+    CREATE INDEX idx_questions_created_at ON questions(created_at DESC);
+    CREATE INDEX idx_questions_title ON questions(title);
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO questions (id, title, difficulty, topics, description, example, solution_python,
+      step_by_step_explanation, pseudocode, created_at, updated_at)
+    VALUES (@id, @title, @difficulty, @topics, @description, @example, @solution_python,
+      @step_by_step_explanation, NULL, @created_at, NULL)
+  `);
+  insert.run({
+    id: 'q-fib',
+    title: 'Fibonacci Number',
+    difficulty: 'Easy',
+    topics: JSON.stringify(['Dynamic Programming', 'Math']),
+    description: 'Return the nth Fibonacci number.',
+    example: JSON.stringify({ input: 'n = 4', output: '3', explanation: 'F(4) = F(3) + F(2)' }),
+    solution_python: 'def fib(n):\n    a, b = 0, 1\n    for _ in range(n):\n        a, b = b, a + b\n    return a',
+    step_by_step_explanation: JSON.stringify(['Keep the last two values', 'Advance n times']),
+    created_at: '2024-01-01T00:00:00.000Z',
+  });
+  insert.run({
+    id: 'q-pair',
+    title: 'Pair Sum',
+    difficulty: 'Medium',
+    topics: JSON.stringify(['Arrays', 'Hash Table']),
+    description: 'Find two indices whose values add up to the target.',
+    example: JSON.stringify({ input: 'nums = [2, 7], target = 9', output: '[0, 1]', explanation: '2 + 7 = 9' }),
+    solution_python: 'def pair_sum(nums, target):\n    seen = {}\n    for i, n in enumerate(nums):\n        if target - n in seen:\n            return [seen[target - n], i]\n        seen[n] = i',
+    step_by_step_explanation: JSON.stringify(['Remember each value', 'Look up the complement']),
+    created_at: '2024-01-02T00:00:00.000Z',
+  });
+
+  return db;
+}
+
+// Apply migrations up to a version the way runMigrations does, to stage data between them
+function migrateTo(db: Database.Database, version: number): void {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+  db.pragma('foreign_keys = OFF');
+  db.transaction(() => {
+    for (const migration of migrations.filter(m => m.version <= version)) {
+      migration.up(db);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, new Date().toISOString());
+    }
+  })();
+  db.pragma('foreign_keys = ON');
+}
+
+function names(db: Database.Database, type: 'index' | 'trigger'): string[] {
+  const rows = db.prepare(`
+    SELECT name FROM sqlite_master WHERE tbl_name = 'questions' AND type = ? AND sql IS NOT NULL ORDER BY name
+  `).all(type) as { name: string }[];
+  return rows.map(row => row.name);
+}
+
+function count(db: Database.Database, sql: string, ...params: unknown[]): number {
+  return (db.prepare(sql).get(...params) as { count: number }).count;
+}
+
+test('upgrades a baseline database to the latest version', () => {
+  const db = createBaselineDatabase();
+
+  const applied = runMigrations(db);
+
+  assert.deepEqual(applied, migrations.map(m => m.version).sort((a, b) => a - b));
+  assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+  assert.deepEqual(runMigrations(db), []);
+  assert.equal(db.pragma('foreign_keys', { simple: true }), 1);
+  assert.equal(db.pragma('integrity_check', { simple: true }), 'ok');
+
+  const ids = db.prepare('SELECT id FROM questions ORDER BY id').all() as { id: string }[];
+  assert.deepEqual(ids.map(row => row.id), ['q-fib', 'q-pair']);
+});
+
+test('backfills search, topics and revisions for existing questions', () => {
+  const db = createBaselineDatabase();
+  runMigrations(db);
+
+  const search = (query: string) => (db.prepare('SELECT id FROM questions_fts WHERE questions_fts MATCH ? ORDER BY id')
+    .all(query) as { id: string }[]).map(row => row.id);
+  assert.deepEqual(search('fibonacci'), ['q-fib']);
+  assert.deepEqual(search('topics:hash'), ['q-pair']);
+  assert.deepEqual(search('complement'), ['q-pair']);
+
+  const topics = db.prepare(`
+    SELECT t.name FROM question_topics qt JOIN topics t ON t.id = qt.topic_id
+    WHERE qt.question_id = ? ORDER BY qt.position
+  `).all('q-fib') as { name: string }[];
+  assert.deepEqual(topics.map(row => row.name), ['Dynamic Programming', 'Math']);
+  assert.equal(count(db, 'SELECT COUNT(*) AS count FROM topics'), 4);
+
+  const revisions = db.prepare('SELECT question_id, revision, source, content FROM question_revisions ORDER BY question_id')
+    .all() as { question_id: string; revision: number; source: string; content: string }[];
+  assert.equal(revisions.length, 2);
+  assert.deepEqual(revisions.map(row => [row.question_id, row.revision, row.source]), [
+    ['q-fib', 1, 'generation'],
+    ['q-pair', 1, 'generation'],
+  ]);
+  const content = JSON.parse(revisions[0]!.content);
+  assert.equal(content.title, 'Fibonacci Number');
+  assert.deepEqual(content.topics, ['Dynamic Programming', 'Math']);
+  assert.equal(content.example.output, '3');
+});
+
+test('rebuilding questions keeps ids, dependent rows, indexes and triggers', () => {
+  const db = createBaselineDatabase();
+  migrateTo(db, 17);
+
+  db.prepare("INSERT INTO users (id, email, name, password_hash, role, created_at) VALUES ('u1', 'a@example.com', 'A', 'x', 'admin', '2024-01-03')").run();
+  db.prepare("INSERT INTO bookmarks (user_id, question_id, created_at) VALUES ('u1', 'q-fib', '2024-01-03')").run();
+  db.prepare(`
+    INSERT INTO question_test_cases (question_id, position, args, expected, hidden, created_at, updated_at)
+    VALUES ('q-fib', 0, '[4]', '3', 0, '2024-01-03', '2024-01-03')
+  `).run();
+  const indexes = names(db, 'index');
+  const triggers = names(db, 'trigger');
+  assert.ok(triggers.length > 0);
+
+  assert.deepEqual(runMigrations(db), migrations.filter(m => m.version > 17).map(m => m.version));
+
+  assert.doesNotMatch(
+    (db.prepare("SELECT sql FROM sqlite_master WHERE name = 'questions'").get() as { sql: string }).sql,
+    /ON CONFLICT REPLACE/
+  );
+  assert.deepEqual(names(db, 'index'), indexes);
+  assert.deepEqual(names(db, 'trigger'), triggers);
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM bookmarks WHERE question_id = 'q-fib'"), 1);
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM question_test_cases WHERE question_id = 'q-fib'"), 1);
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM question_revisions"), 2);
+  assert.deepEqual(db.pragma('foreign_key_check'), []);
+
+  // Saving a title again is now an error instead of silently replacing the row
+  assert.throws(
+    () => db.prepare(`
+      INSERT INTO questions (id, title, difficulty, topics, description, example, solution_python,
+        step_by_step_explanation, created_at)
+      SELECT 'q-copy', title, difficulty, topics, description, example, solution_python,
+        step_by_step_explanation, created_at
+      FROM questions WHERE id = 'q-fib'
+    `).run(),
+    /UNIQUE constraint failed: questions.title/
+  );
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM questions WHERE id = 'q-fib'"), 1);
+
+  // The recreated triggers still keep search and dependent rows in sync
+  db.prepare("UPDATE questions SET description = 'Compute the nth term of the golden sequence.' WHERE id = 'q-fib'").run();
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM questions_fts WHERE questions_fts MATCH 'golden'"), 1);
+  db.prepare("DELETE FROM questions WHERE id = 'q-fib'").run();
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM bookmarks"), 0);
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM question_topics WHERE question_id = 'q-fib'"), 0);
+  assert.equal(count(db, "SELECT COUNT(*) AS count FROM questions_fts WHERE questions_fts MATCH 'fibonacci'"), 0);
+});
+
+test('marks messages imported with browser timestamps as imported', () => {
+  const db = createBaselineDatabase();
+  migrateTo(db, 19);
+
+  db.prepare("INSERT INTO conversations (id, question_id, title, created_at, updated_at) VALUES ('c1', 'q-fib', 'Imported chat', '2024-02-01', '2024-02-02')").run();
+  const insert = db.prepare("INSERT INTO messages (id, conversation_id, role, content, created_at) VALUES (?, 'c1', ?, ?, ?)");
+  insert.run('m1', 'assistant', 'Saved in the browser', '2024-01-15');
+  insert.run('m2', 'user', 'Asked after the import', '2024-02-02');
+
+  runMigrations(db);
+
+  const rows = db.prepare('SELECT id, imported FROM messages ORDER BY id').all() as { id: string; imported: number }[];
+  assert.deepEqual(rows.map(row => [row.id, row.imported]), [['m1', 1], ['m2', 0]]);
+});
+
+test('refuses a database from a newer version of the app', () => {
+  const db = createBaselineDatabase();
+  runMigrations(db);
+  db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'from_the_future', '2030-01-01')")
+    .run(LATEST_SCHEMA_VERSION + 1);
+
+  assert.throws(
+    () => runMigrations(db),
+    (error: unknown) => error instanceof DatabaseError && error.code === 'SCHEMA_TOO_NEW'
+  );
+});
@@ -0,0 +1,122 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+
+// auth.ts opens the database when it is imported, so point it at a scratch file first
+const dataDir = mkdtempSync(path.join(tmpdir(), 'rate-limit-test-'));
+process.env.DATABASE_URL = path.join(dataDir, 'questions.db');
+process.env.LLM_PROVIDER = 'stub';
+
+let auth: typeof import('../auth');
+let database: typeof import('../database');
+let rateLimit: typeof import('../rate-limit');
+let health: typeof import('../../app/api/health/route');
+
+before(async () => {
+  auth = await import('../auth');
+  database = await import('../database');
+  rateLimit = await import('../rate-limit');
+  health = await import('../../app/api/health/route');
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// Each test sends from its own address so the shared limiters do not carry counts across tests
+function request(pathname: string, ip: string, apiKey?: string): NextRequest {
+  return new NextRequest(`http://localhost${pathname}`, {
+    headers: { 'x-forwarded-for': ip, ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}) },
+  });
+}
+
+function handler() {
+  return auth.withRateLimit(async () => NextResponse.json({ success: true }));
+}
+
+test('answers 429 with Retry-After once the api limit is used up', async () => {
+  const route = handler();
+
+  for (let i = 1; i <= 100; i++) {
+    const response = await route(request('/api/questions', '10.0.0.1'), {});
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('X-RateLimit-Limit'), '100');
+    assert.equal(response.headers.get('X-RateLimit-Remaining'), String(100 - i));
+    assert.ok(Number(response.headers.get('X-RateLimit-Reset')) >= Math.floor(Date.now() / 1000));
+    assert.equal(response.headers.get('Retry-After'), null);
+  }
+
+  const limited = await route(request('/api/questions', '10.0.0.1'), {});
+  assert.equal(limited.status, 429);
+  assert.deepEqual(await limited.json(), { success: false, error: 'Too many requests. Please try again later.' });
+  assert.equal(limited.headers.get('X-RateLimit-Limit'), '100');
+  assert.equal(limited.headers.get('X-RateLimit-Remaining'), '0');
+  const retryAfter = Number(limited.headers.get('Retry-After'));
+  assert.ok(retryAfter >= 1 && retryAfter <= 60, `Retry-After was ${retryAfter}`);
+
+  // Other clients keep their own count
+  assert.equal((await route(request('/api/questions', '10.0.0.2'), {})).status, 200);
+});
+
+test('maps each route to its limiter', () => {
+  const { getRateLimiter, rateLimiters } = rateLimit;
+
+  assert.equal(getRateLimiter('/api/generate'), rateLimiters.generation);
+  assert.equal(getRateLimiter('/api/generate/jobs/x'), rateLimiters.api);
+  assert.equal(getRateLimiter('/api/questions/abc/translate'), rateLimiters.generation);
+  assert.equal(getRateLimiter('/api/chat'), rateLimiters.chat);
+  assert.equal(getRateLimiter('/api/questions/abc/review'), rateLimiters.chat);
+  assert.equal(getRateLimiter('/api/export'), rateLimiters.export);
+  assert.equal(getRateLimiter('/api/questions'), rateLimiters.api);
+});
+
+test('polling a generation job does not use up the generation limit', async () => {
+  const route = handler();
+
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await route(request('/api/generate', '10.0.1.1'), {})).status, 200);
+  }
+  const limited = await route(request('/api/generate', '10.0.1.1'), {});
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get('X-RateLimit-Limit'), '5');
+
+  const poll = await route(request('/api/generate/jobs/x', '10.0.1.1'), {});
+  assert.equal(poll.status, 200);
+  assert.equal(poll.headers.get('X-RateLimit-Limit'), '100');
+});
+
+test('caps an API key limit at the route limit', async () => {
+  const route = handler();
+  const user = database.createUser('ci@example.com', 'CI', 'unused');
+  const generous = auth.issueApiKey(user.id, 'Generous', ['generate'], 1000, null);
+  const strict = auth.issueApiKey(user.id, 'Strict', ['questions'], 2, null);
+
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await route(request('/api/generate', '10.0.3.1', generous.key), {})).status, 200);
+  }
+  const limited = await route(request('/api/generate', '10.0.3.1', generous.key), {});
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get('X-RateLimit-Limit'), '5');
+
+  for (let i = 0; i < 2; i++) {
+    const response = await route(request('/api/questions', '10.0.3.1', strict.key), {});
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('X-RateLimit-Limit'), '2');
+  }
+  assert.equal((await route(request('/api/questions', '10.0.3.1', strict.key), {})).status, 429);
+});
+
+test('leaves the health check unthrottled', async () => {
+  const route = handler();
+  for (let i = 0; i <= 100; i++) {
+    await route(request('/api/health', '10.0.2.1'), {});
+  }
+  assert.equal((await route(request('/api/health', '10.0.2.1'), {})).status, 429);
+
+  const response = await health.GET(request('/api/health', '10.0.2.1'));
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('X-RateLimit-Limit'), null);
+});
@@ -0,0 +1,110 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { runQuestionTests } from '../runner';
+import { Question } from '../types';
+
+// bubblewrap is not needed to check what the harness hands to the code: a pass-through script that
+// drops the sandbox arguments stands in for it. The directory must be reachable by the runner uid.
+const PYTHON = '/usr/bin/python3';
+const skip = existsSync(PYTHON) ? false : `${PYTHON} is not installed`;
+const sandboxDir = mkdtempSync(path.join(tmpdir(), 'runner-test-'));
+
+before(() => {
+  const sandbox = path.join(sandboxDir, 'sandbox');
+  writeFileSync(sandbox, '#!/bin/sh\nwhile [ "$1" != "--" ]; do shift; done\nshift\nexec "$@"\n');
+  chmodSync(sandboxDir, 0o755);
+  chmodSync(sandbox, 0o755);
+  process.env.CODE_RUNNER_ENABLED = 'true';
+  process.env.RUNNER_SANDBOX_PATH = sandbox;
+  process.env.PYTHON_PATH = PYTHON;
+});
+
+after(() => {
+  rmSync(sandboxDir, { recursive: true, force: true });
+});
+
+function question(): Question {
+  return {
+    id: 'q-double',
+    title: 'Double',
+    difficulty: 'Easy',
+    topics: ['Math'],
+    description: 'Return twice n.',
+    example: { input: 'n = 2', output: '4', explanation: '2 * 2 = 4' },
+    solution_python: 'def double(n):\n    return n * 2',
+    step_by_step_explanation: ['Multiply by two'],
+    created_at: '2024-01-01T00:00:00.000Z',
+    test_cases: [
+      { args: { n: 5 }, expected: 10, hidden: false },
+      { args: { n: 424242 }, expected: 848484, hidden: true },
+    ],
+  };
+}
+
+test('does not let the code read hidden test cases', { skip }, async () => {
+  const code = [
+    'import sys',
+    'print(sys.modules["__main__"].__dict__)',
+    'frame = sys._getframe()',
+    'while frame:',
+    '    print(frame.f_locals)',
+    '    print(frame.f_locals, file=sys.stderr)',
+    '    frame = frame.f_back',
+    'def double(n):',
+    '    print(n)',
+    '    print(n, file=sys.stderr)',
+    '    f = sys._getframe(1)',
+    '    while f:',
+    '        print(f.f_locals)',
+    '        f = f.f_back',
+    '    return n * 2',
+  ].join('\n');
+
+  const result = await runQuestionTests(question(), code);
+
+  assert.equal(result.status, 'passed');
+  assert.deepEqual(result.cases.map(c => [c.name, c.status]), [
+    ['Example', 'passed'],
+    ['Test 1', 'passed'],
+    ['Hidden test 2', 'passed'],
+  ]);
+  assert.deepEqual(result.cases[2], {
+    name: 'Hidden test 2',
+    input: 'Hidden',
+    stdout: '',
+    stderr: '',
+    status: 'passed',
+    durationMs: result.cases[2]!.durationMs,
+  });
+  // The visible cases' own output still comes back
+  assert.match(result.cases[1]!.stdout, /^5\n/);
+  const body = JSON.stringify(result);
+  assert.doesNotMatch(body, /424242/);
+  assert.doesNotMatch(body, /848484/);
+});
+
+test('judges structured cases outside the code under test', { skip }, async () => {
+  // Tries to report every case as passed without returning the right values
+  const code = [
+    'import atexit, json, sys',
+    'main = sys.modules["__main__"]',
+    'main._run = lambda func, case, timeout_ms, memory_mb: {"name": case["name"], "input": case["input"],',
+    '    "stdout": "", "stderr": "", "status": "passed", "durationMs": 0}',
+    'fake = {"cases": [{"name": "Hidden test 2", "input": "", "stdout": "", "stderr": "", "status": "passed",',
+    '    "durationMs": 0}], "stdout": "", "stderr": "", "loaded": True}',
+    'atexit.register(lambda: sys.__stdout__.write("\\n__RUNNER_RESULT__" + json.dumps(fake) + "\\n"))',
+    'def double(n):',
+    '    return 0',
+  ].join('\n');
+
+  const result = await runQuestionTests(question(), code, { includeExamples: false });
+
+  assert.equal(result.status, 'failed');
+  assert.deepEqual(result.cases.map(c => [c.name, c.status]), [
+    ['Test 1', 'failed'],
+    ['Hidden test 2', 'failed'],
+  ]);
+});
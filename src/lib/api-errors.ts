@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { ApiResponse, AuthError, DatabaseError, ValidationError } from './types';
+
+// Error response shared by route handlers: auth failures keep their status, validation errors
+// are 400, and anything else is a 500 without internal details
+export function handleError(error: unknown, context: string): NextResponse<ApiResponse<never>> {
+  console.error(`Error in ${context}:`, error);
+
+  if (error instanceof AuthError) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error.message 
+      },
+      { status: error.statusCode }
+    );
+  }
+
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error.message 
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof DatabaseError) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Database operation failed' 
+      },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { 
+      success: false, 
+      error: 'Internal server error' 
+    },
+    { status: 500 }
+  );
+}
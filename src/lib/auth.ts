@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { createSession, deleteSession, getSessionUser, createApiKey, authenticateApiKey } from './database';
+import { RateLimiter, createRateLimitMiddleware, getClientId, getRateLimiter } from './rate-limit';
+import { AuthError, ApiKey, ApiKeyScope, CreatedApiKey, RequestContext, User, UserRole, USER_ROLE_LABELS } from './types';
+import { hasRole } from './utils';
+
+export const SESSION_COOKIE = 'session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// scrypt cost parameters (N=2^14, r=8, p=1) with a 64-byte key and a per-password salt
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_BYTES = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: 16384, r: 8, p: 1 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+// Stored as "scrypt$<salt>$<key>", both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export const API_KEY_PREFIX = 'acb_';
+
+// Route prefixes each API key scope opens up, limited to the listed methods when there are any
+const API_KEY_SCOPE_ROUTES: Record<ApiKeyScope, { prefixes: string[]; methods?: string[] }> = {
+  generate: { prefixes: ['/api/generate'] },
+  export: { prefixes: ['/api/export'] },
+  questions: { prefixes: ['/api/questions', '/api/topics'], methods: ['GET', 'HEAD'] },
+  edit: { prefixes: ['/api/questions', '/api/topics'] },
+};
+
+// Only a hash of the cookie token or API key is stored, so neither table can be replayed
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function startSession(response: NextResponse, user: User): void {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  createSession(hashToken(token), user.id, expiresAt.toISOString());
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function endSession(request: NextRequest, response: NextResponse): void {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    deleteSession(hashToken(token));
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+// The plaintext key is returned here and never again
+export function issueApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  rateLimit: number | null,
+  expiresAt: string | null
+): CreatedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey = createApiKey(hashToken(key), key.slice(0, API_KEY_PREFIX.length + 6), userId, name, scopes, rateLimit, expiresAt);
+  return { ...apiKey, key };
+}
+
+function apiKeyAllows(apiKey: ApiKey, method: string, pathname: string): boolean {
+  return apiKey.scopes.some(scope => {
+    const { prefixes, methods } = API_KEY_SCOPE_ROUTES[scope];
+    return (!methods || methods.includes(method))
+      && prefixes.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  });
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
+
+// Resolved once per request; route handlers may ask for it several times
+const contexts = new WeakMap<NextRequest, RequestContext>();
+// Why a bearer token was turned away, reported by requireUser; public routes treat the caller as anonymous
+const rejections = new WeakMap<NextRequest, AuthError>();
+
+function resolveApiKey(request: NextRequest, token: string): RequestContext {
+  const authenticated = authenticateApiKey(hashToken(token));
+  const { pathname } = request.nextUrl;
+
+  if (!authenticated) {
+    rejections.set(request, new AuthError('Invalid or expired API key'));
+  } else if (!apiKeyAllows(authenticated.apiKey, request.method, pathname)) {
+    rejections.set(request, new AuthError(`This API key is not allowed to ${request.method} ${pathname}`, 403));
+  } else {
+    return { ...authenticated, clientId: `key:${authenticated.apiKey.id}` };
+  }
+
+  return { user: null, apiKey: null, clientId: `ip:${getClientId(request)}` };
+}
+
+export function getRequestContext(request: NextRequest): RequestContext {
+  const cached = contexts.get(request);
+  if (cached) {
+    return cached;
+  }
+
+  // An Authorization header takes the place of the session cookie
+  const bearer = getBearerToken(request);
+  let context: RequestContext;
+  if (bearer) {
+    context = resolveApiKey(request, bearer);
+  } else {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    const user = token ? getSessionUser(hashToken(token)) : null;
+    context = {
+      user,
+      apiKey: null,
+      clientId: user ? `user:${user.id}` : `ip:${getClientId(request)}`,
+    };
+  }
+
+  contexts.set(request, context);
+  return context;
+}
+
+export function requireUser(request: NextRequest): User {
+  const { user } = getRequestContext(request);
+  if (!user) {
+    throw rejections.get(request) ?? new AuthError('Sign in to continue');
+  }
+  return user;
+}
+
+// Count the request against the limiter; API keys are counted on their own and may carry a stricter limit
+function checkRateLimit(request: NextRequest, limiter: RateLimiter) {
+  const { apiKey, clientId } = getRequestContext(request);
+  return createRateLimitMiddleware(limiter)(request, { id: clientId, maxRequests: apiKey?.rateLimit ?? null });
+}
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+// Wraps an API route handler in the limiter its path maps to. This runs in the route rather than
+// middleware.ts because the edge runtime cannot reach the database that sessions and API keys live in.
+// The health check is left unwrapped so load balancers are never throttled.
+export function withRateLimit<C>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request, context) => {
+    const limit = checkRateLimit(request, getRateLimiter(request.nextUrl.pathname));
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: limit.headers }
+      );
+    }
+
+    const response = await handler(request, context);
+    limit.headers.forEach((value, key) => response.headers.set(key, value));
+    return response;
+  };
+}
+
+// Signed-in users below the required role get 403 rather than 401
+export function requireRole(request: NextRequest, role: UserRole): User {
+  const user = requireUser(request);
+  if (!hasRole(user, role)) {
+    throw new AuthError(`${USER_ROLE_LABELS[role]} access required`, 403);
+  }
+  return user;
+}
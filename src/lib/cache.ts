@@ -1,16 +1,116 @@
-// Simple in-memory cache implementation for server-side caching
+// Simple cache implementation for server-side caching
+import type Database from 'better-sqlite3';
+import { getSharedStateBackend, getSharedStateDatabase } from './shared-state';
+
 interface CacheItem<T> {
   data: T;
   timestamp: number;
   ttl: number;
 }
 
-class MemoryCache {
-  private cache = new Map<string, CacheItem<any>>();
+// Where cached items live; expiry is decided by the cache, not the store
+export interface CacheStore {
+  get(key: string): CacheItem<unknown> | null;
+  set(key: string, item: CacheItem<unknown>): void;
+  delete(key: string): boolean;
+  clear(): void;
+  keys(): string[];
+  // Remove every item whose ttl has run out by now
+  deleteExpired(now: number): void;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private items = new Map<string, CacheItem<unknown>>();
+
+  get(key: string): CacheItem<unknown> | null {
+    return this.items.get(key) ?? null;
+  }
+
+  set(key: string, item: CacheItem<unknown>): void {
+    this.items.set(key, item);
+  }
+
+  delete(key: string): boolean {
+    return this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+  deleteExpired(now: number): void {
+    for (const [key, item] of this.items.entries()) {
+      if (now - item.timestamp > item.ttl) {
+        this.items.delete(key);
+      }
+    }
+  }
+}
+
+// Shares entries between every process using the same database file; values are stored as JSON
+export class SqliteCacheStore implements CacheStore {
+  private statements: Record<'select' | 'upsert' | 'delete' | 'clear' | 'keys' | 'deleteExpired', Database.Statement>;
+
+  constructor(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        ttl INTEGER NOT NULL
+      )
+    `);
+
+    this.statements = {
+      select: db.prepare('SELECT data, timestamp, ttl FROM cache_entries WHERE key = ?'),
+      upsert: db.prepare(`
+        INSERT INTO cache_entries (key, data, timestamp, ttl) VALUES (?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET data = excluded.data, timestamp = excluded.timestamp, ttl = excluded.ttl
+      `),
+      delete: db.prepare('DELETE FROM cache_entries WHERE key = ?'),
+      clear: db.prepare('DELETE FROM cache_entries'),
+      keys: db.prepare('SELECT key FROM cache_entries ORDER BY key'),
+      deleteExpired: db.prepare('DELETE FROM cache_entries WHERE ? - timestamp > ttl'),
+    };
+  }
+
+  get(key: string): CacheItem<unknown> | null {
+    const row = this.statements.select.get(key) as { data: string; timestamp: number; ttl: number } | undefined;
+    return row ? { data: JSON.parse(row.data), timestamp: row.timestamp, ttl: row.ttl } : null;
+  }
+
+  set(key: string, item: CacheItem<unknown>): void {
+    this.statements.upsert.run(key, JSON.stringify(item.data), item.timestamp, item.ttl);
+  }
+
+  delete(key: string): boolean {
+    return this.statements.delete.run(key).changes > 0;
+  }
+
+  clear(): void {
+    this.statements.clear.run();
+  }
+
+  keys(): string[] {
+    return (this.statements.keys.all() as { key: string }[]).map(row => row.key);
+  }
+
+  deleteExpired(now: number): void {
+    this.statements.deleteExpired.run(now);
+  }
+}
+
+class ServerCache {
   private readonly defaultTTL = 5 * 60 * 1000; // 5 minutes
 
+  constructor(private store: CacheStore) {}
+
   set<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
-    this.cache.set(key, {
+    this.store.set(key, {
       data,
       timestamp: Date.now(),
       ttl,
@@ -18,7 +118,7 @@ class MemoryCache {
   }
 
   get<T>(key: string): T | null {
-    const item = this.cache.get(key);
+    const item = this.store.get(key);
     
     if (!item) {
       return null;
@@ -26,7 +126,7 @@ class MemoryCache {
 
     // Check if item has expired
     if (Date.now() - item.timestamp > item.ttl) {
-      this.cache.delete(key);
+      this.store.delete(key);
       return null;
     }
 
@@ -34,60 +134,46 @@ class MemoryCache {
   }
 
   has(key: string): boolean {
-    const item = this.cache.get(key);
-    
-    if (!item) {
-      return false;
-    }
-
-    // Check if item has expired
-    if (Date.now() - item.timestamp > item.ttl) {
-      this.cache.delete(key);
-      return false;
-    }
-
-    return true;
+    return this.get(key) !== null;
   }
 
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    return this.store.delete(key);
   }
 
   clear(): void {
-    this.cache.clear();
+    this.store.clear();
   }
 
   size(): number {
-    return this.cache.size;
+    return this.store.keys().length;
   }
 
   // Clean up expired items
   cleanup(): void {
-    const now = Date.now();
-    for (const [key, item] of this.cache.entries()) {
-      if (now - item.timestamp > item.ttl) {
-        this.cache.delete(key);
-      }
-    }
+    this.store.deleteExpired(Date.now());
   }
 
   // Get cache statistics
   getStats(): { size: number; keys: string[] } {
+    const keys = this.store.keys();
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
+      size: keys.length,
+      keys,
     };
   }
 }
 
-// Singleton cache instance
-export const cache = new MemoryCache();
+// Singleton cache instance; CACHE_STORE=sqlite shares it across processes
+export const cache = new ServerCache(
+  getSharedStateBackend('CACHE_STORE') === 'sqlite' ? new SqliteCacheStore(getSharedStateDatabase()) : new MemoryCacheStore()
+);
 
 // Cleanup expired items every 10 minutes
 if (typeof window === 'undefined') { // Only run on server
   setInterval(() => {
     cache.cleanup();
-  }, 10 * 60 * 1000);
+  }, 10 * 60 * 1000).unref();
 }
 
 // Cache key generators
@@ -1,10 +1,57 @@
 import Database from 'better-sqlite3';
-import { Question, DatabaseQuestion, DatabaseError } from './types';
-import { getErrorMessage } from './utils';
+import {
+  Question,
+  DatabaseQuestion,
+  DatabaseError,
+  GenerationJob,
+  GenerationJobItem,
+  GenerationJobStatus,
+  GenerationItemStatus,
+  ChatMessage,
+  ImportedChatMessage,
+  Conversation,
+  ConversationWithMessages,
+  QuestionSearchResult,
+  QuestionView,
+  QuestionQuery,
+  QuestionSortField,
+  QuestionNavigation,
+  SearchField,
+  SnippetSegment,
+  Topic,
+  TopicSummary,
+  SupportedLanguage,
+  TestCase,
+  Submission,
+  SubmissionStatus,
+  RunResult,
+  CodeReview,
+  HintProgress,
+  ReviewState,
+  ReviewRating,
+  ReviewQueue,
+  ProgressCounts,
+  ProgressStats,
+  TopicProgress,
+  ActivityDay,
+  HistoryEntry,
+  User,
+  UserRole,
+  ApiKey,
+  ApiKeyScope,
+  DuplicateTitleAction,
+  GenerationItemAction,
+  QuestionContent,
+  QuestionRevision,
+  RevisionSource,
+} from './types';
+import { runMigrations } from './migrations';
+import { scheduleReview } from './scheduler';
+import { getErrorMessage, diffQuestionContent, hasRole, toQuestionView, generateConversationId, generateMessageId, generateSubmissionId, generateUserId, generateApiKeyId, truncateText } from './utils';
 import path from 'path';
 import fs from 'fs';
 
-const dbPath = path.join(process.cwd(), 'src/data/questions.db');
+const dbPath = path.resolve(process.cwd(), process.env.DATABASE_URL || 'src/data/questions.db');
 const dbDir = path.dirname(dbPath);
 
 // Ensure database directory exists
@@ -24,67 +71,502 @@ try {
   throw new DatabaseError(`Failed to initialize database: ${getErrorMessage(error)}`);
 }
 
-// Initialize database schema
-const initializeSchema = () => {
-  try {
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS questions (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        difficulty TEXT NOT NULL CHECK (difficulty IN ('Easy', 'Medium', 'Hard')),
-        topics TEXT NOT NULL,
-        description TEXT NOT NULL,
-        example TEXT NOT NULL,
-        solution_python TEXT NOT NULL,
-        step_by_step_explanation TEXT NOT NULL,
-        pseudocode TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT,
-        UNIQUE(title) ON CONFLICT REPLACE
-      );
-      
-      CREATE INDEX IF NOT EXISTS idx_questions_difficulty ON questions(difficulty);
-      CREATE INDEX IF NOT EXISTS idx_questions_created_at ON questions(created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_questions_title ON questions(title);
-    `);
-  } catch (error) {
-    throw new DatabaseError(`Failed to initialize schema: ${getErrorMessage(error)}`);
-  }
-};
-
-initializeSchema();
+// Bring the schema up to date before preparing statements
+try {
+  runMigrations(db);
+} catch (error) {
+  db.close();
+  throw error;
+}
 
 // Prepared statements for better performance
 const statements = {
   insert: db.prepare(`
-    INSERT OR REPLACE INTO questions 
-    (id, title, difficulty, topics, description, example, solution_python, step_by_step_explanation, pseudocode, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO questions 
+    (id, title, difficulty, topics, description, example, solution_python, step_by_step_explanation, pseudocode, hints, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
   
   selectById: db.prepare('SELECT * FROM questions WHERE id = ?'),
+
+  selectIdByTitle: db.prepare('SELECT id FROM questions WHERE title = ?'),
+
+  insertRevision: db.prepare(`
+    INSERT INTO question_revisions (question_id, revision, content, source, author_id, restored_from, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  selectLatestRevision: db.prepare(`
+    SELECT revision, content FROM question_revisions WHERE question_id = ? ORDER BY revision DESC LIMIT 1
+  `),
+
+  selectRevisions: db.prepare(`
+    SELECT r.*, u.name as author_name FROM question_revisions r
+    LEFT JOIN users u ON u.id = r.author_id
+    WHERE r.question_id = ?
+    ORDER BY r.revision ASC
+  `),
+
+  selectRevisionContent: db.prepare('SELECT content FROM question_revisions WHERE question_id = ? AND revision = ?'),
+
+  // A plain UPDATE keeps the row, so the delete triggers that clear progress and submissions do not fire
+  update: db.prepare(`
+    UPDATE questions SET
+      title = ?, difficulty = ?, topics = ?, description = ?, example = ?, solution_python = ?,
+      step_by_step_explanation = ?, pseudocode = ?, hints = ?, updated_at = ?
+    WHERE id = ?
+  `),
   
   selectAll: db.prepare('SELECT * FROM questions ORDER BY created_at DESC'),
   
   selectByDifficulty: db.prepare('SELECT * FROM questions WHERE difficulty = ? ORDER BY created_at DESC'),
   
   selectByTopic: db.prepare(`
-    SELECT * FROM questions 
-    WHERE topics LIKE ? 
-    ORDER BY created_at DESC
+    SELECT q.* FROM questions q 
+    JOIN question_topics qt ON qt.question_id = q.id 
+    JOIN topics t ON t.id = qt.topic_id 
+    WHERE t.name = @topic OR t.id IN (SELECT topic_id FROM topic_aliases WHERE alias = @topic) 
+    ORDER BY q.created_at DESC
   `),
   
   delete: db.prepare('DELETE FROM questions WHERE id = ?'),
   
   count: db.prepare('SELECT COUNT(*) as count FROM questions'),
   
-  search: db.prepare(`
-    SELECT * FROM questions 
-    WHERE title LIKE ? OR description LIKE ? 
-    ORDER BY created_at DESC
+  insertJob: db.prepare(`
+    INSERT INTO generation_jobs (id, user_id, status, languages, on_duplicate, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  insertJobItem: db.prepare(`
+    INSERT INTO generation_job_items (job_id, position, title, status, updated_at)
+    VALUES (?, ?, ?, 'queued', ?)
+  `),
+
+  selectJob: db.prepare('SELECT * FROM generation_jobs WHERE id = ?'),
+
+  selectJobItems: db.prepare('SELECT * FROM generation_job_items WHERE job_id = ? ORDER BY position'),
+
+  selectUnfinishedJobIds: db.prepare(`
+    SELECT id FROM generation_jobs 
+    WHERE status IN ('queued', 'running') 
+    ORDER BY created_at
+  `),
+
+  updateJobStatus: db.prepare('UPDATE generation_jobs SET status = ?, updated_at = ? WHERE id = ?'),
+
+  claimJob: db.prepare(`
+    UPDATE generation_jobs 
+    SET worker = @worker, heartbeat_at = @now 
+    WHERE id = @id AND status IN ('queued', 'running') 
+      AND (worker IS NULL OR worker = @worker OR heartbeat_at < @staleBefore)
+  `),
+
+  heartbeatJob: db.prepare('UPDATE generation_jobs SET heartbeat_at = ? WHERE id = ? AND worker = ?'),
+
+  releaseJob: db.prepare('UPDATE generation_jobs SET worker = NULL, heartbeat_at = NULL WHERE id = ? AND worker = ?'),
+
+  updateJobItem: db.prepare(`
+    UPDATE generation_job_items 
+    SET status = ?, action = ?, question_id = ?, error = ?, updated_at = ? 
+    WHERE job_id = ? AND position = ?
+  `),
+
+  requeueRunningJobItems: db.prepare(`
+    UPDATE generation_job_items 
+    SET status = 'queued', updated_at = ? 
+    WHERE job_id = ? AND status = 'running'
+  `),
+
+  insertConversation: db.prepare(`
+    INSERT INTO conversations (id, question_id, user_id, title, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `),
+
+  selectConversation: db.prepare(`
+    SELECT c.*, (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) as message_count
+    FROM conversations c 
+    WHERE c.id = ?
+  `),
+
+  selectConversationsByQuestion: db.prepare(`
+    SELECT c.*, (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) as message_count
+    FROM conversations c 
+    WHERE c.question_id = ? AND c.user_id = ? 
+    ORDER BY c.updated_at DESC
+  `),
+
+  updateConversationTitle: db.prepare('UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?'),
+
+  touchConversation: db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?'),
+
+  deleteConversation: db.prepare('DELETE FROM conversations WHERE id = ?'),
+
+  deleteConversationsByQuestion: db.prepare('DELETE FROM conversations WHERE question_id = ?'),
+
+  insertMessage: db.prepare(`
+    INSERT INTO messages (id, conversation_id, role, content, review, imported, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  selectMessages: db.prepare('SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at, rowid'),
+
+  deleteMessagesByConversation: db.prepare('DELETE FROM messages WHERE conversation_id = ?'),
+
+  deleteMessagesByQuestion: db.prepare(`
+    DELETE FROM messages 
+    WHERE conversation_id IN (SELECT id FROM conversations WHERE question_id = ?)
+  `),
+
+  // Topic names and aliases compare case-insensitively (COLLATE NOCASE columns)
+  resolveTopic: db.prepare(`
+    SELECT t.id, t.name FROM topics t WHERE t.name = @name 
+    UNION ALL 
+    SELECT t.id, t.name FROM topic_aliases a JOIN topics t ON t.id = a.topic_id WHERE a.alias = @name 
+    LIMIT 1
+  `),
+
+  selectTopic: db.prepare('SELECT id, name FROM topics WHERE id = ?'),
+
+  selectTopicAliases: db.prepare('SELECT alias FROM topic_aliases WHERE topic_id = ? ORDER BY alias'),
+
+  selectAllTopicAliases: db.prepare('SELECT alias, topic_id FROM topic_aliases ORDER BY alias'),
+
+  selectTopicSummaries: db.prepare(`
+    SELECT t.id, t.name, 
+      COUNT(*) as total, 
+      SUM(q.difficulty = 'Easy') as easy, 
+      SUM(q.difficulty = 'Medium') as medium, 
+      SUM(q.difficulty = 'Hard') as hard 
+    FROM topics t 
+    JOIN question_topics qt ON qt.topic_id = t.id 
+    JOIN questions q ON q.id = qt.question_id 
+    GROUP BY t.id 
+    ORDER BY total DESC, t.name
+  `),
+
+  selectQuestionTopicsByTopic: db.prepare(`
+    SELECT q.id, q.topics FROM questions q 
+    JOIN question_topics qt ON qt.question_id = q.id 
+    WHERE qt.topic_id = ?
+  `),
+
+  updateQuestionTopics: db.prepare('UPDATE questions SET topics = ? WHERE id = ?'),
+
+  moveTopicAliases: db.prepare('UPDATE topic_aliases SET topic_id = ? WHERE topic_id = ?'),
+
+  insertTopicAlias: db.prepare('INSERT INTO topic_aliases (alias, topic_id, created_at) VALUES (?, ?, ?)'),
+
+  deleteTopicAlias: db.prepare('DELETE FROM topic_aliases WHERE alias = ?'),
+
+  deleteTopic: db.prepare('DELETE FROM topics WHERE id = ?'),
+
+  selectSolutions: db.prepare('SELECT language, code FROM question_solutions WHERE question_id = ? ORDER BY language'),
+
+  upsertSolution: db.prepare(`
+    INSERT INTO question_solutions (question_id, language, code, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (question_id, language) DO UPDATE SET code = excluded.code, updated_at = excluded.updated_at
+  `),
+
+  deleteSolutions: db.prepare('DELETE FROM question_solutions WHERE question_id = ?'),
+
+  selectTestCases: db.prepare(`
+    SELECT id, args, expected, hidden, label FROM question_test_cases 
+    WHERE question_id = ? ORDER BY position, id
+  `),
+
+  selectTestCase: db.prepare('SELECT id, args, expected, hidden, label FROM question_test_cases WHERE id = ? AND question_id = ?'),
+
+  selectNextTestCasePosition: db.prepare(
+    'SELECT COALESCE(MAX(position) + 1, 0) AS position FROM question_test_cases WHERE question_id = ?'
+  ),
+
+  insertTestCase: db.prepare(`
+    INSERT INTO question_test_cases (question_id, position, args, expected, hidden, label, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  updateTestCase: db.prepare(`
+    UPDATE question_test_cases SET args = ?, expected = ?, hidden = ?, label = ?, updated_at = ?
+    WHERE id = ? AND question_id = ?
+  `),
+
+  deleteTestCase: db.prepare('DELETE FROM question_test_cases WHERE id = ? AND question_id = ?'),
+
+  deleteTestCases: db.prepare('DELETE FROM question_test_cases WHERE question_id = ?'),
+
+  selectHintReveals: db.prepare(`
+    SELECT hint_index FROM hint_reveals WHERE user_id = ? AND question_id = ? ORDER BY hint_index
+  `),
+
+  insertHintReveal: db.prepare(`
+    INSERT INTO hint_reveals (user_id, question_id, hint_index, revealed_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (user_id, question_id, hint_index) DO NOTHING
+  `),
+
+  selectReviewState: db.prepare('SELECT * FROM review_states WHERE user_id = ? AND question_id = ?'),
+
+  selectDueReviewStates: db.prepare(`
+    SELECT r.* FROM review_states r
+    JOIN questions q ON q.id = r.question_id
+    WHERE r.user_id = ? AND r.due_at <= ?
+    ORDER BY r.due_at ASC
+    LIMIT ?
+  `),
+
+  countReviewStates: db.prepare(`
+    SELECT COUNT(*) AS total, MIN(CASE WHEN due_at > @dueBy THEN due_at END) AS next_due_at 
+    FROM review_states WHERE user_id = @userId
+  `),
+
+  upsertReviewState: db.prepare(`
+    INSERT INTO review_states (user_id, question_id, ease_factor, interval_days, repetitions, last_rating, last_reviewed_at, due_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (user_id, question_id) DO UPDATE SET
+      ease_factor = excluded.ease_factor,
+      interval_days = excluded.interval_days,
+      repetitions = excluded.repetitions,
+      last_rating = excluded.last_rating,
+      last_reviewed_at = excluded.last_reviewed_at,
+      due_at = excluded.due_at
+  `),
+
+  deleteReviewState: db.prepare('DELETE FROM review_states WHERE user_id = ? AND question_id = ?'),
+
+  selectBookmark: db.prepare('SELECT 1 FROM bookmarks WHERE user_id = ? AND question_id = ?'),
+
+  insertBookmark: db.prepare(`
+    INSERT INTO bookmarks (user_id, question_id, created_at) VALUES (?, ?, ?)
+    ON CONFLICT (user_id, question_id) DO NOTHING
+  `),
+
+  deleteBookmark: db.prepare('DELETE FROM bookmarks WHERE user_id = ? AND question_id = ?'),
+
+  // One row per question with its submission counts, the basis of every progress breakdown
+  selectQuestionProgress: db.prepare(`
+    SELECT q.id, q.difficulty,
+      COUNT(s.id) AS submissions,
+      COALESCE(SUM(s.status = 'passed'), 0) AS passed_submissions,
+      EXISTS (SELECT 1 FROM bookmarks b WHERE b.question_id = q.id AND b.user_id = @userId) AS bookmarked
+    FROM questions q
+    LEFT JOIN submissions s ON s.question_id = q.id AND s.user_id = @userId
+    GROUP BY q.id
+  `),
+
+  selectQuestionTopicNames: db.prepare(`
+    SELECT qt.question_id, t.name FROM question_topics qt
+    JOIN topics t ON t.id = qt.topic_id
+  `),
+
+  selectActivityDays: db.prepare(`
+    SELECT substr(created_at, 1, 10) AS day, COUNT(*) AS submissions, SUM(status = 'passed') AS passed
+    FROM submissions
+    WHERE user_id = ? AND created_at >= ?
+    GROUP BY day
+  `),
+
+  selectAllActivityDays: db.prepare(`
+    SELECT DISTINCT substr(created_at, 1, 10) AS day FROM submissions WHERE user_id = ? ORDER BY day
+  `),
+
+  selectSubmissionHistory: db.prepare(`
+    SELECT s.id, s.question_id, q.title, q.difficulty, s.language, s.status, s.passed, s.total, s.created_at
+    FROM submissions s
+    JOIN questions q ON q.id = s.question_id
+    WHERE s.user_id = ?
+    ORDER BY s.created_at DESC
+    LIMIT ?
+  `),
+
+  insertSubmission: db.prepare(`
+    INSERT INTO submissions (id, question_id, user_id, language, code, status, passed, total, result, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  selectSubmission: db.prepare('SELECT * FROM submissions WHERE id = ?'),
+
+  selectSubmissionsByQuestion: db.prepare(`
+    SELECT * FROM submissions WHERE user_id = ? AND question_id = ? 
+    ORDER BY created_at DESC, rowid DESC 
+    LIMIT ?
+  `),
+
+  countUsers: db.prepare('SELECT COUNT(*) AS count FROM users'),
+
+  insertUser: db.prepare('INSERT INTO users (id, email, name, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?, ?)'),
+
+  selectUser: db.prepare('SELECT * FROM users WHERE id = ?'),
+
+  selectUsers: db.prepare('SELECT * FROM users ORDER BY created_at, rowid'),
+
+  updateUserRole: db.prepare('UPDATE users SET role = ? WHERE id = ?'),
+
+  countAdmins: db.prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'admin'"),
+
+  selectUserByEmail: db.prepare('SELECT * FROM users WHERE email = ?'),
+
+  insertSession: db.prepare('INSERT INTO sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)'),
+
+  selectSessionUser: db.prepare(`
+    SELECT u.* FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id = ? AND s.expires_at > ?
+  `),
+
+  deleteSession: db.prepare('DELETE FROM sessions WHERE id = ?'),
+
+  deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+
+  insertApiKey: db.prepare(`
+    INSERT INTO api_keys (id, user_id, name, key_hash, prefix, scopes, rate_limit, expires_at, created_at) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
+
+  selectApiKey: db.prepare('SELECT * FROM api_keys WHERE id = ?'),
+
+  selectApiKeys: db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC, rowid DESC'),
+
+  selectApiKeyByHash: db.prepare('SELECT * FROM api_keys WHERE key_hash = ? AND (expires_at IS NULL OR expires_at > ?)'),
+
+  touchApiKey: db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?'),
+
+  deleteApiKey: db.prepare('DELETE FROM api_keys WHERE id = ?'),
+
+  // Rows from before accounts existed have no owner; the first account adopts them
+  claimUnownedQuestions: db.prepare('UPDATE questions SET owner_id = ? WHERE owner_id IS NULL'),
+  claimUnownedJobs: db.prepare('UPDATE generation_jobs SET user_id = ? WHERE user_id IS NULL'),
+  claimUnownedConversations: db.prepare('UPDATE conversations SET user_id = ? WHERE user_id IS NULL'),
+  claimUnownedSubmissions: db.prepare('UPDATE submissions SET user_id = ? WHERE user_id IS NULL'),
+  claimUnownedHintReveals: db.prepare('UPDATE hint_reveals SET user_id = ? WHERE user_id IS NULL'),
+  claimUnownedReviewStates: db.prepare('UPDATE review_states SET user_id = ? WHERE user_id IS NULL'),
+  claimUnownedBookmarks: db.prepare('UPDATE bookmarks SET user_id = ? WHERE user_id IS NULL'),
 };
 
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+interface DatabaseGenerationJob {
+  id: string;
+  user_id: string | null;
+  status: string;
+  languages: string; // JSON string
+  on_duplicate: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DatabaseConversation {
+  id: string;
+  question_id: string;
+  user_id: string | null;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+interface DatabaseUser {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  role: string;
+  created_at: string;
+}
+
+interface DatabaseApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_hash: string;
+  prefix: string;
+  scopes: string; // JSON string
+  rate_limit: number | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+interface DatabaseMessage {
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  review: string | null; // JSON string
+  imported: number;
+  created_at: string;
+}
+
+interface DatabaseTopicSummary {
+  id: number;
+  name: string;
+  total: number;
+  easy: number;
+  medium: number;
+  hard: number;
+}
+
+interface DatabaseTestCase {
+  id: number;
+  args: string; // JSON string
+  expected: string; // JSON string
+  hidden: number;
+  label: string | null;
+}
+
+interface DatabaseSubmission {
+  id: string;
+  question_id: string;
+  language: string;
+  code: string;
+  status: string;
+  passed: number;
+  total: number;
+  result: string | null; // JSON string
+  created_at: string;
+}
+
+interface DatabaseReviewState {
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  last_rating: string | null;
+  last_reviewed_at: string | null;
+  due_at: string;
+}
+
+interface DatabaseQuestionProgress {
+  id: string;
+  difficulty: Question['difficulty'];
+  submissions: number;
+  passed_submissions: number;
+  bookmarked: number;
+}
+
+interface DatabaseHistoryEntry {
+  id: string;
+  question_id: string;
+  title: string;
+  difficulty: Question['difficulty'];
+  language: string;
+  status: string;
+  passed: number;
+  total: number;
+  created_at: string;
+}
+
+interface DatabaseGenerationJobItem {
+  job_id: string;
+  position: number;
+  title: string;
+  status: string;
+  action: string | null;
+  question_id: string | null;
+  error: string | null;
+  updated_at: string;
+}
+
 function convertDbToQuestion(row: DatabaseQuestion): Question {
   try {
     return {
@@ -95,8 +577,12 @@ function convertDbToQuestion(row: DatabaseQuestion): Question {
       description: row.description,
       example: JSON.parse(row.example),
       solution_python: row.solution_python,
+      solutions: getSolutions(row.id, row.solution_python),
+      test_cases: getTestCases(row.id),
       step_by_step_explanation: JSON.parse(row.step_by_step_explanation),
       pseudocode: row.pseudocode ? JSON.parse(row.pseudocode) : undefined,
+      hints: row.hints ? JSON.parse(row.hints) : [],
+      ...(row.owner_id ? { owner_id: row.owner_id } : {}),
       created_at: row.created_at,
       updated_at: row.updated_at || undefined,
     };
@@ -105,120 +591,1544 @@ function convertDbToQuestion(row: DatabaseQuestion): Question {
   }
 }
 
-export function saveQuestion(question: Question): void {
+function getSolutions(questionId: string, pythonSolution: string): Partial<Record<SupportedLanguage, string>> {
+  const rows = statements.selectSolutions.all(questionId) as { language: SupportedLanguage; code: string }[];
+  return rows.reduce<Partial<Record<SupportedLanguage, string>>>(
+    (solutions, row) => ({ ...solutions, [row.language]: row.code }),
+    { python: pythonSolution }
+  );
+}
+
+function convertDbToTestCase(row: DatabaseTestCase): TestCase {
+  return {
+    id: row.id,
+    args: JSON.parse(row.args),
+    expected: JSON.parse(row.expected),
+    hidden: row.hidden === 1,
+    ...(row.label ? { label: row.label } : {}),
+  };
+}
+
+function insertTestCase(questionId: string, testCase: TestCase, position: number, now: string): number {
+  const result = statements.insertTestCase.run(
+    questionId,
+    position,
+    JSON.stringify(testCase.args),
+    JSON.stringify(testCase.expected),
+    testCase.hidden ? 1 : 0,
+    testCase.label ?? null,
+    now,
+    now
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function saveQuestion(question: Question, source: Extract<RevisionSource, 'generation' | 'import'>): void {
   try {
     const now = new Date().toISOString();
-    statements.insert.run(
-      question.id,
-      question.title,
-      question.difficulty,
-      JSON.stringify(question.topics),
-      question.description,
-      JSON.stringify(question.example),
-      question.solution_python,
-      JSON.stringify(question.step_by_step_explanation),
-      question.pseudocode ? JSON.stringify(question.pseudocode) : null,
-      question.created_at,
-      now
-    );
+    db.transaction(() => {
+      statements.insert.run(
+        question.id,
+        question.title,
+        question.difficulty,
+        JSON.stringify(canonicalizeTopics(question.topics)),
+        question.description,
+        JSON.stringify(question.example),
+        question.solution_python,
+        JSON.stringify(question.step_by_step_explanation),
+        question.pseudocode ? JSON.stringify(question.pseudocode) : null,
+        question.hints ? JSON.stringify(question.hints) : null,
+        question.owner_id ?? null,
+        question.created_at,
+        now
+      );
+      saveQuestionDetails(question, now);
+      recordRevision(question, source, question.owner_id ?? null, null, now);
+    })();
   } catch (error) {
     throw new DatabaseError(`Failed to save question: ${getErrorMessage(error)}`);
   }
 }
 
-export function getQuestion(id: string): Question | null {
+// Overwrite an existing question's content in place; returns null if there is no such question
+export function updateQuestion(
+  question: Question,
+  source: Extract<RevisionSource, 'generation' | 'edit' | 'rollback'>,
+  authorId: string | null,
+  restoredFrom: number | null = null
+): Question | null {
   try {
-    if (!id || typeof id !== 'string') {
-      return null;
-    }
-    
-    const row = statements.selectById.get(id) as DatabaseQuestion | undefined;
-    return row ? convertDbToQuestion(row) : null;
+    const now = new Date().toISOString();
+    const changes = db.transaction(() => {
+      const result = statements.update.run(
+        question.title,
+        question.difficulty,
+        JSON.stringify(canonicalizeTopics(question.topics)),
+        question.description,
+        JSON.stringify(question.example),
+        question.solution_python,
+        JSON.stringify(question.step_by_step_explanation),
+        question.pseudocode ? JSON.stringify(question.pseudocode) : null,
+        question.hints ? JSON.stringify(question.hints) : null,
+        now,
+        question.id
+      );
+      if (result.changes > 0) {
+        saveQuestionDetails(question, now);
+        recordRevision(question, source, authorId, restoredFrom, now);
+      }
+      return result.changes;
+    })();
+
+    return changes > 0 ? getQuestion(question.id) : null;
   } catch (error) {
-    throw new DatabaseError(`Failed to get question: ${getErrorMessage(error)}`);
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Failed to update question: ${getErrorMessage(error)}`);
   }
 }
 
-export function getAllQuestions(): Question[] {
+function toQuestionContent(question: Question): QuestionContent {
+  return {
+    title: question.title,
+    difficulty: question.difficulty,
+    topics: canonicalizeTopics(question.topics),
+    description: question.description,
+    example: question.example,
+    solution_python: question.solution_python,
+    step_by_step_explanation: question.step_by_step_explanation,
+    pseudocode: question.pseudocode?.length ? question.pseudocode : null,
+    hints: question.hints?.length ? question.hints : null,
+  };
+}
+
+function parseQuestionContent(json: string): QuestionContent {
+  const content = JSON.parse(json) as QuestionContent;
+  return {
+    ...content,
+    pseudocode: content.pseudocode?.length ? content.pseudocode : null,
+    hints: content.hints?.length ? content.hints : null,
+  };
+}
+
+// Append the question's content to its history unless it matches the latest revision
+function recordRevision(
+  question: Question,
+  source: RevisionSource,
+  authorId: string | null,
+  restoredFrom: number | null,
+  now: string
+): void {
+  const content = JSON.stringify(toQuestionContent(question));
+  const latest = statements.selectLatestRevision.get(question.id) as { revision: number; content: string } | undefined;
+  if (latest && JSON.stringify(parseQuestionContent(latest.content)) === content) {
+    return;
+  }
+
+  statements.insertRevision.run(question.id, (latest?.revision ?? 0) + 1, content, source, authorId, restoredFrom, now);
+}
+
+// Replace the stored translations and test cases when the question carries them
+function saveQuestionDetails(question: Question, now: string): void {
+  if (question.solutions) {
+    statements.deleteSolutions.run(question.id);
+    for (const [language, code] of Object.entries(question.solutions)) {
+      if (language !== 'python' && code) {
+        statements.upsertSolution.run(question.id, language, code, now, now);
+      }
+    }
+  }
+
+  if (question.test_cases) {
+    statements.deleteTestCases.run(question.id);
+    question.test_cases.forEach((testCase, position) => insertTestCase(question.id, testCase, position, now));
+  }
+}
+
+// Store a solution in a non-Python language, replacing any previous version
+export function saveSolution(questionId: string, language: Exclude<SupportedLanguage, 'python'>, code: string): void {
   try {
-    const rows = statements.selectAll.all() as DatabaseQuestion[];
-    return rows.map(convertDbToQuestion);
+    const now = new Date().toISOString();
+    statements.upsertSolution.run(questionId, language, code, now, now);
   } catch (error) {
-    throw new DatabaseError(`Failed to get all questions: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to save solution: ${getErrorMessage(error)}`);
   }
 }
 
-export function getQuestionsByDifficulty(difficulty: 'Easy' | 'Medium' | 'Hard'): Question[] {
+export function getTestCases(questionId: string): TestCase[] {
   try {
-    const rows = statements.selectByDifficulty.all(difficulty) as DatabaseQuestion[];
-    return rows.map(convertDbToQuestion);
+    const rows = statements.selectTestCases.all(questionId) as DatabaseTestCase[];
+    return rows.map(convertDbToTestCase);
   } catch (error) {
-    throw new DatabaseError(`Failed to get questions by difficulty: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to get test cases: ${getErrorMessage(error)}`);
   }
 }
 
-export function searchQuestions(searchTerm: string): Question[] {
+// Replace every test case of a question, keeping the given order
+export function replaceTestCases(questionId: string, testCases: TestCase[]): TestCase[] {
   try {
-    if (!searchTerm || typeof searchTerm !== 'string') {
-      return [];
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      statements.deleteTestCases.run(questionId);
+      testCases.forEach((testCase, position) => insertTestCase(questionId, testCase, position, now));
+    })();
+    return getTestCases(questionId);
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
     }
-    
-    const term = `%${searchTerm.trim()}%`;
-    const rows = statements.search.all(term, term) as DatabaseQuestion[];
-    return rows.map(convertDbToQuestion);
+    throw new DatabaseError(`Failed to replace test cases: ${getErrorMessage(error)}`);
+  }
+}
+
+export function addTestCase(questionId: string, testCase: TestCase): TestCase {
+  try {
+    const { position } = statements.selectNextTestCasePosition.get(questionId) as { position: number };
+    const id = insertTestCase(questionId, testCase, position, new Date().toISOString());
+    return convertDbToTestCase(statements.selectTestCase.get(id, questionId) as DatabaseTestCase);
   } catch (error) {
-    throw new DatabaseError(`Failed to search questions: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to add test case: ${getErrorMessage(error)}`);
   }
 }
 
-export function getQuestionsByTopic(topic: string): Question[] {
+export function updateTestCase(questionId: string, caseId: number, testCase: TestCase): TestCase | null {
   try {
-    if (!topic || typeof topic !== 'string') {
-      return [];
+    const result = statements.updateTestCase.run(
+      JSON.stringify(testCase.args),
+      JSON.stringify(testCase.expected),
+      testCase.hidden ? 1 : 0,
+      testCase.label ?? null,
+      new Date().toISOString(),
+      caseId,
+      questionId
+    );
+    if (result.changes === 0) {
+      return null;
     }
-    
-    const topicPattern = `%"${topic}"%`;
-    const rows = statements.selectByTopic.all(topicPattern) as DatabaseQuestion[];
-    return rows.map(convertDbToQuestion);
+    return convertDbToTestCase(statements.selectTestCase.get(caseId, questionId) as DatabaseTestCase);
   } catch (error) {
-    throw new DatabaseError(`Failed to get questions by topic: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to update test case: ${getErrorMessage(error)}`);
   }
 }
 
-export function deleteQuestion(id: string): boolean {
+export function deleteTestCase(questionId: string, caseId: number): boolean {
+  try {
+    return statements.deleteTestCase.run(caseId, questionId).changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete test case: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getQuestion(id: string): Question | null {
   try {
     if (!id || typeof id !== 'string') {
-      return false;
+      return null;
     }
     
-    const result = statements.delete.run(id);
-    return result.changes > 0;
+    const row = statements.selectById.get(id) as DatabaseQuestion | undefined;
+    return row ? convertDbToQuestion(row) : null;
   } catch (error) {
-    throw new DatabaseError(`Failed to delete question: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to get question: ${getErrorMessage(error)}`);
   }
 }
 
-export function getQuestionCount(): number {
+interface DatabaseQuestionRevision {
+  id: number;
+  question_id: string;
+  revision: number;
+  content: string;
+  source: string;
+  author_id: string | null;
+  author_name: string | null;
+  restored_from: number | null;
+  created_at: string;
+}
+
+// Newest first, each listing the fields it changed
+export function getQuestionRevisions(questionId: string): QuestionRevision[] {
   try {
-    const result = statements.count.get() as { count: number };
-    return result.count;
+    const rows = statements.selectRevisions.all(questionId) as DatabaseQuestionRevision[];
+    let previous: QuestionContent | null = null;
+
+    const revisions = rows.map((row): QuestionRevision => {
+      const content = parseQuestionContent(row.content);
+      const changedFields = previous
+        ? diffQuestionContent(previous, content).map(change => change.field)
+        : [];
+      previous = content;
+
+      return {
+        id: row.id,
+        questionId: row.question_id,
+        revision: row.revision,
+        source: row.source as RevisionSource,
+        authorId: row.author_id,
+        authorName: row.author_name,
+        restoredFrom: row.restored_from,
+        changedFields,
+        created_at: row.created_at,
+      };
+    });
+
+    return revisions.reverse();
   } catch (error) {
-    throw new DatabaseError(`Failed to get question count: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to get question revisions: ${getErrorMessage(error)}`);
   }
 }
 
-export function getQuestionStats(): { total: number; byDifficulty: Record<string, number> } {
+// Content of one revision, or of the latest when no number is given
+export function getRevisionContent(questionId: string, revision?: number): { revision: number; content: QuestionContent } | null {
   try {
-    const total = getQuestionCount();
-    const byDifficulty = {
-      Easy: getQuestionsByDifficulty('Easy').length,
-      Medium: getQuestionsByDifficulty('Medium').length,
-      Hard: getQuestionsByDifficulty('Hard').length,
-    };
-    
-    return { total, byDifficulty };
+    if (revision === undefined) {
+      const latest = statements.selectLatestRevision.get(questionId) as { revision: number; content: string } | undefined;
+      return latest ? { revision: latest.revision, content: parseQuestionContent(latest.content) } : null;
+    }
+
+    const row = statements.selectRevisionContent.get(questionId, revision) as { content: string } | undefined;
+    return row ? { revision, content: parseQuestionContent(row.content) } : null;
   } catch (error) {
-    throw new DatabaseError(`Failed to get question stats: ${getErrorMessage(error)}`);
+    throw new DatabaseError(`Failed to get question revision: ${getErrorMessage(error)}`);
+  }
+}
+
+// Titles are unique; saving a question under a title that is taken fails
+export function getQuestionIdByTitle(title: string): string | null {
+  try {
+    const row = statements.selectIdByTitle.get(title) as { id: string } | undefined;
+    return row?.id ?? null;
+  } catch (error) {
+    throw new DatabaseError(`Failed to look up question title: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getAllQuestions(): Question[] {
+  try {
+    const rows = statements.selectAll.all() as DatabaseQuestion[];
+    return rows.map(convertDbToQuestion);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get all questions: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getQuestionsByDifficulty(difficulty: 'Easy' | 'Medium' | 'Hard'): Question[] {
+  try {
+    const rows = statements.selectByDifficulty.all(difficulty) as DatabaseQuestion[];
+    return rows.map(convertDbToQuestion);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get questions by difficulty: ${getErrorMessage(error)}`);
+  }
+}
+
+export const DEFAULT_SEARCH_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  topics: 5,
+  description: 3,
+  solution: 1,
+  explanation: 2,
+};
+
+const SEARCH_FIELDS = Object.keys(DEFAULT_SEARCH_WEIGHTS) as SearchField[];
+const SNIPPET_MARK_START = '\u0002';
+const SNIPPET_MARK_END = '\u0003';
+
+// Raw snippets of a search hit: the best-matching column overall and the columns shown before unlocking
+interface SearchSnippets {
+  rank: number;
+  snippet: string;
+  title_snippet: string;
+  topics_snippet: string;
+  description_snippet: string;
+}
+
+function quoteFtsTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+// Translate user input into an FTS5 query: "quoted phrases", prefix* terms and field:term filters.
+// Everything else is quoted so FTS5 operators in user input can't cause syntax errors.
+export function buildFtsQuery(input: string): string | null {
+  const terms: string[] = [];
+  const tokenPattern = /(?:(\w+):)?(?:"([^"]*)"|(\S+))/g;
+
+  for (const match of input.matchAll(tokenPattern)) {
+    const [, field, phrase, word] = match;
+    const column = field && SEARCH_FIELDS.includes(field.toLowerCase() as SearchField)
+      ? `${field.toLowerCase()} : `
+      : '';
+
+    if (phrase !== undefined) {
+      const text = phrase.trim();
+      if (text) {
+        terms.push(column + quoteFtsTerm(text));
+      }
+      continue;
+    }
+
+    const raw = field && !column ? `${field}:${word ?? ''}` : word ?? '';
+    const isPrefix = raw.endsWith('*');
+    const text = raw.replace(/\*+$/, '').replace(/"/g, '').trim();
+    if (text) {
+      terms.push(column + quoteFtsTerm(text) + (isPrefix ? '*' : ''));
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = new RegExp(`${SNIPPET_MARK_START}([^${SNIPPET_MARK_END}]*)${SNIPPET_MARK_END}`, 'g');
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, index), highlight: false });
+    }
+    segments.push({ text: match[1] ?? '', highlight: true });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlight: false });
+  }
+
+  return segments;
+}
+
+const SORT_COLUMNS: Record<Exclude<QuestionSortField, 'relevance'>, string> = {
+  created: 'q.created_at',
+  updated: "coalesce(q.updated_at, q.created_at)",
+  title: 'q.title COLLATE NOCASE',
+  difficulty: "CASE q.difficulty WHEN 'Easy' THEN 1 WHEN 'Medium' THEN 2 ELSE 3 END",
+};
+
+// Date-only upper bounds include the whole day
+function toRangeBound(value: string, endOfDay: boolean): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`;
+  }
+  return new Date(value).toISOString();
+}
+
+// Until the solution is unlocked, the snippet is cut from the title, topics or description only, so a
+// search cannot quote the solution or explanation back
+function pickSnippet(row: SearchSnippets, solutionUnlocked: boolean): string {
+  if (solutionUnlocked) {
+    return row.snippet;
+  }
+  return [row.description_snippet, row.title_snippet, row.topics_snippet]
+    .find(snippet => snippet.includes(SNIPPET_MARK_START)) ?? row.description_snippet;
+}
+
+// One page of questions as the user may see them
+export function queryQuestions(query: QuestionQuery, user: User | null): { questions: (QuestionView | QuestionView<QuestionSearchResult>)[]; total: number } {
+  try {
+    const where: string[] = [];
+    const params: Record<string, string | number> = {};
+    let source = 'questions q';
+    let searchColumns = '';
+
+    if (query.search) {
+      const ftsQuery = buildFtsQuery(query.search);
+      if (!ftsQuery) {
+        return { questions: [], total: 0 };
+      }
+      source = 'questions q JOIN questions_fts ON questions_fts.id = q.id';
+      where.push('questions_fts MATCH @query');
+      searchColumns = `,
+        bm25(questions_fts, 0, @title, @topics, @description, @solution, @explanation) AS rank,
+        snippet(questions_fts, -1, @markStart, @markEnd, '…', 16) AS snippet,
+        snippet(questions_fts, 1, @markStart, @markEnd, '…', 16) AS title_snippet,
+        snippet(questions_fts, 2, @markStart, @markEnd, '…', 16) AS topics_snippet,
+        snippet(questions_fts, 3, @markStart, @markEnd, '…', 16) AS description_snippet`;
+      Object.assign(params, DEFAULT_SEARCH_WEIGHTS, query.weights, {
+        query: ftsQuery,
+        markStart: SNIPPET_MARK_START,
+        markEnd: SNIPPET_MARK_END,
+      });
+    }
+
+    if (query.difficulty && query.difficulty.length > 0) {
+      const names = query.difficulty.map((difficulty, index) => {
+        params[`difficulty${index}`] = difficulty;
+        return `@difficulty${index}`;
+      });
+      where.push(`q.difficulty IN (${names.join(', ')})`);
+    }
+
+    // A question must carry every requested topic; aliases match their canonical topic
+    query.topics?.forEach((topic, index) => {
+      params[`topic${index}`] = topic;
+      where.push(`EXISTS (
+        SELECT 1 FROM question_topics qt JOIN topics t ON t.id = qt.topic_id 
+        WHERE qt.question_id = q.id 
+          AND (t.name = @topic${index} OR t.id IN (SELECT topic_id FROM topic_aliases WHERE alias = @topic${index}))
+      )`);
+    });
+
+    if (query.from) {
+      params.createdFrom = toRangeBound(query.from, false);
+      where.push('q.created_at >= @createdFrom');
+    }
+
+    if (query.to) {
+      params.createdTo = toRangeBound(query.to, true);
+      where.push('q.created_at <= @createdTo');
+    }
+
+    const whereClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+    const sort = query.sort === 'relevance' && !query.search ? 'created' : query.sort ?? (query.search ? 'relevance' : 'created');
+    const defaultOrder = sort === 'title' || sort === 'difficulty' || sort === 'relevance' ? 'asc' : 'desc';
+    const direction = (query.order ?? defaultOrder) === 'asc' ? 'ASC' : 'DESC';
+    const orderBy = sort === 'relevance'
+      ? `rank ${direction}, q.created_at DESC`
+      : `${SORT_COLUMNS[sort]} ${direction}, q.created_at DESC`;
+
+    const countRow = db.prepare(`SELECT COUNT(*) as count FROM ${source} ${whereClause}`).get(params) as { count: number };
+
+    const rows = db.prepare(`
+      SELECT q.*${searchColumns}
+      FROM ${source}
+      ${whereClause}
+      ORDER BY ${orderBy}, q.id DESC
+      LIMIT @limit OFFSET @offset
+    `).all({ ...params, limit: query.limit, offset: (query.page - 1) * query.limit }) as (DatabaseQuestion & Partial<SearchSnippets>)[];
+
+    const questions = rows.map(row => {
+      const question = convertDbToQuestion(row);
+      const solutionUnlocked = isSolutionUnlocked(question, user);
+      if (row.rank === undefined || row.snippet === undefined) {
+        return toQuestionView(question, user, solutionUnlocked);
+      }
+      const snippet = pickSnippet(row as SearchSnippets, solutionUnlocked);
+      return toQuestionView({ ...question, match: { rank: row.rank, snippet: parseSnippet(snippet) } }, user, solutionUnlocked);
+    });
+
+    return { questions, total: countRow.count };
+  } catch (error) {
+    throw new DatabaseError(`Failed to query questions: ${getErrorMessage(error)}`);
+  }
+}
+
+// Neighbours of a question in the default listing order (newest first)
+export function getQuestionNavigation(id: string): QuestionNavigation | null {
+  try {
+    const current = db.prepare('SELECT id, created_at FROM questions WHERE id = ?').get(id) as
+      | { id: string; created_at: string }
+      | undefined;
+    if (!current) {
+      return null;
+    }
+
+    const params = { id: current.id, createdAt: current.created_at };
+    const previous = db.prepare(`
+      SELECT id, title, difficulty FROM questions 
+      WHERE (created_at, id) > (@createdAt, @id) 
+      ORDER BY created_at ASC, id ASC 
+      LIMIT 1
+    `).get(params) as QuestionNavigation['previous'] | undefined;
+    const next = db.prepare(`
+      SELECT id, title, difficulty FROM questions 
+      WHERE (created_at, id) < (@createdAt, @id) 
+      ORDER BY created_at DESC, id DESC 
+      LIMIT 1
+    `).get(params) as QuestionNavigation['next'] | undefined;
+    const position = db.prepare(`
+      SELECT COUNT(*) as count FROM questions WHERE (created_at, id) > (@createdAt, @id)
+    `).get(params) as { count: number };
+
+    return {
+      previous: previous ?? null,
+      next: next ?? null,
+      position: position.count,
+      total: getQuestionCount(),
+    };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get question navigation: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getQuestionsByTopic(topic: string): Question[] {
+  try {
+    if (!topic || typeof topic !== 'string') {
+      return [];
+    }
+    
+    const rows = statements.selectByTopic.all({ topic: topic.trim() }) as DatabaseQuestion[];
+    return rows.map(convertDbToQuestion);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get questions by topic: ${getErrorMessage(error)}`);
+  }
+}
+
+// Map topic names and aliases to their canonical spelling, dropping duplicates
+function canonicalizeTopics(topics: string[]): string[] {
+  const seen = new Set<string>();
+  const canonical: string[] = [];
+
+  for (const topic of topics) {
+    const name = topic.trim();
+    if (!name) continue;
+
+    const resolved = statements.resolveTopic.get({ name }) as { id: number; name: string } | undefined;
+    const canonicalName = resolved?.name ?? name;
+    if (!seen.has(canonicalName.toLowerCase())) {
+      seen.add(canonicalName.toLowerCase());
+      canonical.push(canonicalName);
+    }
+  }
+
+  return canonical;
+}
+
+// Look up a topic by its name or one of its aliases
+export function findTopic(name: string): Topic | null {
+  try {
+    const row = statements.resolveTopic.get({ name: name.trim() }) as { id: number; name: string } | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const aliases = statements.selectTopicAliases.all(row.id) as { alias: string }[];
+    return { id: row.id, name: row.name, aliases: aliases.map(a => a.alias) };
+  } catch (error) {
+    throw new DatabaseError(`Failed to find topic: ${getErrorMessage(error)}`);
+  }
+}
+
+// Topics in use with question counts per difficulty, most used first
+export function getTopicSummaries(): TopicSummary[] {
+  try {
+    const rows = statements.selectTopicSummaries.all() as DatabaseTopicSummary[];
+    const aliasRows = statements.selectAllTopicAliases.all() as { alias: string; topic_id: number }[];
+
+    const aliasesByTopic = new Map<number, string[]>();
+    for (const row of aliasRows) {
+      aliasesByTopic.set(row.topic_id, [...(aliasesByTopic.get(row.topic_id) ?? []), row.alias]);
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      aliases: aliasesByTopic.get(row.id) ?? [],
+      total: row.total,
+      byDifficulty: { Easy: row.easy, Medium: row.medium, Hard: row.hard },
+    }));
+  } catch (error) {
+    throw new DatabaseError(`Failed to get topics: ${getErrorMessage(error)}`);
+  }
+}
+
+// Fold one topic into another: questions are retagged and the source name becomes an alias
+export function mergeTopics(sourceId: number, targetId: number): Topic | null {
+  try {
+    return db.transaction(() => {
+      const source = statements.selectTopic.get(sourceId) as { id: number; name: string } | undefined;
+      const target = statements.selectTopic.get(targetId) as { id: number; name: string } | undefined;
+      if (!source || !target) {
+        return null;
+      }
+
+      const rows = statements.selectQuestionTopicsByTopic.all(sourceId) as { id: string; topics: string }[];
+      for (const row of rows) {
+        const topics = (JSON.parse(row.topics) as string[]).map(topic =>
+          topic.trim().toLowerCase() === source.name.toLowerCase() ? target.name : topic
+        );
+        const unique = topics.filter((topic, index) =>
+          topics.findIndex(other => other.toLowerCase() === topic.toLowerCase()) === index
+        );
+        statements.updateQuestionTopics.run(JSON.stringify(unique), row.id);
+      }
+
+      statements.moveTopicAliases.run(targetId, sourceId);
+      statements.deleteTopic.run(sourceId);
+      statements.insertTopicAlias.run(source.name, targetId, new Date().toISOString());
+
+      return findTopic(target.name);
+    })();
+  } catch (error) {
+    throw new DatabaseError(`Failed to merge topics: ${getErrorMessage(error)}`);
+  }
+}
+
+export function addTopicAlias(alias: string, topicId: number): Topic | null {
+  try {
+    const topic = statements.selectTopic.get(topicId) as { id: number; name: string } | undefined;
+    if (!topic) {
+      return null;
+    }
+
+    statements.insertTopicAlias.run(alias.trim(), topicId, new Date().toISOString());
+    return findTopic(topic.name);
+  } catch (error) {
+    throw new DatabaseError(`Failed to add topic alias: ${getErrorMessage(error)}`);
+  }
+}
+
+export function removeTopicAlias(alias: string): boolean {
+  try {
+    return statements.deleteTopicAlias.run(alias.trim()).changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to remove topic alias: ${getErrorMessage(error)}`);
+  }
+}
+
+export function deleteQuestion(id: string): boolean {
+  try {
+    if (!id || typeof id !== 'string') {
+      return false;
+    }
+    
+    const result = db.transaction(() => {
+      statements.deleteMessagesByQuestion.run(id);
+      statements.deleteConversationsByQuestion.run(id);
+      return statements.delete.run(id);
+    })();
+    return result.changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete question: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getQuestionCount(): number {
+  try {
+    const result = statements.count.get() as { count: number };
+    return result.count;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get question count: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getQuestionStats(): { total: number; byDifficulty: Record<string, number> } {
+  try {
+    const total = getQuestionCount();
+    const byDifficulty = {
+      Easy: getQuestionsByDifficulty('Easy').length,
+      Medium: getQuestionsByDifficulty('Medium').length,
+      Hard: getQuestionsByDifficulty('Hard').length,
+    };
+    
+    return { total, byDifficulty };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get question stats: ${getErrorMessage(error)}`);
+  }
+}
+
+export function createGenerationJob(
+  id: string,
+  userId: string,
+  titles: string[],
+  languages: SupportedLanguage[] = [],
+  onDuplicate: DuplicateTitleAction = 'skip'
+): GenerationJob {
+  try {
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      statements.insertJob.run(id, userId, 'queued', JSON.stringify(languages), onDuplicate, now, now);
+      titles.forEach((title, position) => {
+        statements.insertJobItem.run(id, position, title, now);
+      });
+    })();
+
+    const job = getGenerationJob(id);
+    if (!job) {
+      throw new DatabaseError('Generation job was not persisted');
+    }
+    return job;
+  } catch (error) {
+    throw new DatabaseError(`Failed to create generation job: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getGenerationJob(id: string): GenerationJob | null {
+  try {
+    if (!id || typeof id !== 'string') {
+      return null;
+    }
+
+    const row = statements.selectJob.get(id) as DatabaseGenerationJob | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const itemRows = statements.selectJobItems.all(id) as DatabaseGenerationJobItem[];
+    const items: GenerationJobItem[] = itemRows.map(item => ({
+      position: item.position,
+      title: item.title,
+      status: item.status as GenerationItemStatus,
+      ...(item.action ? { action: item.action as GenerationItemAction } : {}),
+      ...(item.question_id ? { questionId: item.question_id } : {}),
+      ...(item.error ? { error: item.error } : {}),
+    }));
+
+    const failedItems = items.filter(item => item.status === 'failed');
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status as GenerationJobStatus,
+      items,
+      languages: JSON.parse(row.languages),
+      onDuplicate: row.on_duplicate as DuplicateTitleAction,
+      progress: {
+        total: items.length,
+        completed: items.filter(item => item.status === 'done').length,
+        failed: failedItems.length,
+        skipped: items.filter(item => item.action === 'skipped').length,
+        errors: failedItems.map(item => `Failed to generate "${item.title}": ${item.error || 'Unknown error'}`),
+      },
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get generation job: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getUnfinishedGenerationJobIds(): string[] {
+  try {
+    const rows = statements.selectUnfinishedJobIds.all() as { id: string }[];
+    return rows.map(row => row.id);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get unfinished generation jobs: ${getErrorMessage(error)}`);
+  }
+}
+
+export function updateGenerationJobStatus(id: string, status: GenerationJobStatus): void {
+  try {
+    statements.updateJobStatus.run(status, new Date().toISOString(), id);
+  } catch (error) {
+    throw new DatabaseError(`Failed to update generation job: ${getErrorMessage(error)}`);
+  }
+}
+
+export function updateGenerationJobItem(
+  jobId: string,
+  position: number,
+  update: { status: GenerationItemStatus; action?: GenerationItemAction; questionId?: string; error?: string }
+): void {
+  try {
+    statements.updateJobItem.run(
+      update.status,
+      update.action ?? null,
+      update.questionId ?? null,
+      update.error ?? null,
+      new Date().toISOString(),
+      jobId,
+      position
+    );
+  } catch (error) {
+    throw new DatabaseError(`Failed to update generation job item: ${getErrorMessage(error)}`);
+  }
+}
+
+// Take a job for this worker unless another worker holds it with a heartbeat newer than staleBefore.
+// A single UPDATE, so two processes can never both win the same job.
+export function claimGenerationJob(id: string, worker: string, staleBefore: string): boolean {
+  try {
+    const result = statements.claimJob.run({ id, worker, now: new Date().toISOString(), staleBefore });
+    return result.changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to claim generation job: ${getErrorMessage(error)}`);
+  }
+}
+
+// Returns false once the job has been taken over by another worker
+export function heartbeatGenerationJob(id: string, worker: string): boolean {
+  try {
+    return statements.heartbeatJob.run(new Date().toISOString(), id, worker).changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to update generation job heartbeat: ${getErrorMessage(error)}`);
+  }
+}
+
+export function releaseGenerationJob(id: string, worker: string): void {
+  try {
+    statements.releaseJob.run(id, worker);
+  } catch (error) {
+    throw new DatabaseError(`Failed to release generation job: ${getErrorMessage(error)}`);
+  }
+}
+
+// Items left running by a previous process are retried from scratch
+export function requeueRunningGenerationJobItems(jobId: string): void {
+  try {
+    statements.requeueRunningJobItems.run(new Date().toISOString(), jobId);
+  } catch (error) {
+    throw new DatabaseError(`Failed to requeue generation job items: ${getErrorMessage(error)}`);
+  }
+}
+
+function convertDbToConversation(row: DatabaseConversation): Conversation {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    userId: row.user_id,
+    title: row.title,
+    messageCount: row.message_count,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function convertDbToMessage(row: DatabaseMessage): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role as 'user' | 'assistant',
+    content: row.content,
+    timestamp: row.created_at,
+    ...(row.review ? { review: JSON.parse(row.review) as CodeReview } : {}),
+    ...(row.imported ? { imported: true } : {}),
+  };
+}
+
+export function createConversation(
+  questionId: string,
+  userId: string,
+  title?: string,
+  importedMessages: ImportedChatMessage[] = []
+): ConversationWithMessages {
+  try {
+    const id = generateConversationId();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      statements.insertConversation.run(id, questionId, userId, title?.trim() || DEFAULT_CONVERSATION_TITLE, now, now);
+      for (const message of importedMessages) {
+        statements.insertMessage.run(generateMessageId(), id, message.role, message.content, null, 1, now);
+      }
+    })();
+
+    const conversation = getConversation(id);
+    if (!conversation) {
+      throw new DatabaseError('Conversation was not persisted');
+    }
+    return conversation;
+  } catch (error) {
+    throw new DatabaseError(`Failed to create conversation: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getConversation(id: string): ConversationWithMessages | null {
+  try {
+    if (!id || typeof id !== 'string') {
+      return null;
+    }
+
+    const row = statements.selectConversation.get(id) as DatabaseConversation | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const messages = (statements.selectMessages.all(id) as DatabaseMessage[]).map(convertDbToMessage);
+    return { ...convertDbToConversation(row), messages };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get conversation: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getConversationsByQuestion(questionId: string, userId: string): Conversation[] {
+  try {
+    const rows = statements.selectConversationsByQuestion.all(questionId, userId) as DatabaseConversation[];
+    return rows.map(convertDbToConversation);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get conversations: ${getErrorMessage(error)}`);
+  }
+}
+
+export function renameConversation(id: string, title: string): boolean {
+  try {
+    const result = statements.updateConversationTitle.run(title.trim(), new Date().toISOString(), id);
+    return result.changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to rename conversation: ${getErrorMessage(error)}`);
+  }
+}
+
+export function deleteConversation(id: string): boolean {
+  try {
+    const result = db.transaction(() => {
+      statements.deleteMessagesByConversation.run(id);
+      return statements.deleteConversation.run(id);
+    })();
+    return result.changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete conversation: ${getErrorMessage(error)}`);
+  }
+}
+
+export function addConversationMessage(
+  conversationId: string,
+  role: ChatMessage['role'],
+  content: string,
+  review?: CodeReview
+): ChatMessage {
+  try {
+    const message: ChatMessage = {
+      id: generateMessageId(),
+      role,
+      content,
+      timestamp: new Date().toISOString(),
+      ...(review ? { review } : {}),
+    };
+
+    db.transaction(() => {
+      const conversation = statements.selectConversation.get(conversationId) as DatabaseConversation | undefined;
+      if (!conversation) {
+        throw new DatabaseError('Conversation not found');
+      }
+
+      statements.insertMessage.run(
+        message.id,
+        conversationId,
+        role,
+        content,
+        review ? JSON.stringify(review) : null,
+        0,
+        message.timestamp
+      );
+
+      // Name untitled threads after their first question
+      if (role === 'user' && conversation.message_count === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+        statements.updateConversationTitle.run(truncateText(content, 60), message.timestamp, conversationId);
+      } else {
+        statements.touchConversation.run(message.timestamp, conversationId);
+      }
+    })();
+
+    return message;
+  } catch (error) {
+    throw new DatabaseError(`Failed to add conversation message: ${getErrorMessage(error)}`);
+  }
+}
+
+function buildHintProgress(question: Question, revealedCount: number): HintProgress {
+  const hints = question.hints ?? [];
+  const solutionUnlocked = revealedCount >= hints.length;
+
+  return {
+    total: hints.length,
+    revealed: hints.slice(0, revealedCount),
+    solutionUnlocked,
+    ...(solutionUnlocked ? {
+      solution: {
+        solution_python: question.solution_python,
+        step_by_step_explanation: question.step_by_step_explanation,
+        ...(question.solutions ? { solutions: question.solutions } : {}),
+        ...(question.pseudocode ? { pseudocode: question.pseudocode } : {}),
+      },
+    } : {}),
+  };
+}
+
+// Signed-out visitors (userId null) see the ladder with nothing revealed
+export function getHintProgress(question: Question, userId: string | null): HintProgress {
+  try {
+    const hints = question.hints ?? [];
+    const rows = userId ? statements.selectHintReveals.all(userId, question.id) as { hint_index: number }[] : [];
+    return buildHintProgress(question, Math.min(rows.length, hints.length));
+  } catch (error) {
+    throw new DatabaseError(`Failed to get hint progress: ${getErrorMessage(error)}`);
+  }
+}
+
+// Record the next hint (or, with all = true, every remaining hint) as consumed
+export function revealHints(question: Question, userId: string, all: boolean = false): HintProgress {
+  try {
+    const hints = question.hints ?? [];
+    const now = new Date().toISOString();
+
+    const revealedCount = db.transaction(() => {
+      const revealed = (statements.selectHintReveals.all(userId, question.id) as { hint_index: number }[]).length;
+      const target = all ? hints.length : Math.min(revealed + 1, hints.length);
+      for (let index = revealed; index < target; index++) {
+        statements.insertHintReveal.run(userId, question.id, index, now);
+      }
+      return Math.max(revealed, target);
+    })();
+
+    return buildHintProgress(question, Math.min(revealedCount, hints.length));
+  } catch (error) {
+    throw new DatabaseError(`Failed to reveal hints: ${getErrorMessage(error)}`);
+  }
+}
+
+// Editors always have the solution; everyone else once they have revealed every hint
+export function isSolutionUnlocked(question: Question, user: User | null): boolean {
+  return hasRole(user, 'editor') || getHintProgress(question, user?.id ?? null).solutionUnlocked;
+}
+
+// The question as this caller may see it, with the locked fields only once their hint ladder is done
+export function getQuestionView<T extends Question>(question: T, user: User | null): QuestionView<T> {
+  return toQuestionView(question, user, getHintProgress(question, user?.id ?? null).solutionUnlocked);
+}
+
+function convertDbToSubmission(row: DatabaseSubmission): Submission {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    language: row.language as SupportedLanguage,
+    code: row.code,
+    status: row.status as SubmissionStatus,
+    passed: row.passed,
+    total: row.total,
+    ...(row.result ? { result: JSON.parse(row.result) as RunResult } : {}),
+    created_at: row.created_at,
+  };
+}
+
+// Store a practice attempt together with its run result, if it was checked
+export function createSubmission(
+  questionId: string,
+  userId: string,
+  language: SupportedLanguage,
+  code: string,
+  result: RunResult | null
+): Submission {
+  try {
+    const id = generateSubmissionId();
+    const passed = result ? result.cases.filter(testCase => testCase.status === 'passed').length : 0;
+
+    statements.insertSubmission.run(
+      id,
+      questionId,
+      userId,
+      language,
+      code,
+      result ? result.status : 'unchecked',
+      passed,
+      result ? result.cases.length : 0,
+      result ? JSON.stringify(result) : null,
+      new Date().toISOString()
+    );
+
+    return convertDbToSubmission(statements.selectSubmission.get(id) as DatabaseSubmission);
+  } catch (error) {
+    throw new DatabaseError(`Failed to create submission: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getSubmissionsByQuestion(questionId: string, userId: string, limit: number = 20): Submission[] {
+  try {
+    const rows = statements.selectSubmissionsByQuestion.all(userId, questionId, limit) as DatabaseSubmission[];
+    return rows.map(convertDbToSubmission);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get submissions: ${getErrorMessage(error)}`);
+  }
+}
+
+function convertDbToReviewState(row: DatabaseReviewState): ReviewState {
+  return {
+    questionId: row.question_id,
+    easeFactor: row.ease_factor,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lastRating: row.last_rating as ReviewRating | null,
+    lastReviewedAt: row.last_reviewed_at,
+    dueAt: row.due_at,
+  };
+}
+
+export function getReviewState(userId: string, questionId: string): ReviewState | null {
+  try {
+    const row = statements.selectReviewState.get(userId, questionId) as DatabaseReviewState | undefined;
+    return row ? convertDbToReviewState(row) : null;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get review state: ${getErrorMessage(error)}`);
+  }
+}
+
+// Apply a recall rating to the question's SM-2 schedule, creating it on the first rating
+export function recordReview(userId: string, questionId: string, rating: ReviewRating): ReviewState {
+  try {
+    const now = new Date();
+
+    return db.transaction(() => {
+      const previous = statements.selectReviewState.get(userId, questionId) as DatabaseReviewState | undefined;
+      const schedule = scheduleReview(
+        previous
+          ? { easeFactor: previous.ease_factor, intervalDays: previous.interval_days, repetitions: previous.repetitions }
+          : null,
+        rating,
+        now
+      );
+
+      statements.upsertReviewState.run(
+        userId,
+        questionId,
+        schedule.easeFactor,
+        schedule.intervalDays,
+        schedule.repetitions,
+        rating,
+        now.toISOString(),
+        schedule.dueAt
+      );
+
+      return convertDbToReviewState(statements.selectReviewState.get(userId, questionId) as DatabaseReviewState);
+    })();
+  } catch (error) {
+    throw new DatabaseError(`Failed to record review: ${getErrorMessage(error)}`);
+  }
+}
+
+export function deleteReviewState(userId: string, questionId: string): boolean {
+  try {
+    return statements.deleteReviewState.run(userId, questionId).changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete review state: ${getErrorMessage(error)}`);
+  }
+}
+
+// Questions due on or before the given time, most overdue first, as the user may see them
+export function getReviewQueue(user: User, dueBy: string, limit: number = 50): ReviewQueue {
+  try {
+    const rows = statements.selectDueReviewStates.all(user.id, dueBy, limit) as DatabaseReviewState[];
+    const due = rows.flatMap(row => {
+      const question = statements.selectById.get(row.question_id) as DatabaseQuestion | undefined;
+      return question ? [{ question: getQuestionView(convertDbToQuestion(question), user), state: convertDbToReviewState(row) }] : [];
+    });
+    const counts = statements.countReviewStates.get({ userId: user.id, dueBy }) as { total: number; next_due_at: string | null };
+
+    return {
+      due,
+      scheduled: counts.total,
+      nextDueAt: counts.next_due_at,
+    };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get review queue: ${getErrorMessage(error)}`);
+  }
+}
+
+export function isBookmarked(userId: string, questionId: string): boolean {
+  try {
+    return statements.selectBookmark.get(userId, questionId) !== undefined;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get bookmark: ${getErrorMessage(error)}`);
+  }
+}
+
+export function setBookmark(userId: string, questionId: string, bookmarked: boolean): void {
+  try {
+    if (bookmarked) {
+      statements.insertBookmark.run(userId, questionId, new Date().toISOString());
+    } else {
+      statements.deleteBookmark.run(userId, questionId);
+    }
+  } catch (error) {
+    throw new DatabaseError(`Failed to update bookmark: ${getErrorMessage(error)}`);
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEAKEST_TOPIC_COUNT = 5;
+
+function emptyProgressCounts(): ProgressCounts {
+  return { total: 0, attempted: 0, solved: 0, bookmarked: 0 };
+}
+
+function addProgress(counts: ProgressCounts, row: DatabaseQuestionProgress): void {
+  counts.total++;
+  if (row.submissions > 0) counts.attempted++;
+  if (row.passed_submissions > 0) counts.solved++;
+  if (row.bookmarked) counts.bookmarked++;
+}
+
+function toDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// Streaks count consecutive UTC days with at least one submission; today may still be empty
+function computeStreak(days: string[], today: string): ProgressStats['streak'] {
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+
+  for (const day of days) {
+    const time = Date.parse(day);
+    run = previous !== null && time - previous === DAY_MS ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  const last = days[days.length - 1];
+  const yesterday = toDay(Date.parse(today) - DAY_MS);
+  const current = last === today || last === yesterday ? run : 0;
+
+  return { current, longest, activeDays: days.length };
+}
+
+// The user's solved/attempted/bookmarked breakdowns, streaks and recent history over their submissions
+export function getProgressStats(userId: string, days: number = 90, historyLimit: number = 20): ProgressStats {
+  try {
+    const progressRows = statements.selectQuestionProgress.all({ userId }) as DatabaseQuestionProgress[];
+    const topicRows = statements.selectQuestionTopicNames.all() as { question_id: string; name: string }[];
+
+    const overall = emptyProgressCounts();
+    const byDifficulty: ProgressStats['byDifficulty'] = {
+      Easy: emptyProgressCounts(),
+      Medium: emptyProgressCounts(),
+      Hard: emptyProgressCounts(),
+    };
+    const progressById = new Map<string, DatabaseQuestionProgress>();
+
+    for (const row of progressRows) {
+      addProgress(overall, row);
+      addProgress(byDifficulty[row.difficulty], row);
+      progressById.set(row.id, row);
+    }
+
+    const topics = new Map<string, TopicProgress & { passedSubmissions: number }>();
+    for (const { question_id, name } of topicRows) {
+      const row = progressById.get(question_id);
+      if (!row) continue;
+
+      const topic = topics.get(name) ?? { topic: name, ...emptyProgressCounts(), submissions: 0, passRate: 0, passedSubmissions: 0 };
+      addProgress(topic, row);
+      topic.submissions += row.submissions;
+      topic.passedSubmissions += row.passed_submissions;
+      topics.set(name, topic);
+    }
+
+    const byTopic: TopicProgress[] = [...topics.values()]
+      .map(({ passedSubmissions, ...topic }) => ({
+        ...topic,
+        passRate: topic.submissions > 0 ? passedSubmissions / topic.submissions : 0,
+      }))
+      .sort((a, b) => b.total - a.total || a.topic.localeCompare(b.topic));
+
+    // Weakest: attempted topics with the lowest share of attempted questions solved, then the lowest pass rate
+    const weakestTopics = byTopic
+      .filter(topic => topic.attempted > 0)
+      .sort((a, b) =>
+        a.solved / a.attempted - b.solved / b.attempted ||
+        a.passRate - b.passRate ||
+        b.attempted - a.attempted
+      )
+      .slice(0, WEAKEST_TOPIC_COUNT);
+
+    const now = Date.now();
+    const today = toDay(now);
+    const since = toDay(now - (days - 1) * DAY_MS);
+    const activityRows = statements.selectActivityDays.all(userId, since) as { day: string; submissions: number; passed: number }[];
+    const activityByDay = new Map(activityRows.map(row => [row.day, row]));
+    const activity: ActivityDay[] = Array.from({ length: days }, (_, index) => {
+      const date = toDay(Date.parse(since) + index * DAY_MS);
+      const row = activityByDay.get(date);
+      return { date, submissions: row?.submissions ?? 0, passed: row?.passed ?? 0 };
+    });
+
+    const activeDays = (statements.selectAllActivityDays.all(userId) as { day: string }[]).map(row => row.day);
+
+    const historyRows = statements.selectSubmissionHistory.all(userId, historyLimit) as DatabaseHistoryEntry[];
+    const history: HistoryEntry[] = historyRows.map(row => ({
+      submissionId: row.id,
+      questionId: row.question_id,
+      questionTitle: row.title,
+      difficulty: row.difficulty,
+      language: row.language as SupportedLanguage,
+      status: row.status as SubmissionStatus,
+      passed: row.passed,
+      total: row.total,
+      created_at: row.created_at,
+    }));
+
+    return {
+      overall,
+      byDifficulty,
+      byTopic,
+      weakestTopics,
+      streak: computeStreak(activeDays, today),
+      activity,
+      history,
+    };
+  } catch (error) {
+    throw new DatabaseError(`Failed to get progress stats: ${getErrorMessage(error)}`);
+  }
+}
+
+function convertDbToUser(row: DatabaseUser): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role as UserRole,
+    created_at: row.created_at,
+  };
+}
+
+// Create an account; the very first account becomes the admin and adopts everything created before accounts existed
+export function createUser(email: string, name: string, passwordHash: string): User {
+  try {
+    const id = generateUserId();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      const { count } = statements.countUsers.get() as { count: number };
+      statements.insertUser.run(id, email, name, passwordHash, count === 0 ? 'admin' : 'viewer', now);
+
+      if (count === 0) {
+        statements.claimUnownedQuestions.run(id);
+        statements.claimUnownedJobs.run(id);
+        statements.claimUnownedConversations.run(id);
+        statements.claimUnownedSubmissions.run(id);
+        statements.claimUnownedHintReveals.run(id);
+        statements.claimUnownedReviewStates.run(id);
+        statements.claimUnownedBookmarks.run(id);
+      }
+    })();
+
+    return convertDbToUser(statements.selectUser.get(id) as DatabaseUser);
+  } catch (error) {
+    throw new DatabaseError(`Failed to create user: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getUser(id: string): User | null {
+  try {
+    const row = statements.selectUser.get(id) as DatabaseUser | undefined;
+    return row ? convertDbToUser(row) : null;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get user: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getUsers(): User[] {
+  try {
+    const rows = statements.selectUsers.all() as DatabaseUser[];
+    return rows.map(convertDbToUser);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get users: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getAdminCount(): number {
+  try {
+    const result = statements.countAdmins.get() as { count: number };
+    return result.count;
+  } catch (error) {
+    throw new DatabaseError(`Failed to count admins: ${getErrorMessage(error)}`);
+  }
+}
+
+export function updateUserRole(id: string, role: UserRole): User | null {
+  try {
+    const result = statements.updateUserRole.run(role, id);
+    return result.changes > 0 ? getUser(id) : null;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Failed to update user role: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getUserByEmail(email: string): { user: User; passwordHash: string } | null {
+  try {
+    const row = statements.selectUserByEmail.get(email) as DatabaseUser | undefined;
+    return row ? { user: convertDbToUser(row), passwordHash: row.password_hash } : null;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get user: ${getErrorMessage(error)}`);
+  }
+}
+
+export function createSession(tokenHash: string, userId: string, expiresAt: string): void {
+  try {
+    const now = new Date().toISOString();
+    statements.deleteExpiredSessions.run(now);
+    statements.insertSession.run(tokenHash, userId, now, expiresAt);
+  } catch (error) {
+    throw new DatabaseError(`Failed to create session: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getSessionUser(tokenHash: string): User | null {
+  try {
+    const row = statements.selectSessionUser.get(tokenHash, new Date().toISOString()) as DatabaseUser | undefined;
+    return row ? convertDbToUser(row) : null;
+  } catch (error) {
+    throw new DatabaseError(`Failed to get session: ${getErrorMessage(error)}`);
+  }
+}
+
+export function deleteSession(tokenHash: string): void {
+  try {
+    statements.deleteSession.run(tokenHash);
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete session: ${getErrorMessage(error)}`);
+  }
+}
+
+function convertDbToApiKey(row: DatabaseApiKey): ApiKey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+    rateLimit: row.rate_limit,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    created_at: row.created_at,
+  };
+}
+
+export function createApiKey(
+  keyHash: string,
+  prefix: string,
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  rateLimit: number | null,
+  expiresAt: string | null
+): ApiKey {
+  try {
+    const id = generateApiKeyId();
+    statements.insertApiKey.run(id, userId, name, keyHash, prefix, JSON.stringify(scopes), rateLimit, expiresAt, new Date().toISOString());
+    return convertDbToApiKey(statements.selectApiKey.get(id) as DatabaseApiKey);
+  } catch (error) {
+    throw new DatabaseError(`Failed to create API key: ${getErrorMessage(error)}`);
+  }
+}
+
+export function getApiKeys(): ApiKey[] {
+  try {
+    const rows = statements.selectApiKeys.all() as DatabaseApiKey[];
+    return rows.map(convertDbToApiKey);
+  } catch (error) {
+    throw new DatabaseError(`Failed to get API keys: ${getErrorMessage(error)}`);
+  }
+}
+
+// The unexpired key with this hash and the account it acts as; records the use
+export function authenticateApiKey(keyHash: string): { apiKey: ApiKey; user: User } | null {
+  try {
+    const now = new Date().toISOString();
+    const row = statements.selectApiKeyByHash.get(keyHash, now) as DatabaseApiKey | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const userRow = statements.selectUser.get(row.user_id) as DatabaseUser | undefined;
+    if (!userRow) {
+      return null;
+    }
+
+    statements.touchApiKey.run(now, row.id);
+    return { apiKey: convertDbToApiKey({ ...row, last_used_at: now }), user: convertDbToUser(userRow) };
+  } catch (error) {
+    throw new DatabaseError(`Failed to check API key: ${getErrorMessage(error)}`);
+  }
+}
+
+export function deleteApiKey(id: string): boolean {
+  try {
+    const result = statements.deleteApiKey.run(id);
+    return result.changes > 0;
+  } catch (error) {
+    throw new DatabaseError(`Failed to delete API key: ${getErrorMessage(error)}`);
   }
 }
 
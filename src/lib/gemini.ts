@@ -1,39 +1,32 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Question, ChatMessage, GeminiError } from './types';
+import {
+  Question,
+  ChatMessage,
+  GeminiError,
+  SupportedLanguage,
+  LANGUAGE_LABELS,
+  TestCase,
+  TestCaseSchema,
+  CodeReview,
+  CodeReviewSchema,
+  RunResult,
+} from './types';
+import { getLLMProvider, LLMRequest } from './llm';
 import { retry, getErrorMessage } from './utils';
 
-function initializeGemini() {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
-  }
-
-  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  return genAI.getGenerativeModel({ 
-    model: 'gemini-pro',
-    generationConfig: {
-      temperature: 0.7,
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 2048,
-    },
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_HARASSMENT' as any,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as any,
-      },
-      {
-        category: 'HARM_CATEGORY_HATE_SPEECH' as any,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as any,
-      },
-    ],
-  });
-}
-
-export async function generateQuestionMetadata(title: string): Promise<Omit<Question, 'id' | 'created_at' | 'updated_at'>> {
+export async function generateQuestionMetadata(
+  title: string,
+  languages: SupportedLanguage[] = []
+): Promise<Omit<Question, 'id' | 'created_at' | 'updated_at'>> {
   if (!title || title.trim().length === 0) {
     throw new GeminiError('Title cannot be empty');
   }
 
+  // Python is always generated as solution_python; other languages go in "solutions"
+  const extraLanguages = languages.filter(language => language !== 'python');
+  const solutionsField = extraLanguages.length > 0
+    ? `\n  "solutions": {${extraLanguages.map(language => `\n    "${language}": "complete, executable ${LANGUAGE_LABELS[language]} solution implementing the same approach"`).join(',')}\n  },`
+    : '';
+
   const prompt = `
 Generate comprehensive metadata for a coding problem with the title: "${title.trim()}"
 
@@ -48,7 +41,11 @@ Please provide a JSON response with the following structure:
     "output": "expected output with proper formatting", 
     "explanation": "detailed explanation of why this output is correct"
   },
-  "solution_python": "complete, executable Python solution with proper formatting and comments",
+  "solution_python": "complete, executable Python solution with proper formatting and comments",${solutionsField}
+  "test_cases": [
+    { "args": { "param_name": "JSON value" }, "expected": "JSON value returned by the solution", "hidden": false, "label": "short case name, e.g. Empty input" }
+  ],
+  "hints": ["gentle nudge", "more specific hint", ..., "explicit pointer at the approach"],
   "step_by_step_explanation": ["step 1 explanation", "step 2 explanation", ...],
   "pseudocode": ["pseudocode line 1", "pseudocode line 2", ...]
 }
@@ -63,41 +60,26 @@ Requirements:
 - Provide at least 3-5 step-by-step explanations
 - Include time and space complexity analysis in explanations
 - Ensure the solution handles edge cases
+- Provide 5-8 test_cases whose "args" keys match the solution's parameter names and whose values are plain JSON
+- Cover typical inputs and edge cases (empty input, single element, duplicates, limits); mark 1-3 cases as "hidden"
+- Provide 3-5 hints ordered from a gentle nudge to an explicit description of the approach, without giving away code
 
 Return ONLY the JSON object, no additional text.
   `;
 
   try {
-    const model = initializeGemini();
-    const result = await retry(async () => {
-      const response = await model.generateContent(prompt);
-      const text = response.response.text();
-      
-      if (!text) {
-        throw new GeminiError('Empty response from Gemini API');
-      }
-      
-      return text;
-    }, 3, 1000);
-    
-    // Clean up the response to extract JSON
-    const cleanedText = result.trim();
-    let jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+    const provider = getLLMProvider();
+    const response = await retry(() => provider.generateJSON({
+      task: 'question_metadata',
+      prompt,
+      input: { title: title.trim(), languages: extraLanguages.join(',') },
+    }), 3, 1000);
     
-    if (!jsonMatch) {
-      // Try to find JSON between code blocks
-      const codeBlockMatch = cleanedText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      if (codeBlockMatch && codeBlockMatch[1]) {
-        jsonMatch = [codeBlockMatch[1]];
-      }
-    }
-    
-    if (!jsonMatch) {
-      console.error('Invalid response format:', cleanedText);
-      throw new GeminiError('Invalid response format from Gemini API');
+    if (!response || typeof response !== 'object') {
+      throw new GeminiError('Invalid response format from AI provider');
     }
     
-    const parsedResponse = JSON.parse(jsonMatch[0]);
+    const parsedResponse = response as any;
     
     // Validate the response structure
     if (!parsedResponse.title || !parsedResponse.difficulty || !parsedResponse.description) {
@@ -112,6 +94,33 @@ Return ONLY the JSON object, no additional text.
     parsedResponse.pseudocode = Array.isArray(parsedResponse.pseudocode) 
       ? parsedResponse.pseudocode 
       : undefined;
+
+    // Keep only the requested languages that came back as code
+    const solutions: Partial<Record<SupportedLanguage, string>> = { python: parsedResponse.solution_python };
+    for (const language of extraLanguages) {
+      const code = parsedResponse.solutions?.[language];
+      if (typeof code === 'string' && code.trim().length > 0) {
+        solutions[language] = code;
+      }
+    }
+    parsedResponse.solutions = solutions;
+
+    // Drop malformed test cases rather than failing the whole question
+    const testCases: TestCase[] = [];
+    for (const candidate of Array.isArray(parsedResponse.test_cases) ? parsedResponse.test_cases : []) {
+      const result = TestCaseSchema.safeParse(candidate);
+      if (result.success) {
+        testCases.push(result.data);
+      }
+    }
+    parsedResponse.test_cases = testCases.slice(0, 30);
+
+    parsedResponse.hints = Array.isArray(parsedResponse.hints)
+      ? parsedResponse.hints
+          .filter((hint: unknown): hint is string => typeof hint === 'string' && hint.trim().length > 0)
+          .map((hint: string) => hint.trim().slice(0, 500))
+          .slice(0, 10)
+      : [];
     
     return parsedResponse;
   } catch (error) {
@@ -126,11 +135,67 @@ Return ONLY the JSON object, no additional text.
   }
 }
 
-export async function generateChatResponse(
+// Strip a surrounding markdown code fence from a model response
+function extractCode(text: string): string {
+  const fenced = text.match(/```[\w+#-]*\s*\n([\s\S]*?)```/);
+  return (fenced && fenced[1] ? fenced[1] : text).trim();
+}
+
+export async function translateSolution(question: Question, language: SupportedLanguage): Promise<string> {
+  const prompt = `
+Translate the following Python solution to ${LANGUAGE_LABELS[language]}.
+
+Problem: ${question.title}
+Description: ${question.description}
+
+Python solution:
+${question.solution_python}
+
+Requirements:
+- Keep the same algorithm, structure and time/space complexity
+- Use idiomatic ${LANGUAGE_LABELS[language]} and its standard library only
+- Keep the explanatory comments, translated to fit the new code
+- The code must be complete and compile or run as-is
+
+Return ONLY the ${LANGUAGE_LABELS[language]} code, no additional text.
+  `;
+
+  try {
+    const provider = getLLMProvider();
+    const code = await retry(async () => {
+      const text = extractCode(await provider.generateText({
+        task: 'solution_translation',
+        prompt,
+        input: { questionTitle: question.title, language },
+      }));
+
+      if (!text) {
+        throw new GeminiError('Empty response from AI provider');
+      }
+
+      return text;
+    }, 3, 1000);
+
+    return `${code}\n`;
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    console.error('Error translating solution:', errorMessage);
+
+    if (error instanceof GeminiError) {
+      throw error;
+    }
+
+    throw new GeminiError(`Failed to translate solution: ${errorMessage}`);
+  }
+}
+
+// While the solution is locked for the student, the tutor is not given it and is told not to write one
+function buildChatRequest(
   question: Question, 
   userMessage: string, 
-  chatHistory: ChatMessage[]
-): Promise<string> {
+  chatHistory: ChatMessage[],
+  solutionUnlocked: boolean
+): LLMRequest {
   if (!userMessage || userMessage.trim().length === 0) {
     throw new GeminiError('Message cannot be empty');
   }
@@ -152,7 +217,9 @@ Question Context:
 - Difficulty: ${question.difficulty}
 - Topics: ${question.topics.join(', ')}
 - Description: ${question.description}
-- Solution: ${question.solution_python}
+${solutionUnlocked
+  ? `- Solution: ${question.solution_python}`
+  : '- Solution: locked, the student has not worked through the hints yet'}
 
 Previous conversation:
 ${historyContext}
@@ -160,7 +227,7 @@ ${historyContext}
 Current user question: ${userMessage.trim()}
 
 Please provide a helpful, educational response. You can:
-- Explain the solution in different ways
+${solutionUnlocked ? '- Explain the solution in different ways' : '- Guide the student towards an approach with questions'}
 - Provide alternative approaches or optimizations
 - Clarify programming concepts
 - Help debug code issues
@@ -173,19 +240,34 @@ Guidelines:
 - Use clear, beginner-friendly language
 - Include code examples when helpful
 - Be encouraging and supportive
-- Focus on learning and understanding
+- Focus on learning and understanding${solutionUnlocked ? '' : `
+- Do not write out a complete solution or its code, even if asked; point the student to the hints instead`}
 
 Response:
   `;
 
+  return {
+    task: 'chat_response',
+    prompt,
+    input: { questionTitle: question.title, message: userMessage.trim() },
+  };
+}
+
+export async function generateChatResponse(
+  question: Question, 
+  userMessage: string, 
+  chatHistory: ChatMessage[],
+  solutionUnlocked: boolean
+): Promise<string> {
+  const request = buildChatRequest(question, userMessage, chatHistory, solutionUnlocked);
+
   try {
-    const model = initializeGemini();
+    const provider = getLLMProvider();
     const result = await retry(async () => {
-      const response = await model.generateContent(prompt);
-      const text = response.response.text();
+      const text = await provider.generateText(request);
       
       if (!text) {
-        throw new GeminiError('Empty response from Gemini API');
+        throw new GeminiError('Empty response from AI provider');
       }
       
       return text.trim();
@@ -204,16 +286,131 @@ Response:
   }
 }
 
-export async function validateGeminiApiKey(): Promise<boolean> {
+export async function* streamChatResponse(
+  question: Question,
+  userMessage: string,
+  chatHistory: ChatMessage[],
+  solutionUnlocked: boolean,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const request = buildChatRequest(question, userMessage, chatHistory, solutionUnlocked);
+
   try {
-    if (!process.env.GEMINI_API_KEY) {
-      return false;
+    yield* getLLMProvider().streamText(request, signal);
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    console.error('Error streaming chat response:', errorMessage);
+    
+    if (error instanceof GeminiError) {
+      throw error;
     }
-    const model = initializeGemini();
-    const testPrompt = 'Respond with "API key is valid" if you can read this message.';
-    const result = await model.generateContent(testPrompt);
-    const response = result.response.text();
-    return response.toLowerCase().includes('api key is valid');
+    
+    throw new GeminiError(`Failed to stream chat response: ${errorMessage}`);
+  }
+}
+
+// Review a user's own solution against the question and reference, grounded in local test results when available
+export async function reviewSolution(
+  question: Question,
+  code: string,
+  language: SupportedLanguage,
+  run: RunResult | null = null
+): Promise<CodeReview> {
+  const passedCount = run ? run.cases.filter(testCase => testCase.status === 'passed').length : 0;
+  const failingCases = run
+    ? run.cases
+        .filter(testCase => testCase.status !== 'passed' && testCase.status !== 'ran')
+        .map(testCase => testCase.expected !== undefined
+          ? `${testCase.name}: input ${testCase.input}, expected ${testCase.expected}, got ${testCase.output ?? testCase.status}`
+          : `${testCase.name}: ${testCase.status}`)
+    : [];
+  const testContext = run
+    ? `Local test results: ${passedCount}/${run.cases.length} passed.\n${failingCases.join('\n')}`
+    : 'The code was not run against test cases.';
+
+  const prompt = `
+You are an experienced coding interviewer reviewing a student's solution.
+
+Problem: ${question.title}
+Difficulty: ${question.difficulty}
+Description: ${question.description}
+
+Reference Python solution:
+${question.solution_python}
+
+Student's ${LANGUAGE_LABELS[language]} solution:
+${code}
+
+${testContext}
+
+Please provide a JSON response with the following structure:
+{
+  "verdict": "correct|partially_correct|incorrect",
+  "summary": "two or three sentences on the overall quality of the solution",
+  "correctness": ["specific correctness concern", ...],
+  "complexity": { "time": "O(...)", "space": "O(...)", "notes": "comparison with the reference solution" },
+  "style": ["readability or idiom issue", ...],
+  "edgeCases": [{ "case": "input that breaks or stresses the code", "issue": "what goes wrong" }, ...],
+  "suggestions": ["concrete improvement", ...]
+}
+
+Requirements:
+- Judge the student's code, not the reference solution
+- Treat failing local tests as confirmed bugs and explain their cause
+- Keep every item short and actionable; use empty arrays when there is nothing to report
+- Do not rewrite the whole solution
+
+Return ONLY the JSON object, no additional text.
+  `;
+
+  try {
+    const provider = getLLMProvider();
+    const review = await retry(async () => {
+      const response = await provider.generateJSON({
+        task: 'code_review',
+        prompt,
+        input: {
+          questionTitle: question.title,
+          language,
+          code,
+          failingCases: failingCases.join('\n'),
+        },
+      });
+
+      const parsed = CodeReviewSchema.safeParse(response);
+      if (!parsed.success) {
+        throw new GeminiError('Invalid review format from AI provider');
+      }
+      return parsed.data;
+    }, 3, 1000);
+
+    return {
+      ...review,
+      ...(run
+        ? {
+            tests: {
+              status: run.status,
+              passed: passedCount,
+              total: run.cases.length,
+            },
+          }
+        : {}),
+    };
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    console.error('Error reviewing solution:', errorMessage);
+
+    if (error instanceof GeminiError) {
+      throw error;
+    }
+
+    throw new GeminiError(`Failed to review solution: ${errorMessage}`);
+  }
+}
+
+export async function validateAIProvider(): Promise<boolean> {
+  try {
+    return await getLLMProvider().healthCheck();
   } catch {
     return false;
   }
@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { generateQuestionMetadata } from './gemini';
+import {
+  saveQuestion,
+  updateQuestion,
+  getQuestion,
+  getQuestionIdByTitle,
+  createGenerationJob,
+  getGenerationJob,
+  getUnfinishedGenerationJobIds,
+  updateGenerationJobStatus,
+  updateGenerationJobItem,
+  requeueRunningGenerationJobItems,
+  claimGenerationJob,
+  heartbeatGenerationJob,
+  releaseGenerationJob,
+} from './database';
+import {
+  Question,
+  GenerationJob,
+  GenerationJobItem,
+  GenerationItemAction,
+  DuplicateTitleAction,
+  SupportedLanguage,
+  MAX_TITLE_LENGTH,
+} from './types';
+import { validateAndSanitizeTitle } from './validation';
+import { generateId, generateJobId, getErrorMessage, sleep } from './utils';
+
+const MAX_CONCURRENT_GENERATIONS = 3;
+const GENERATION_DELAY = 1000; // 1 second between generations
+
+const HEARTBEAT_INTERVAL = 15 * 1000;
+// A job whose worker has been silent this long is taken over by another process
+const HEARTBEAT_TIMEOUT = 60 * 1000;
+
+// Jobs currently being processed by this server process, and the id it claims jobs under. Kept on
+// globalThis because Next.js may load this module once per route bundle.
+const globalForJobs = globalThis as typeof globalThis & {
+  activeGenerationJobs?: Set<string>;
+  generationWorkerId?: string;
+  generationJobSweep?: NodeJS.Timeout;
+};
+const activeJobs = globalForJobs.activeGenerationJobs ?? new Set<string>();
+globalForJobs.activeGenerationJobs = activeJobs;
+const workerId = globalForJobs.generationWorkerId ?? `${os.hostname()}:${process.pid}:${randomUUID()}`;
+globalForJobs.generationWorkerId = workerId;
+
+// "Title (2)", "Title (3)", ... whichever is free first, shortening the title to make room if needed
+function getVariantTitle(title: string): string {
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`;
+    const candidate = `${title.slice(0, MAX_TITLE_LENGTH - suffix.length).trimEnd()}${suffix}`;
+    if (!getQuestionIdByTitle(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+// Store a generated question according to the job's duplicate-title choice
+function storeGeneratedQuestion(job: GenerationJob, question: Question): { action: GenerationItemAction; questionId: string } {
+  // Looked up again after generation, since another item may have taken the title in the meantime
+  const existing = getQuestionIdByTitle(question.title);
+  if (!existing) {
+    saveQuestion(question, 'generation');
+    return { action: 'created', questionId: question.id };
+  }
+
+  if (job.onDuplicate === 'skip') {
+    return { action: 'skipped', questionId: existing };
+  }
+
+  if (job.onDuplicate === 'update') {
+    const current = getQuestion(existing);
+    // Keep the id, owner and creation time so links, chats and progress stay attached. The old
+    // translations were of the old solution, so they go; test cases stay unless new ones were generated.
+    const updated = current && updateQuestion({
+      ...question,
+      id: current.id,
+      created_at: current.created_at,
+      ...(current.owner_id ? { owner_id: current.owner_id } : {}),
+      solutions: question.solutions ?? {},
+    }, 'generation', job.userId);
+    if (!updated) {
+      throw new Error('The existing question could not be updated');
+    }
+    return { action: 'updated', questionId: updated.id };
+  }
+
+  const variant = { ...question, title: getVariantTitle(question.title) };
+  saveQuestion(variant, 'generation');
+  return { action: 'variant', questionId: variant.id };
+}
+
+async function generateItem(job: GenerationJob, item: GenerationJobItem): Promise<void> {
+  const jobId = job.id;
+  updateGenerationJobItem(jobId, item.position, { status: 'running' });
+
+  try {
+    // Validate and sanitize title
+    const sanitizedTitle = validateAndSanitizeTitle(item.title);
+
+    // No need to spend a generation on a title that will be skipped
+    const existing = getQuestionIdByTitle(sanitizedTitle);
+    if (existing && job.onDuplicate === 'skip') {
+      updateGenerationJobItem(jobId, item.position, { status: 'done', action: 'skipped', questionId: existing });
+      return;
+    }
+
+    const metadata = await generateQuestionMetadata(sanitizedTitle, job.languages);
+
+    const question: Question = {
+      id: generateId(),
+      ...metadata,
+      title: sanitizedTitle, // Use sanitized title
+      ...(job.userId ? { owner_id: job.userId } : {}),
+      created_at: new Date().toISOString(),
+    };
+
+    // Validate generated question before saving
+    if (!question.title || !question.description || !question.solution_python) {
+      throw new Error('Generated question is incomplete');
+    }
+
+    const { action, questionId } = storeGeneratedQuestion(job, question);
+    updateGenerationJobItem(jobId, item.position, { status: 'done', action, questionId });
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    console.error(`Error generating question for "${item.title}":`, errorMessage);
+    updateGenerationJobItem(jobId, item.position, { status: 'failed', error: errorMessage });
+  }
+}
+
+async function processJob(jobId: string): Promise<void> {
+  if (activeJobs.has(jobId)) {
+    return;
+  }
+  activeJobs.add(jobId);
+
+  let claimed = false;
+  let lost = false;
+  const heartbeat = setInterval(() => {
+    try {
+      lost = !heartbeatGenerationJob(jobId, workerId);
+    } catch (error) {
+      console.error(`Generation job ${jobId} heartbeat failed:`, getErrorMessage(error));
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  try {
+    // Several processes may share the database; only the one holding the claim works on the job
+    claimed = claimGenerationJob(jobId, workerId, new Date(Date.now() - HEARTBEAT_TIMEOUT).toISOString());
+    if (!claimed) {
+      return;
+    }
+
+    requeueRunningGenerationJobItems(jobId);
+    updateGenerationJobStatus(jobId, 'running');
+
+    const job = getGenerationJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    const pending = job.items.filter(item => item.status === 'queued');
+
+    // Process titles in batches to avoid overwhelming the API
+    for (let i = 0; i < pending.length; i += MAX_CONCURRENT_GENERATIONS) {
+      // Another process took the job over after missed heartbeats; leave the rest to it
+      if (lost) {
+        return;
+      }
+
+      const batch = pending.slice(i, i + MAX_CONCURRENT_GENERATIONS);
+
+      await Promise.all(batch.map(async (item, batchIndex) => {
+        // Add delay between requests to respect rate limits
+        if (batchIndex > 0) {
+          await sleep(GENERATION_DELAY);
+        }
+        await generateItem(job, item);
+      }));
+
+      // Add delay between batches
+      if (i + MAX_CONCURRENT_GENERATIONS < pending.length) {
+        await sleep(GENERATION_DELAY * 2);
+      }
+    }
+
+    const finished = getGenerationJob(jobId);
+    const anyDone = finished?.items.some(item => item.status === 'done') ?? false;
+    updateGenerationJobStatus(jobId, anyDone ? 'completed' : 'failed');
+  } catch (error) {
+    console.error(`Generation job ${jobId} failed:`, getErrorMessage(error));
+    if (claimed && !lost) {
+      updateGenerationJobStatus(jobId, 'failed');
+    }
+  } finally {
+    clearInterval(heartbeat);
+    if (claimed) {
+      try {
+        releaseGenerationJob(jobId, workerId);
+      } catch (error) {
+        console.error(`Failed to release generation job ${jobId}:`, getErrorMessage(error));
+      }
+    }
+    activeJobs.delete(jobId);
+  }
+}
+
+export function startGenerationJob(
+  userId: string,
+  titles: string[],
+  languages: SupportedLanguage[] = [],
+  onDuplicate: DuplicateTitleAction = 'skip'
+): GenerationJob {
+  const job = createGenerationJob(generateJobId(), userId, titles, languages, onDuplicate);
+
+  // Intentionally not awaited: the job runs in the background and is polled for progress
+  void processJob(job.id);
+
+  return job;
+}
+
+// Pick up jobs interrupted by a server restart or left behind by a process that stopped heartbeating
+export function resumeGenerationJobs(): void {
+  try {
+    for (const jobId of getUnfinishedGenerationJobIds()) {
+      void processJob(jobId);
+    }
+  } catch (error) {
+    console.error('Failed to resume generation jobs:', getErrorMessage(error));
+  }
+}
+
+if (typeof window === 'undefined' && !globalForJobs.generationJobSweep) { // Only run on server, once per process
+  resumeGenerationJobs();
+  globalForJobs.generationJobSweep = setInterval(resumeGenerationJobs, HEARTBEAT_TIMEOUT);
+  globalForJobs.generationJobSweep.unref();
+}
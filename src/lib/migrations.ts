@@ -0,0 +1,715 @@
+import type Database from 'better-sqlite3';
+import { DatabaseError } from './types';
+import { getErrorMessage } from './utils';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+// Ordered schema history. Never edit an applied migration; append a new one instead.
+// The first migrations use IF NOT EXISTS so databases created before versioning are adopted as-is.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_questions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS questions (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          difficulty TEXT NOT NULL CHECK (difficulty IN ('Easy', 'Medium', 'Hard')),
+          topics TEXT NOT NULL,
+          description TEXT NOT NULL,
+          example TEXT NOT NULL,
+          solution_python TEXT NOT NULL,
+          step_by_step_explanation TEXT NOT NULL,
+          pseudocode TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          UNIQUE(title) ON CONFLICT REPLACE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_questions_difficulty ON questions(difficulty);
+        CREATE INDEX IF NOT EXISTS idx_questions_created_at ON questions(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_questions_title ON questions(title);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'create_generation_jobs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS generation_jobs (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS generation_job_items (
+          job_id TEXT NOT NULL REFERENCES generation_jobs(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'done', 'failed')),
+          question_id TEXT,
+          error TEXT,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (job_id, position)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'create_conversations',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY,
+          question_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_conversations_question ON conversations(question_id, updated_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'create_questions_fts',
+    up: (db) => {
+      // Standalone FTS table keyed by question id; triggers keep it in sync with questions
+      db.exec(`
+        CREATE VIRTUAL TABLE questions_fts USING fts5(
+          id UNINDEXED,
+          title,
+          topics,
+          description,
+          solution,
+          explanation,
+          tokenize = 'porter unicode61',
+          prefix = '2 3'
+        );
+
+        CREATE TRIGGER questions_fts_insert AFTER INSERT ON questions BEGIN
+          DELETE FROM questions_fts WHERE id = new.id;
+          INSERT INTO questions_fts (id, title, topics, description, solution, explanation)
+          VALUES (
+            new.id, new.title,
+            (SELECT group_concat(value, ', ') FROM json_each(new.topics)),
+            new.description, new.solution_python,
+            (SELECT group_concat(value, ' ') FROM json_each(new.step_by_step_explanation))
+              || ' ' || coalesce(json_extract(new.example, '$.explanation'), '')
+          );
+        END;
+
+        CREATE TRIGGER questions_fts_update AFTER UPDATE ON questions BEGIN
+          DELETE FROM questions_fts WHERE id = old.id;
+          INSERT INTO questions_fts (id, title, topics, description, solution, explanation)
+          VALUES (
+            new.id, new.title,
+            (SELECT group_concat(value, ', ') FROM json_each(new.topics)),
+            new.description, new.solution_python,
+            (SELECT group_concat(value, ' ') FROM json_each(new.step_by_step_explanation))
+              || ' ' || coalesce(json_extract(new.example, '$.explanation'), '')
+          );
+        END;
+
+        CREATE TRIGGER questions_fts_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM questions_fts WHERE id = old.id;
+        END;
+
+        INSERT INTO questions_fts (id, title, topics, description, solution, explanation)
+        SELECT
+          q.id, q.title,
+          (SELECT group_concat(value, ', ') FROM json_each(q.topics)),
+          q.description, q.solution_python,
+          (SELECT group_concat(value, ' ') FROM json_each(q.step_by_step_explanation))
+            || ' ' || coalesce(json_extract(q.example, '$.explanation'), '')
+        FROM questions q;
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'create_topics',
+    up: (db) => {
+      // questions.topics stays the stored list of canonical names; triggers mirror it into
+      // question_topics so topics can be counted and filtered with joins. The triggers avoid
+      // conflict clauses because questions were then saved with INSERT OR REPLACE, which overrides
+      // them. Saves are plain INSERTs since migration 18 removed ON CONFLICT REPLACE.
+      db.exec(`
+        CREATE TABLE topics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE topic_aliases (
+          alias TEXT PRIMARY KEY COLLATE NOCASE,
+          topic_id INTEGER NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE question_topics (
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          topic_id INTEGER NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (question_id, topic_id)
+        );
+
+        CREATE INDEX idx_question_topics_topic ON question_topics(topic_id);
+        CREATE INDEX idx_topic_aliases_topic ON topic_aliases(topic_id);
+
+        CREATE TRIGGER question_topics_insert AFTER INSERT ON questions BEGIN
+          INSERT INTO topics (name, created_at)
+          SELECT trim(value), new.created_at FROM json_each(new.topics)
+          WHERE trim(value) <> '' AND NOT EXISTS (SELECT 1 FROM topics WHERE name = trim(value))
+          GROUP BY trim(value) COLLATE NOCASE;
+          INSERT INTO question_topics (question_id, topic_id, position)
+          SELECT new.id, t.id, MIN(j.key) FROM json_each(new.topics) j JOIN topics t ON t.name = trim(j.value)
+          GROUP BY t.id;
+        END;
+
+        CREATE TRIGGER question_topics_update AFTER UPDATE OF topics ON questions BEGIN
+          DELETE FROM question_topics WHERE question_id = old.id;
+          INSERT INTO topics (name, created_at)
+          SELECT trim(value), coalesce(new.updated_at, new.created_at) FROM json_each(new.topics)
+          WHERE trim(value) <> '' AND NOT EXISTS (SELECT 1 FROM topics WHERE name = trim(value))
+          GROUP BY trim(value) COLLATE NOCASE;
+          INSERT INTO question_topics (question_id, topic_id, position)
+          SELECT new.id, t.id, MIN(j.key) FROM json_each(new.topics) j JOIN topics t ON t.name = trim(j.value)
+          GROUP BY t.id;
+        END;
+
+        CREATE TRIGGER question_topics_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM question_topics WHERE question_id = old.id;
+        END;
+
+        INSERT OR IGNORE INTO topics (name, created_at)
+        SELECT trim(j.value), MIN(q.created_at)
+        FROM questions q, json_each(q.topics) j
+        WHERE trim(j.value) <> ''
+        GROUP BY trim(j.value) COLLATE NOCASE;
+
+        INSERT INTO question_topics (question_id, topic_id, position)
+        SELECT q.id, t.id, MIN(j.key)
+        FROM questions q, json_each(q.topics) j
+        JOIN topics t ON t.name = trim(j.value)
+        GROUP BY q.id, t.id;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'create_question_solutions',
+    up: (db) => {
+      // Solutions in languages other than Python; the Python solution stays in questions.solution_python
+      db.exec(`
+        CREATE TABLE question_solutions (
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          language TEXT NOT NULL CHECK (language IN ('javascript', 'java', 'cpp')),
+          code TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (question_id, language)
+        );
+
+        CREATE TRIGGER question_solutions_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM question_solutions WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'add_generation_job_languages',
+    up: (db) => {
+      db.exec(`ALTER TABLE generation_jobs ADD COLUMN languages TEXT NOT NULL DEFAULT '[]'`);
+    },
+  },
+  {
+    version: 8,
+    name: 'create_question_test_cases',
+    up: (db) => {
+      // Structured test cases; args and expected hold JSON values
+      db.exec(`
+        CREATE TABLE question_test_cases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          args TEXT NOT NULL,
+          expected TEXT NOT NULL,
+          hidden INTEGER NOT NULL DEFAULT 0,
+          label TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_question_test_cases_question ON question_test_cases(question_id, position);
+
+        CREATE TRIGGER question_test_cases_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM question_test_cases WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'create_submissions',
+    up: (db) => {
+      // Practice attempts; result holds the runner output as JSON when the code was checked
+      db.exec(`
+        CREATE TABLE submissions (
+          id TEXT PRIMARY KEY,
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          language TEXT NOT NULL,
+          code TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'error', 'timeout', 'unchecked')),
+          passed INTEGER NOT NULL DEFAULT 0,
+          total INTEGER NOT NULL DEFAULT 0,
+          result TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_submissions_question ON submissions(question_id, created_at DESC);
+
+        CREATE TRIGGER submissions_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM submissions WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'add_message_reviews',
+    up: (db) => {
+      // Code review feedback rendered as a card in the chat thread (JSON)
+      db.exec('ALTER TABLE messages ADD COLUMN review TEXT');
+    },
+  },
+  {
+    version: 11,
+    name: 'add_question_hints',
+    up: (db) => {
+      // hint_reveals records which hints have been consumed, in order
+      db.exec(`
+        ALTER TABLE questions ADD COLUMN hints TEXT;
+
+        CREATE TABLE hint_reveals (
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          hint_index INTEGER NOT NULL,
+          revealed_at TEXT NOT NULL,
+          PRIMARY KEY (question_id, hint_index)
+        );
+
+        CREATE TRIGGER hint_reveals_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM hint_reveals WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'create_review_states',
+    up: (db) => {
+      // One SM-2 schedule per question; rows only exist once a question has been rated
+      db.exec(`
+        CREATE TABLE review_states (
+          question_id TEXT PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+          ease_factor REAL NOT NULL,
+          interval_days INTEGER NOT NULL,
+          repetitions INTEGER NOT NULL,
+          last_rating TEXT CHECK (last_rating IN ('again', 'hard', 'good', 'easy')),
+          last_reviewed_at TEXT,
+          due_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_review_states_due_at ON review_states(due_at);
+
+        CREATE TRIGGER review_states_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM review_states WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'create_bookmarks',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE bookmarks (
+          question_id TEXT PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_submissions_created_at ON submissions(created_at);
+
+        CREATE TRIGGER bookmarks_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM bookmarks WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'create_users_and_sessions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE users (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        -- id is the SHA-256 of the cookie token so a leaked database cannot be replayed as sessions
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_sessions_user ON sessions(user_id);
+        CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
+
+        CREATE TRIGGER sessions_delete AFTER DELETE ON users BEGIN
+          DELETE FROM sessions WHERE user_id = old.id;
+        END;
+
+        ALTER TABLE questions ADD COLUMN owner_id TEXT REFERENCES users(id);
+        ALTER TABLE generation_jobs ADD COLUMN user_id TEXT REFERENCES users(id);
+        ALTER TABLE conversations ADD COLUMN user_id TEXT REFERENCES users(id);
+        ALTER TABLE submissions ADD COLUMN user_id TEXT REFERENCES users(id);
+
+        CREATE INDEX idx_conversations_user ON conversations(user_id, question_id);
+        CREATE INDEX idx_submissions_user ON submissions(user_id, question_id, created_at);
+      `);
+
+      // Progress tables were keyed by question alone; rebuild them keyed by user as well.
+      // Existing rows keep a NULL user_id until the first account claims them.
+      db.exec(`
+        DROP TRIGGER hint_reveals_delete;
+        CREATE TABLE hint_reveals_new (
+          user_id TEXT REFERENCES users(id),
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          hint_index INTEGER NOT NULL,
+          revealed_at TEXT NOT NULL,
+          UNIQUE (user_id, question_id, hint_index)
+        );
+        INSERT INTO hint_reveals_new (question_id, hint_index, revealed_at)
+          SELECT question_id, hint_index, revealed_at FROM hint_reveals;
+        DROP TABLE hint_reveals;
+        ALTER TABLE hint_reveals_new RENAME TO hint_reveals;
+        CREATE TRIGGER hint_reveals_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM hint_reveals WHERE question_id = old.id;
+        END;
+
+        DROP TRIGGER review_states_delete;
+        CREATE TABLE review_states_new (
+          user_id TEXT REFERENCES users(id),
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          ease_factor REAL NOT NULL,
+          interval_days INTEGER NOT NULL,
+          repetitions INTEGER NOT NULL,
+          last_rating TEXT CHECK (last_rating IN ('again', 'hard', 'good', 'easy')),
+          last_reviewed_at TEXT,
+          due_at TEXT NOT NULL,
+          UNIQUE (user_id, question_id)
+        );
+        INSERT INTO review_states_new (question_id, ease_factor, interval_days, repetitions, last_rating, last_reviewed_at, due_at)
+          SELECT question_id, ease_factor, interval_days, repetitions, last_rating, last_reviewed_at, due_at FROM review_states;
+        DROP TABLE review_states;
+        ALTER TABLE review_states_new RENAME TO review_states;
+        CREATE INDEX idx_review_states_user_due_at ON review_states(user_id, due_at);
+        CREATE TRIGGER review_states_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM review_states WHERE question_id = old.id;
+        END;
+
+        DROP TRIGGER bookmarks_delete;
+        CREATE TABLE bookmarks_new (
+          user_id TEXT REFERENCES users(id),
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL,
+          UNIQUE (user_id, question_id)
+        );
+        INSERT INTO bookmarks_new (question_id, created_at) SELECT question_id, created_at FROM bookmarks;
+        DROP TABLE bookmarks;
+        ALTER TABLE bookmarks_new RENAME TO bookmarks;
+        CREATE TRIGGER bookmarks_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM bookmarks WHERE question_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'add_user_roles',
+    up: (db) => {
+      // The earliest account already owns the pre-account data, so it becomes the admin
+      db.exec(`
+        ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor', 'admin'));
+
+        UPDATE users SET role = 'admin'
+        WHERE id = (SELECT id FROM users ORDER BY created_at, rowid LIMIT 1);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'create_api_keys',
+    up: (db) => {
+      db.exec(`
+        -- key_hash is the SHA-256 of the key; the key itself is only shown once
+        CREATE TABLE api_keys (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL, -- JSON array
+          rate_limit INTEGER,
+          expires_at TEXT,
+          last_used_at TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_api_keys_user ON api_keys(user_id);
+
+        CREATE TRIGGER api_keys_delete AFTER DELETE ON users BEGIN
+          DELETE FROM api_keys WHERE user_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'create_question_revisions',
+    up: (db) => {
+      db.exec(`
+        -- Every saved version of a question's content, numbered per question
+        CREATE TABLE question_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          question_id TEXT NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+          revision INTEGER NOT NULL,
+          content TEXT NOT NULL, -- JSON snapshot of the editable fields
+          source TEXT NOT NULL CHECK (source IN ('generation', 'edit', 'import', 'rollback')),
+          author_id TEXT REFERENCES users(id),
+          restored_from INTEGER,
+          created_at TEXT NOT NULL,
+          UNIQUE(question_id, revision)
+        );
+
+        CREATE TRIGGER question_revisions_delete AFTER DELETE ON questions BEGIN
+          DELETE FROM question_revisions WHERE question_id = old.id;
+        END;
+
+        -- Existing questions start their history with their current content
+        INSERT INTO question_revisions (question_id, revision, content, source, author_id, created_at)
+        SELECT
+          id, 1,
+          json_object(
+            'title', title,
+            'difficulty', difficulty,
+            'topics', json(topics),
+            'description', description,
+            'example', json(example),
+            'solution_python', solution_python,
+            'step_by_step_explanation', json(step_by_step_explanation),
+            'pseudocode', json(pseudocode),
+            'hints', json(hints)
+          ),
+          'generation', owner_id, coalesce(updated_at, created_at)
+        FROM questions;
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'stop_replacing_questions_on_title_conflict',
+    up: (db) => {
+      // UNIQUE(title) ON CONFLICT REPLACE deleted the old row, and with it its id and progress, whenever
+      // a title was saved again. Rebuild the table with a plain UNIQUE(title) so a duplicate is an error.
+      // Dropping the table also drops its indexes and the many triggers on it, so recreate them as they are.
+      // runMigrations turns foreign keys off, so the drop leaves rows referencing questions alone.
+      const dependents = db.prepare(`
+        SELECT sql FROM sqlite_master
+        WHERE tbl_name = 'questions' AND type IN ('index', 'trigger') AND sql IS NOT NULL
+      `).all() as { sql: string }[];
+
+      db.exec(`
+        CREATE TABLE questions_new (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL UNIQUE,
+          difficulty TEXT NOT NULL CHECK (difficulty IN ('Easy', 'Medium', 'Hard')),
+          topics TEXT NOT NULL,
+          description TEXT NOT NULL,
+          example TEXT NOT NULL,
+          solution_python TEXT NOT NULL,
+          step_by_step_explanation TEXT NOT NULL,
+          pseudocode TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          hints TEXT,
+          owner_id TEXT REFERENCES users(id)
+        );
+        INSERT INTO questions_new (
+          id, title, difficulty, topics, description, example, solution_python,
+          step_by_step_explanation, pseudocode, created_at, updated_at, hints, owner_id
+        )
+        SELECT
+          id, title, difficulty, topics, description, example, solution_python,
+          step_by_step_explanation, pseudocode, created_at, updated_at, hints, owner_id
+        FROM questions;
+        DROP TABLE questions;
+        ALTER TABLE questions_new RENAME TO questions;
+      `);
+
+      for (const { sql } of dependents) {
+        db.exec(sql);
+      }
+
+      db.exec(`
+        -- What a job does with titles that already exist; jobs queued earlier overwrote them
+        ALTER TABLE generation_jobs ADD COLUMN on_duplicate TEXT NOT NULL DEFAULT 'update'
+          CHECK (on_duplicate IN ('skip', 'update', 'variant'));
+        ALTER TABLE generation_job_items ADD COLUMN action TEXT
+          CHECK (action IN ('created', 'updated', 'skipped', 'variant'));
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'add_generation_job_claims',
+    up: (db) => {
+      db.exec(`
+        -- The process working on a job and when it last reported in; a stale heartbeat frees the job
+        ALTER TABLE generation_jobs ADD COLUMN worker TEXT;
+        ALTER TABLE generation_jobs ADD COLUMN heartbeat_at TEXT;
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'mark_imported_messages',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE messages ADD COLUMN imported INTEGER NOT NULL DEFAULT 0;
+
+        -- Earlier imports kept the browser's timestamps, so their messages predate the thread
+        UPDATE messages SET imported = 1
+        WHERE created_at < (SELECT c.created_at FROM conversations c WHERE c.id = messages.conversation_id);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations.reduce((max, m) => Math.max(max, m.version), 0);
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function getAppliedMigrations(db: Database.Database): Map<number, string> {
+  const rows = db.prepare('SELECT version, applied_at FROM schema_migrations ORDER BY version').all() as {
+    version: number;
+    applied_at: string;
+  }[];
+  return new Map(rows.map(row => [row.version, row.applied_at]));
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = getAppliedMigrations(db);
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied_at: applied.get(migration.version) ?? null,
+  }));
+}
+
+// Apply all pending migrations in a single transaction; returns the versions applied
+export function runMigrations(db: Database.Database): number[] {
+  try {
+    ensureMigrationsTable(db);
+
+    const currentVersion = getSchemaVersion(db);
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+      throw new DatabaseError(
+        `Database schema version ${currentVersion} is newer than the latest known version ${LATEST_SCHEMA_VERSION}. ` +
+        'Upgrade the application before using this database.',
+        'SCHEMA_TOO_NEW'
+      );
+    }
+
+    const applied = getAppliedMigrations(db);
+    const pending = migrations
+      .filter(migration => !applied.has(migration.version))
+      .sort((a, b) => a.version - b.version);
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    // Rebuilding a table drops it, which with foreign keys on would cascade into every row that
+    // references it. The pragma has no effect inside a transaction, so switch it off around it.
+    const foreignKeys = db.pragma('foreign_keys', { simple: true }) as number;
+    db.pragma('foreign_keys = OFF');
+
+    const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    try {
+      db.transaction(() => {
+        for (const migration of pending) {
+          migration.up(db);
+          record.run(migration.version, migration.name, new Date().toISOString());
+        }
+      })();
+    } finally {
+      db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+
+    return pending.map(migration => migration.version);
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Failed to run migrations: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,4 +1,7 @@
 // Simple rate limiting implementation
+import type Database from 'better-sqlite3';
+import { getSharedStateBackend, getSharedStateDatabase } from './shared-state';
+
 interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
@@ -6,50 +9,162 @@ interface RateLimitConfig {
   skipFailedRequests?: boolean;
 }
 
-interface RateLimitInfo {
-  requests: number[];
-  lastReset: number;
+interface RateLimitHit {
+  allowed: boolean;
+  // Requests inside the window, including this one when allowed
+  hits: number;
+  oldestHit: number;
+}
+
+// Where a limiter keeps its request log; each limiter gets its own store
+export interface RateLimitStore {
+  // Drop the client's requests at or before windowStart, then record one at now if it is under maxRequests
+  hit(clientId: string, now: number, windowStart: number, maxRequests: number): RateLimitHit;
+  reset(clientId: string): void;
+  // Forget every request at or before the cutoff
+  prune(cutoff: number): void;
+  getStats(windowStart: number): { totalClients: number; activeClients: number };
 }
 
-class RateLimiter {
-  private clients = new Map<string, RateLimitInfo>();
+export class MemoryRateLimitStore implements RateLimitStore {
+  private clients = new Map<string, number[]>();
+
+  hit(clientId: string, now: number, windowStart: number, maxRequests: number): RateLimitHit {
+    const requests = (this.clients.get(clientId) ?? []).filter(time => time > windowStart);
+    const allowed = requests.length < maxRequests;
+
+    if (allowed) {
+      requests.push(now);
+    }
+    this.clients.set(clientId, requests);
+
+    return { allowed, hits: requests.length, oldestHit: requests[0] ?? now };
+  }
+
+  reset(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  prune(cutoff: number): void {
+    for (const [clientId, requests] of this.clients.entries()) {
+      const remaining = requests.filter(time => time > cutoff);
+      if (remaining.length > 0) {
+        this.clients.set(clientId, remaining);
+      } else {
+        this.clients.delete(clientId);
+      }
+    }
+  }
+
+  getStats(windowStart: number): { totalClients: number; activeClients: number } {
+    let activeClients = 0;
+
+    for (const requests of this.clients.values()) {
+      if (requests.some(time => time > windowStart)) {
+        activeClients++;
+      }
+    }
+
+    return {
+      totalClients: this.clients.size,
+      activeClients,
+    };
+  }
+}
+
+// Shares counters between every process using the same database file
+export class SqliteRateLimitStore implements RateLimitStore {
+  private statements: Record<'expire' | 'window' | 'insert' | 'reset' | 'prune' | 'stats', Database.Statement>;
+  private recordHit: (clientId: string, now: number, windowStart: number, maxRequests: number) => RateLimitHit;
+
+  constructor(db: Database.Database, private bucket: string) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_hits (
+        bucket TEXT NOT NULL,
+        client_id TEXT NOT NULL,
+        hit_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_client ON rate_limit_hits(bucket, client_id, hit_at);
+    `);
+
+    this.statements = {
+      expire: db.prepare('DELETE FROM rate_limit_hits WHERE bucket = ? AND client_id = ? AND hit_at <= ?'),
+      window: db.prepare('SELECT COUNT(*) as hits, MIN(hit_at) as oldest FROM rate_limit_hits WHERE bucket = ? AND client_id = ?'),
+      insert: db.prepare('INSERT INTO rate_limit_hits (bucket, client_id, hit_at) VALUES (?, ?, ?)'),
+      reset: db.prepare('DELETE FROM rate_limit_hits WHERE bucket = ? AND client_id = ?'),
+      prune: db.prepare('DELETE FROM rate_limit_hits WHERE bucket = ? AND hit_at <= ?'),
+      stats: db.prepare(`
+        SELECT COUNT(DISTINCT client_id) as total,
+               COUNT(DISTINCT CASE WHEN hit_at > ? THEN client_id END) as active
+        FROM rate_limit_hits WHERE bucket = ?
+      `),
+    };
+
+    // IMMEDIATE takes the write lock up front so two processes cannot both see the last free slot
+    const record = db.transaction((clientId: string, now: number, windowStart: number, maxRequests: number): RateLimitHit => {
+      this.statements.expire.run(this.bucket, clientId, windowStart);
+      const { hits } = this.statements.window.get(this.bucket, clientId) as { hits: number };
+      const allowed = hits < maxRequests;
+
+      if (allowed) {
+        this.statements.insert.run(this.bucket, clientId, now);
+      }
+
+      const { oldest } = this.statements.window.get(this.bucket, clientId) as { oldest: number | null };
+      return { allowed, hits: allowed ? hits + 1 : hits, oldestHit: oldest ?? now };
+    });
+    this.recordHit = record.immediate;
+  }
+
+  hit(clientId: string, now: number, windowStart: number, maxRequests: number): RateLimitHit {
+    return this.recordHit(clientId, now, windowStart, maxRequests);
+  }
+
+  reset(clientId: string): void {
+    this.statements.reset.run(this.bucket, clientId);
+  }
+
+  prune(cutoff: number): void {
+    this.statements.prune.run(this.bucket, cutoff);
+  }
+
+  getStats(windowStart: number): { totalClients: number; activeClients: number } {
+    const { total, active } = this.statements.stats.get(windowStart, this.bucket) as { total: number; active: number };
+    return { totalClients: total, activeClients: active };
+  }
+}
+
+// RATE_LIMIT_STORE=sqlite shares counters across processes; the bucket keeps each limiter's log apart
+function createRateLimitStore(bucket: string): RateLimitStore {
+  return getSharedStateBackend('RATE_LIMIT_STORE') === 'sqlite'
+    ? new SqliteRateLimitStore(getSharedStateDatabase(), bucket)
+    : new MemoryRateLimitStore();
+}
+
+export class RateLimiter {
   private config: RateLimitConfig;
+  private store: RateLimitStore;
 
-  constructor(config: RateLimitConfig) {
+  constructor(config: RateLimitConfig, store: RateLimitStore = new MemoryRateLimitStore()) {
     this.config = config;
+    this.store = store;
     
-    // Cleanup old entries every minute
+    // Cleanup old entries every minute; the timer alone should not keep the process alive
     setInterval(() => {
       this.cleanup();
-    }, 60 * 1000);
+    }, 60 * 1000).unref();
   }
 
-  isAllowed(clientId: string): { allowed: boolean; remaining: number; resetTime: number } {
+  // maxRequests overrides the configured limit for callers with their own quota
+  isAllowed(clientId: string, maxRequests: number = this.config.maxRequests): { allowed: boolean; remaining: number; resetTime: number } {
     const now = Date.now();
     const windowStart = now - this.config.windowMs;
     
-    let clientInfo = this.clients.get(clientId);
-    
-    if (!clientInfo) {
-      clientInfo = {
-        requests: [],
-        lastReset: now,
-      };
-      this.clients.set(clientId, clientInfo);
-    }
-
-    // Remove requests outside the current window
-    clientInfo.requests = clientInfo.requests.filter(time => time > windowStart);
-    
-    const currentRequests = clientInfo.requests.length;
-    const allowed = currentRequests < this.config.maxRequests;
-    
-    if (allowed) {
-      clientInfo.requests.push(now);
-    }
+    const { allowed, hits, oldestHit } = this.store.hit(clientId, now, windowStart, maxRequests);
 
-    const remaining = Math.max(0, this.config.maxRequests - clientInfo.requests.length);
-    const resetTime = windowStart + this.config.windowMs;
+    const remaining = Math.max(0, maxRequests - hits);
+    // The window frees a slot once its oldest request ages out
+    const resetTime = oldestHit + this.config.windowMs;
 
     return {
       allowed,
@@ -59,37 +174,15 @@ class RateLimiter {
   }
 
   reset(clientId: string): void {
-    this.clients.delete(clientId);
+    this.store.reset(clientId);
   }
 
   private cleanup(): void {
-    const now = Date.now();
-    const cutoff = now - this.config.windowMs * 2; // Keep data for 2 windows
-    
-    for (const [clientId, info] of this.clients.entries()) {
-      if (info.lastReset < cutoff) {
-        this.clients.delete(clientId);
-      }
-    }
+    this.store.prune(Date.now() - this.config.windowMs);
   }
 
   getStats(): { totalClients: number; activeClients: number } {
-    const now = Date.now();
-    const windowStart = now - this.config.windowMs;
-    
-    let activeClients = 0;
-    
-    for (const [_, info] of this.clients.entries()) {
-      const activeRequests = info.requests.filter(time => time > windowStart);
-      if (activeRequests.length > 0) {
-        activeClients++;
-      }
-    }
-
-    return {
-      totalClients: this.clients.size,
-      activeClients,
-    };
+    return this.store.getStats(Date.now() - this.config.windowMs);
   }
 }
 
@@ -99,27 +192,41 @@ export const rateLimiters = {
   api: new RateLimiter({
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 100,
-  }),
+  }, createRateLimitStore('api')),
 
   // Generation rate limiter: 5 requests per minute (more restrictive)
   generation: new RateLimiter({
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 5,
-  }),
+  }, createRateLimitStore('generation')),
 
   // Chat rate limiter: 30 requests per minute
   chat: new RateLimiter({
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 30,
-  }),
+  }, createRateLimitStore('chat')),
 
   // Export rate limiter: 10 requests per minute
   export: new RateLimiter({
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 10,
-  }),
+  }, createRateLimitStore('export')),
 };
 
+// Which limiter guards each API route; the first match wins and anything else shares the general limit
+const RATE_LIMIT_ROUTES: Array<{ pattern: RegExp; limiter: RateLimiter }> = [
+  { pattern: /^\/api\/generate\/jobs\//, limiter: rateLimiters.api },
+  { pattern: /^\/api\/generate$/, limiter: rateLimiters.generation },
+  { pattern: /^\/api\/questions\/[^/]+\/translate$/, limiter: rateLimiters.generation },
+  { pattern: /^\/api\/chat$/, limiter: rateLimiters.chat },
+  { pattern: /^\/api\/questions\/[^/]+\/review$/, limiter: rateLimiters.chat },
+  { pattern: /^\/api\/export$/, limiter: rateLimiters.export },
+];
+
+export function getRateLimiter(pathname: string): RateLimiter {
+  return RATE_LIMIT_ROUTES.find(({ pattern }) => pattern.test(pathname))?.limiter ?? rateLimiters.api;
+}
+
 // Utility function to get client ID from request
 export function getClientId(request: Request): string {
   // Try to get IP from various headers
@@ -130,18 +237,25 @@ export function getClientId(request: Request): string {
   return clientIp;
 }
 
-// Rate limit middleware
+// Rate limit middleware; authenticated callers pass their own id and, for API keys, their own limit,
+// which can only be stricter than the route's
 export function createRateLimitMiddleware(limiter: RateLimiter) {
-  return (request: Request) => {
-    const clientId = getClientId(request);
-    const result = limiter.isAllowed(clientId);
+  return (request: Request, client?: { id: string; maxRequests?: number | null }) => {
+    const clientId = client?.id ?? getClientId(request);
+    const routeLimit = limiter['config'].maxRequests;
+    const maxRequests = client?.maxRequests ? Math.min(client.maxRequests, routeLimit) : routeLimit;
+    const result = limiter.isAllowed(clientId, maxRequests);
     
     const headers = new Headers({
-      'X-RateLimit-Limit': limiter['config'].maxRequests.toString(),
+      'X-RateLimit-Limit': maxRequests.toString(),
       'X-RateLimit-Remaining': result.remaining.toString(),
       'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
     });
 
+    if (!result.allowed) {
+      headers.set('Retry-After', Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000)).toString());
+    }
+
     return {
       allowed: result.allowed,
       headers,
@@ -0,0 +1,489 @@
+import { spawn, spawnSync } from 'child_process';
+import { isDeepStrictEqual } from 'util';
+import { Question, RunCase, RunCaseResult, RunResult, RunStatus, RunnerError, TestCase, ValidationError } from './types';
+import { formatTestCaseArgs, getErrorMessage } from './utils';
+
+const DEFAULT_CASE_TIMEOUT_MS = 2000;
+const DEFAULT_MEMORY_MB = 256;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const RESULT_MARKER = '__RUNNER_RESULT__';
+const HIDDEN_PREFIX = 'Hidden test';
+// "nobody"; runs switch to it when the server itself runs as root
+const DEFAULT_RUNNER_UID = 65534;
+const SANDBOX_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+// Python harness executed in the sandbox. It reads { code, entryPoint, cases, ... } as JSON from
+// stdin, applies resource limits, then runs every case with its own time limit and captured output.
+// Results are printed as a single marked JSON line. Isolation comes from the sandbox, not from here.
+// The run state lives in _main's locals rather than module globals, and structured cases arrive
+// without their expected value: the server compares the returned values itself.
+const HARNESS = String.raw`
+import ast, builtins, contextlib, io, json, resource, signal, sys, time, traceback
+
+class CaseTimeout(Exception):
+    pass
+
+def _on_timeout(signum, frame):
+    raise CaseTimeout()
+
+def _parse_input(text):
+    text = text.strip()
+    if not text:
+        return [], {}
+    # Accept "a = 1, b = [2]", "1, [2]" or one assignment per line
+    for candidate in (text, ', '.join(line.strip() for line in text.splitlines() if line.strip())):
+        try:
+            call = ast.parse('f(' + candidate + ')', mode='eval').body
+        except SyntaxError:
+            continue
+        args = [ast.literal_eval(arg) for arg in call.args]
+        kwargs = {kw.arg: ast.literal_eval(kw.value) for kw in call.keywords if kw.arg}
+        return args, kwargs
+    raise ValueError('Could not parse input: use Python literals such as "nums = [1, 2], target = 3"')
+
+def _normalize(text):
+    return ' '.join(str(text).replace('"', "'").split()).lower()
+
+def _matches(result, expected):
+    try:
+        if result == ast.literal_eval(expected.strip()):
+            return True
+    except Exception:
+        pass
+    return _normalize(expected) in (_normalize(repr(result)), _normalize(result))
+
+def _to_json(value):
+    return json.loads(json.dumps(value, default=lambda v: sorted(v) if isinstance(v, (set, frozenset)) else repr(v)))
+
+def _find_entry(namespace, tree, name):
+    if name:
+        if name in namespace and callable(namespace[name]):
+            return namespace[name]
+        if 'Solution' in namespace and hasattr(namespace['Solution'], name):
+            return getattr(namespace['Solution'](), name)
+        raise NameError('Function "' + name + '" is not defined')
+    for node in tree.body:
+        if isinstance(node, ast.ClassDef) and node.name == 'Solution':
+            methods = [n.name for n in node.body if isinstance(n, ast.FunctionDef) and not n.name.startswith('_')]
+            if methods:
+                return getattr(namespace['Solution'](), methods[0])
+    functions = [n.name for n in tree.body if isinstance(n, ast.FunctionDef) and not n.name.startswith('_') and n.name != 'main']
+    if not functions:
+        raise NameError('No top-level function found to call')
+    return namespace[functions[0]]
+
+def _run(func, case, timeout_ms, memory_mb):
+    stdout, stderr = io.StringIO(), io.StringIO()
+    result = {'name': case['name'], 'input': case['input'], 'stdout': '', 'stderr': ''}
+    if case.get('expected') is not None:
+        result['expected'] = case['expected']
+    started = time.perf_counter()
+    try:
+        with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+            # Structured cases carry their arguments as JSON instead of Python literal text
+            args, kwargs = ([], case['args']) if 'args' in case else _parse_input(case['input'])
+            signal.setitimer(signal.ITIMER_REAL, timeout_ms / 1000)
+            try:
+                value = func(*args, **kwargs)
+            finally:
+                signal.setitimer(signal.ITIMER_REAL, 0)
+        result['output'] = repr(value)
+        if 'args' in case:
+            result['value'] = _to_json(value)
+            result['status'] = 'ran'
+        elif case.get('expected') is None:
+            result['status'] = 'ran'
+        else:
+            result['status'] = 'passed' if _matches(value, case['expected']) else 'failed'
+    except CaseTimeout:
+        result['status'] = 'timeout'
+        stderr.write('Time limit of ' + str(timeout_ms) + ' ms exceeded\n')
+    except MemoryError:
+        result['status'] = 'error'
+        stderr.write('Memory limit of ' + str(memory_mb) + ' MB exceeded\n')
+    except BaseException:
+        result['status'] = 'error'
+        stderr.write(traceback.format_exc(limit=-3))
+    result['durationMs'] = round((time.perf_counter() - started) * 1000, 2)
+    result['stdout'] = stdout.getvalue()
+    result['stderr'] = stderr.getvalue()
+    return result
+
+def _main(payload, write, dumps):
+    sys.stdin = io.StringIO('')
+    timeout_ms, memory_mb = payload['timeoutMs'], payload['memoryMb']
+
+    memory = memory_mb * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+    resource.setrlimit(resource.RLIMIT_FSIZE, (1024 * 1024, 1024 * 1024))
+    # No new processes or threads
+    resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+    signal.signal(signal.SIGALRM, _on_timeout)
+
+    report = {'cases': [], 'stdout': '', 'stderr': ''}
+    setup_stdout, setup_stderr = io.StringIO(), io.StringIO()
+    func = None
+    try:
+        with contextlib.redirect_stdout(setup_stdout), contextlib.redirect_stderr(setup_stderr):
+            tree = ast.parse(payload['code'], '<solution>')
+            namespace = {'__name__': '__solution__', '__builtins__': builtins}
+            signal.setitimer(signal.ITIMER_REAL, timeout_ms / 1000)
+            try:
+                exec(compile(tree, '<solution>', 'exec'), namespace)
+            finally:
+                signal.setitimer(signal.ITIMER_REAL, 0)
+            func = _find_entry(namespace, tree, payload.get('entryPoint'))
+    except CaseTimeout:
+        setup_stderr.write('Time limit exceeded while loading the code\n')
+    except BaseException:
+        setup_stderr.write(traceback.format_exc(limit=-3))
+
+    if func is not None:
+        report['cases'] = [_run(func, case, timeout_ms, memory_mb) for case in payload['cases']]
+    report['stdout'] = setup_stdout.getvalue()
+    report['stderr'] = setup_stderr.getvalue()
+    report['loaded'] = func is not None
+
+    write('\n${RESULT_MARKER}' + dumps(report) + '\n')
+
+_main(json.loads(sys.stdin.read()), sys.__stdout__.write, json.dumps)
+`;
+
+export interface NamedRunCase extends RunCase {
+  name: string;
+  // Structured test cases: keyword arguments and the expected JSON result
+  args?: Record<string, unknown>;
+  expectedValue?: unknown;
+  hidden?: boolean;
+}
+
+// What the harness receives for a case; expected values of structured cases stay in this process
+interface HarnessCase {
+  name: string;
+  input: string;
+  expected?: string | undefined;
+  args?: Record<string, unknown> | undefined;
+}
+
+// Structured cases come back with the value the code returned instead of a verdict
+interface HarnessCaseResult extends RunCaseResult {
+  value?: unknown;
+}
+
+interface HarnessReport {
+  cases: HarnessCaseResult[];
+  stdout: string;
+  stderr: string;
+  loaded: boolean;
+}
+
+interface HarnessRun {
+  report: HarnessReport | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  totalTimeout: number;
+}
+
+let runnerAvailable: boolean | null = null;
+
+function getPythonPath(): string {
+  return process.env.PYTHON_PATH || 'python3';
+}
+
+// Deliberately minimal environment so secrets such as GEMINI_API_KEY never reach the sandbox
+const SANDBOX_ENV: NodeJS.ProcessEnv = { NODE_ENV: process.env.NODE_ENV, PATH: SANDBOX_PATH };
+
+function getSandboxPath(): string {
+  return process.env.RUNNER_SANDBOX_PATH || 'bwrap';
+}
+
+function getCaseTimeout(): number {
+  return parseInt(process.env.RUNNER_TIMEOUT_MS || '', 10) || DEFAULT_CASE_TIMEOUT_MS;
+}
+
+function getMemoryLimit(): number {
+  return parseInt(process.env.RUNNER_MEMORY_MB || '', 10) || DEFAULT_MEMORY_MB;
+}
+
+// Executing user code is opt-in, since it is only as safe as the sandbox around it
+function isRunnerEnabled(): boolean {
+  return process.env.CODE_RUNNER_ENABLED === 'true';
+}
+
+// bubblewrap command for one run. The child gets its own user, pid, network, IPC and mount namespaces:
+// no network beyond an isolated loopback, no view of other processes, and a read-only filesystem
+// holding only the system directories the interpreter needs, so the app and its database are absent.
+function getSandboxCommand(args: string[]): { command: string; args: string[]; uid?: number; gid?: number } {
+  const uid = parseInt(process.env.RUNNER_UID || '', 10) || DEFAULT_RUNNER_UID;
+  const sandboxArgs = [
+    '--unshare-all',
+    '--die-with-parent',
+    '--new-session',
+    '--uid', String(uid),
+    '--gid', String(uid),
+    '--ro-bind', '/usr', '/usr',
+    ...['/bin', '/sbin', '/lib', '/lib64', '/etc/alternatives', '/etc/ld.so.cache'].flatMap(dir => ['--ro-bind-try', dir, dir]),
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--dir', '/work',
+    '--chdir', '/work',
+    '--remount-ro', '/',
+    '--cap-drop', 'ALL',
+    '--clearenv',
+    '--setenv', 'PATH', SANDBOX_PATH,
+    '--setenv', 'LANG', 'C.UTF-8',
+    '--setenv', 'PYTHONIOENCODING', 'utf-8',
+    '--',
+    getPythonPath(),
+    ...args,
+  ];
+
+  // A root server hands the run to an unprivileged uid as well; otherwise the server's own
+  // unprivileged uid owns the namespaces
+  const isRoot = typeof process.getuid === 'function' && process.getuid() === 0;
+  return { command: getSandboxPath(), args: sandboxArgs, ...(isRoot ? { uid, gid: uid } : {}) };
+}
+
+export function isRunnerAvailable(): boolean {
+  if (!isRunnerEnabled()) {
+    return false;
+  }
+  if (runnerAvailable === null) {
+    // Checks the whole sandbox, not just the interpreter, so a missing or broken sandbox disables runs
+    const { command, args, ...ids } = getSandboxCommand(['-I', '-c', 'pass']);
+    const result = spawnSync(command, args, { timeout: 5000, env: SANDBOX_ENV, ...ids });
+    runnerAvailable = result.status === 0;
+    if (!runnerAvailable) {
+      console.error(`Code runner disabled: sandbox "${command}" could not start ${getPythonPath()}`);
+    }
+  }
+  return runnerAvailable;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_BYTES ? `${text.slice(0, MAX_OUTPUT_BYTES)}\n… output truncated` : text;
+}
+
+function overallStatus(loaded: boolean, cases: RunCaseResult[]): RunStatus {
+  if (!loaded || cases.some(c => c.status === 'error')) return 'error';
+  if (cases.some(c => c.status === 'timeout')) return 'timeout';
+  if (cases.some(c => c.status === 'failed')) return 'failed';
+  return 'passed';
+}
+
+// Run the harness once in a sandboxed, resource-limited child process
+async function runHarness(
+  code: string,
+  cases: HarnessCase[],
+  entryPoint: string | undefined
+): Promise<HarnessRun> {
+  const caseTimeout = getCaseTimeout();
+  // Budget for interpreter start-up plus every case hitting its own limit
+  const totalTimeout = caseTimeout * (cases.length + 1) + 2000;
+
+  const { stdout, stderr, timedOut } = await new Promise<{ stdout: string; stderr: string; timedOut: boolean }>(
+    (resolve, reject) => {
+      // -I isolates from user site-packages and PYTHON* environment variables; -B skips writing bytecode
+      const { command, args, ...ids } = getSandboxCommand(['-I', '-B', '-c', HARNESS]);
+      const child = spawn(command, args, {
+        env: SANDBOX_ENV,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        ...ids,
+      });
+
+      let out = '';
+      let err = '';
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, totalTimeout);
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        if (out.length < MAX_OUTPUT_BYTES * 4) out += chunk.toString('utf-8');
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (err.length < MAX_OUTPUT_BYTES) err += chunk.toString('utf-8');
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', () => {
+        clearTimeout(timer);
+        resolve({ stdout: out, stderr: err, timedOut });
+      });
+
+      child.stdin.on('error', () => {
+        // The child may exit before reading its input; the close handler reports the outcome
+      });
+      child.stdin.end(JSON.stringify({
+        code,
+        cases,
+        entryPoint: entryPoint ?? null,
+        timeoutMs: caseTimeout,
+        memoryMb: getMemoryLimit(),
+      }));
+    }
+  );
+
+  const markerIndex = stdout.lastIndexOf(RESULT_MARKER);
+  if (timedOut || markerIndex === -1) {
+    return { report: null, stdout: markerIndex === -1 ? stdout : stdout.slice(0, markerIndex), stderr, timedOut, totalTimeout };
+  }
+
+  return {
+    report: JSON.parse(stdout.slice(markerIndex + RESULT_MARKER.length)) as HarnessReport,
+    stdout,
+    stderr,
+    timedOut,
+    totalTimeout,
+  };
+}
+
+function toHarnessCase({ name, input, expected, args }: NamedRunCase): HarnessCase {
+  return { name, input, expected, args };
+}
+
+// Structured cases are judged here against the expected value, which never reaches the child
+function checkCase(testCase: NamedRunCase, result: HarnessCaseResult | undefined): RunCaseResult {
+  if (!result) {
+    return { name: testCase.name, input: testCase.input, stdout: '', stderr: 'No result was reported', status: 'error', durationMs: 0 };
+  }
+
+  const checked: RunCaseResult = {
+    name: testCase.name,
+    input: testCase.input,
+    ...(testCase.expected !== undefined ? { expected: testCase.expected } : {}),
+    ...(result.output !== undefined ? { output: result.output } : {}),
+    stdout: truncate(result.stdout),
+    stderr: truncate(result.stderr),
+    status: result.status,
+    durationMs: result.durationMs,
+  };
+  if (testCase.args === undefined || checked.status === 'error' || checked.status === 'timeout') {
+    return checked;
+  }
+
+  return {
+    ...checked,
+    status: isDeepStrictEqual(result.value, testCase.expectedValue) ? 'passed' : 'failed',
+  };
+}
+
+// A hidden case runs in a process of its own that receives only its arguments. Nothing it prints is
+// returned, and only whether it passed is reported.
+async function runHiddenCase(code: string, testCase: NamedRunCase, entryPoint: string | undefined): Promise<RunCaseResult> {
+  const started = Date.now();
+  const run = await runHarness(code, [toHarnessCase(testCase)], entryPoint);
+  const status = run.timedOut
+    ? 'timeout'
+    : run.report?.loaded ? checkCase(testCase, run.report.cases[0]).status : 'error';
+
+  return {
+    name: testCase.name,
+    input: 'Hidden',
+    stdout: '',
+    stderr: status === 'timeout' ? `Time limit of ${getCaseTimeout()} ms exceeded\n` : '',
+    status,
+    durationMs: run.report?.cases[0]?.durationMs ?? Date.now() - started,
+  };
+}
+
+// Run Python code against test cases in sandboxed, resource-limited child processes. Visible cases
+// share one process; each hidden case gets its own.
+export async function runPython(
+  code: string,
+  cases: NamedRunCase[],
+  options: { entryPoint?: string | undefined } = {}
+): Promise<RunResult> {
+  if (!isRunnerAvailable()) {
+    throw new RunnerError(
+      isRunnerEnabled() ? `Sandbox "${getSandboxPath()}" or Python interpreter "${getPythonPath()}" is not available` : 'Code execution is disabled',
+      'UNAVAILABLE'
+    );
+  }
+
+  const started = Date.now();
+
+  try {
+    const visible = cases.filter(testCase => !testCase.hidden);
+    const run = await runHarness(code, visible.map(toHarnessCase), options.entryPoint);
+
+    if (!run.report) {
+      return {
+        status: run.timedOut ? 'timeout' : 'error',
+        cases: [],
+        stdout: truncate(run.stdout),
+        stderr: truncate(run.timedOut ? `Run exceeded ${run.totalTimeout} ms and was stopped\n${run.stderr}` : run.stderr || 'Runner exited unexpectedly'),
+        durationMs: Date.now() - started,
+      };
+    }
+
+    const { report } = run;
+    const visibleResults = visible.map((testCase, index) => checkCase(testCase, report.cases[index]));
+    const results: RunCaseResult[] = [];
+    // Code that does not load fails every case the same way, so hidden cases are not run at all
+    if (report.loaded) {
+      for (const testCase of cases) {
+        results.push(testCase.hidden ? await runHiddenCase(code, testCase, options.entryPoint) : visibleResults.shift()!);
+      }
+    }
+
+    return {
+      status: overallStatus(report.loaded, results),
+      cases: results,
+      stdout: truncate(report.stdout),
+      stderr: truncate(report.stderr + run.stderr),
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    if (error instanceof RunnerError) {
+      throw error;
+    }
+    throw new RunnerError(`Failed to run code: ${getErrorMessage(error)}`);
+  }
+}
+
+export interface QuestionRunOptions {
+  cases?: RunCase[];
+  includeExamples?: boolean;
+  includeTestCases?: boolean;
+  entryPoint?: string | undefined;
+}
+
+function toRunCase(testCase: TestCase, index: number): NamedRunCase {
+  if (testCase.hidden) {
+    return { name: `${HIDDEN_PREFIX} ${index + 1}`, input: 'Hidden', args: testCase.args, expectedValue: testCase.expected, hidden: true };
+  }
+  return {
+    name: `Test ${index + 1}${testCase.label ? `: ${testCase.label}` : ''}`,
+    input: formatTestCaseArgs(testCase.args),
+    expected: JSON.stringify(testCase.expected),
+    args: testCase.args,
+    expectedValue: testCase.expected,
+  };
+}
+
+// Run code against a question's example, stored test cases and any extra cases
+export async function runQuestionTests(
+  question: Question,
+  code: string,
+  options: QuestionRunOptions = {}
+): Promise<RunResult> {
+  const { cases = [], includeExamples = true, includeTestCases = true } = options;
+  const runCases: NamedRunCase[] = [
+    ...(includeExamples
+      ? [{ name: 'Example', input: question.example.input, expected: question.example.output }]
+      : []),
+    ...(includeTestCases ? (question.test_cases ?? []).map(toRunCase) : []),
+    ...cases.map((testCase, index) => ({ ...testCase, name: `Custom ${index + 1}` })),
+  ];
+
+  if (runCases.length === 0) {
+    throw new ValidationError('Provide at least one test case or include the examples');
+  }
+
+  return runPython(code, runCases, { entryPoint: options.entryPoint });
+}
@@ -0,0 +1,58 @@
+import { ReviewRating } from './types';
+
+// SM-2 spaced-repetition scheduling for the review queue
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Self-rated recall mapped onto SM-2 quality grades (0-5); anything below 3 counts as a lapse
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+}
+
+export function scheduleReview(
+  previous: Pick<ReviewSchedule, 'easeFactor' | 'intervalDays' | 'repetitions'> | null,
+  rating: ReviewRating,
+  now: Date = new Date()
+): ReviewSchedule {
+  const quality = RATING_QUALITY[rating];
+  let easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  let repetitions = previous?.repetitions ?? 0;
+  let intervalDays: number;
+
+  if (quality < 3) {
+    // A lapse restarts the repetition sequence without touching the ease factor
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round((previous?.intervalDays ?? 1) * easeFactor);
+    }
+    easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,41 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import { DatabaseError } from './types';
+import { getErrorMessage } from './utils';
+
+// Backing store for rate-limit counters and cached entries. "sqlite" lets every process on the host
+// share them and keeps them across restarts; anything else stays in process memory.
+export type SharedStateBackend = 'memory' | 'sqlite';
+
+export function getSharedStateBackend(variable: 'RATE_LIMIT_STORE' | 'CACHE_STORE'): SharedStateBackend {
+  return process.env[variable] === 'sqlite' ? 'sqlite' : 'memory';
+}
+
+let stateDb: Database.Database | null = null;
+
+// Opened on first use, in the app database unless SHARED_STATE_DB points elsewhere. The stores create
+// their own tables rather than going through migrations, since the file may hold nothing else.
+export function getSharedStateDatabase(): Database.Database {
+  if (stateDb) {
+    return stateDb;
+  }
+
+  const dbPath = path.resolve(
+    process.cwd(),
+    process.env.SHARED_STATE_DB || process.env.DATABASE_URL || 'src/data/questions.db'
+  );
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  try {
+    const db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    // Other processes only hold the write lock for a single counter update
+    db.pragma('busy_timeout = 5000');
+    stateDb = db;
+    return db;
+  } catch (error) {
+    throw new DatabaseError(`Failed to open shared state database: ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,74 @@
+// Minimal server-sent events helpers shared by streaming routes and their clients
+export interface SSEEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable nginx response buffering
+} as const;
+
+function parseSSEBlock(block: string): SSEEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+}
+
+// Read SSE events from a fetch response body
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let separatorIndex = buffer.indexOf('\n\n');
+      while (separatorIndex !== -1) {
+        const parsed = parseSSEBlock(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        if (parsed) {
+          yield parsed;
+        }
+        separatorIndex = buffer.indexOf('\n\n');
+      }
+    }
+
+    const parsed = parseSSEBlock(buffer);
+    if (parsed) {
+      yield parsed;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,6 +1,27 @@
 import { z } from 'zod';
 
 // Zod schemas for runtime validation
+export const LanguageSchema = z.enum(['python', 'javascript', 'java', 'cpp']);
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+const JsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(JsonValueSchema), z.record(JsonValueSchema)])
+);
+
+const MAX_TEST_CASE_SIZE = 5000;
+
+export const TestCaseSchema = z.object({
+  id: z.number().int().positive().optional(),
+  // Named arguments passed to the solution, e.g. { "nums": [2, 7], "target": 9 }
+  args: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid argument name'), JsonValueSchema),
+  expected: JsonValueSchema,
+  hidden: z.boolean().default(false),
+  label: z.string().trim().min(1).max(100).optional(),
+}).refine(data => JSON.stringify([data.args, data.expected]).length <= MAX_TEST_CASE_SIZE, {
+  message: `Test case must be at most ${MAX_TEST_CASE_SIZE} characters of JSON`,
+});
+
 export const QuestionSchema = z.object({
   id: z.string().min(1),
   title: z.string().min(1).max(200),
@@ -13,21 +34,96 @@ export const QuestionSchema = z.object({
     explanation: z.string().min(1),
   }),
   solution_python: z.string().min(1),
+  // Solutions keyed by language; python mirrors solution_python
+  solutions: z.record(LanguageSchema, z.string().min(1)).optional(),
+  test_cases: z.array(TestCaseSchema).max(30).optional(),
+  // Ordered from a gentle nudge to an explicit pointer at the approach
+  hints: z.array(z.string().min(1).max(500)).max(10).optional(),
+  // Account that generated the question; unset for questions from before accounts existed
+  owner_id: z.string().optional(),
   step_by_step_explanation: z.array(z.string()).min(1),
   pseudocode: z.array(z.string()).optional(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime().optional(),
 });
 
+// Hand-authored question content; the server assigns the id, owner and timestamps
+export const QuestionInputSchema = QuestionSchema.omit({ id: true, owner_id: true, created_at: true, updated_at: true });
+
+export const QuestionPatchSchema = QuestionInputSchema.partial().refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+// Where a saved version of a question came from
+export const RevisionSourceSchema = z.enum(['generation', 'edit', 'import', 'rollback']);
+
+export const RevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  // Defaults to the latest revision
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+export const RollbackSchema = z.object({
+  revision: z.number().int().min(1),
+});
+
+// Structured feedback on a user's own solution, as returned by the AI provider
+export const CodeReviewSchema = z.object({
+  verdict: z.enum(['correct', 'partially_correct', 'incorrect']),
+  summary: z.string().min(1).max(2000),
+  correctness: z.array(z.string()).max(10).default([]),
+  complexity: z.object({
+    time: z.string().min(1).max(100),
+    space: z.string().min(1).max(100),
+    notes: z.string().max(500).optional(),
+  }),
+  style: z.array(z.string()).max(10).default([]),
+  edgeCases: z.array(z.object({
+    case: z.string().min(1).max(300),
+    issue: z.string().min(1).max(500),
+  })).max(10).default([]),
+  suggestions: z.array(z.string()).max(10).default([]),
+  // Filled in from the local runner, not by the model
+  tests: z.object({
+    status: z.enum(['passed', 'failed', 'error', 'timeout']),
+    passed: z.number().int().min(0),
+    total: z.number().int().min(0),
+  }).optional(),
+});
+
 export const ChatMessageSchema = z.object({
   id: z.string().min(1),
   role: z.enum(['user', 'assistant']),
   content: z.string().min(1).max(5000),
   timestamp: z.string().datetime(),
+  review: CodeReviewSchema.optional(),
+  // Brought in from history a browser had saved, so never used as the tutor's own earlier replies
+  imported: z.boolean().optional(),
 });
 
+// Imports take only the text of each message; ids, times and review cards are not accepted from clients
+export const ImportedChatMessageSchema = ChatMessageSchema.pick({ role: true, content: true });
+
+export const CodeReviewRequestSchema = z.object({
+  code: z.string().trim().min(1, 'Code cannot be empty').max(10000),
+  language: LanguageSchema.default('python'),
+  // Thread to post the review into; a new one is created when omitted
+  conversationId: z.string().min(1).optional(),
+});
+
+// What generation does with a title that already has a question
+export const DuplicateTitleActionSchema = z.enum(['skip', 'update', 'variant']);
+
 export const GenerateRequestSchema = z.object({
   titles: z.array(z.string().min(1).max(200)).min(1).max(20),
+  // Extra languages to generate alongside the Python solution
+  languages: z.array(LanguageSchema).max(4).default([]),
+  onDuplicate: DuplicateTitleActionSchema.default('skip'),
+});
+
+export const TranslateSolutionSchema = z.object({
+  language: LanguageSchema.exclude(['python']),
+  overwrite: z.boolean().default(false),
 });
 
 export const ExportFormatSchema = z.object({
@@ -38,15 +134,158 @@ export const ExportFormatSchema = z.object({
 export const ChatRequestSchema = z.object({
   questionId: z.string().min(1),
   message: z.string().min(1).max(1000),
-  chatHistory: z.array(ChatMessageSchema).max(50),
+  chatHistory: z.array(ChatMessageSchema).max(50).default([]),
+  conversationId: z.string().min(1).optional(),
+  stream: z.boolean().optional(),
+});
+
+export const QUESTION_SORT_FIELDS = ['relevance', 'created', 'updated', 'title', 'difficulty'] as const;
+
+const DateFilterSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), {
+  message: 'Invalid date',
+});
+
+// FTS columns that search terms can be filtered to and weighted by
+export const SearchFieldSchema = z.enum(['title', 'topics', 'description', 'solution', 'explanation']);
+
+export const QuestionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(QUESTION_SORT_FIELDS).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  difficulty: z.array(z.enum(['Easy', 'Medium', 'Hard'])).max(3).optional(),
+  topics: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+  // Overrides the default ranking weight of each field in search results
+  weights: z.record(SearchFieldSchema, z.coerce.number().min(0).max(100)).optional(),
+  from: DateFilterSchema.optional(),
+  to: DateFilterSchema.optional(),
+});
+
+export const RunCaseSchema = z.object({
+  input: z.string().max(5000),
+  expected: z.string().max(5000).optional(),
+});
+
+export const TestCaseListSchema = z.object({
+  testCases: z.array(TestCaseSchema).max(30),
+});
+
+export const HintRevealSchema = z.object({
+  // "next" reveals one more hint; "solution" reveals every hint and unlocks the solution
+  action: z.enum(['next', 'solution']).default('next'),
+});
+
+export const RegisterSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  name: z.string().trim().min(1).max(100),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+});
+
+export const LoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  password: z.string().min(1).max(200),
+});
+
+// Each role includes everything the roles before it may do
+export const UserRoleSchema = z.enum(['viewer', 'editor', 'admin']);
+
+export const UpdateUserRoleSchema = z.object({
+  role: UserRoleSchema,
+});
+
+// Groups of routes an API key may call; questions only reads, edit also changes questions and topics
+export const ApiKeyScopeSchema = z.enum(['generate', 'export', 'questions', 'edit']);
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(ApiKeyScopeSchema).min(1).transform(scopes => Array.from(new Set(scopes))),
+  // The account the key acts as; defaults to the admin creating it
+  userId: z.string().trim().min(1).optional(),
+  expiresAt: z.string().datetime().refine(value => new Date(value).getTime() > Date.now(), 'Expiry must be in the future').optional(),
+  // Requests per minute, capped by the limit of each route; keys without one get the route's limit
+  rateLimit: z.number().int().min(1).max(1000).optional(),
+});
+
+// Self-rated recall after reviewing a question, from forgotten to effortless
+export const ReviewRatingSchema = z.enum(['again', 'hard', 'good', 'easy']);
+
+export const ReviewRatingRequestSchema = z.object({
+  rating: ReviewRatingSchema,
+});
+
+export const SubmissionSchema = z.object({
+  language: LanguageSchema,
+  code: z.string().trim().min(1, 'Code cannot be empty').max(20000),
+});
+
+export const RunRequestSchema = z.object({
+  // Defaults to the question's reference solution
+  code: z.string().min(1).max(20000).optional(),
+  entryPoint: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid function name').optional(),
+  cases: z.array(RunCaseSchema).max(20).default([]),
+  includeExamples: z.boolean().default(true),
+  // Stored test cases; hidden ones run but their inputs and outputs are not returned
+  includeTestCases: z.boolean().default(true),
+});
+
+const TopicNameSchema = z.string().trim().min(1).max(100);
+
+export const TopicMergeSchema = z.object({
+  source: TopicNameSchema,
+  target: TopicNameSchema,
+}).refine(data => data.source.toLowerCase() !== data.target.toLowerCase(), {
+  message: 'Cannot merge a topic into itself',
+  path: ['target'],
+});
+
+export const TopicAliasSchema = z.object({
+  alias: TopicNameSchema,
+  topic: TopicNameSchema,
+});
+
+export const CreateConversationSchema = z.object({
+  questionId: z.string().min(1),
+  title: z.string().max(100).optional(),
+  messages: z.array(ImportedChatMessageSchema).max(50).optional(),
+});
+
+export const UpdateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100),
 });
 
 // TypeScript types inferred from Zod schemas
 export type Question = z.infer<typeof QuestionSchema>;
+export type QuestionInput = z.infer<typeof QuestionInputSchema>;
+export type QuestionPatch = z.infer<typeof QuestionPatchSchema>;
+export type RevisionDiffQuery = z.infer<typeof RevisionDiffQuerySchema>;
+export type RollbackRequest = z.infer<typeof RollbackSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ImportedChatMessage = z.infer<typeof ImportedChatMessageSchema>;
+export type CodeReview = z.infer<typeof CodeReviewSchema>;
+export type CodeReviewRequest = z.infer<typeof CodeReviewRequestSchema>;
 export type GenerateRequest = z.infer<typeof GenerateRequestSchema>;
+export type DuplicateTitleAction = z.infer<typeof DuplicateTitleActionSchema>;
 export type ExportFormat = z.infer<typeof ExportFormatSchema>;
 export type ChatRequest = z.infer<typeof ChatRequestSchema>;
+export type TranslateSolutionRequest = z.infer<typeof TranslateSolutionSchema>;
+export type TestCase = z.infer<typeof TestCaseSchema>;
+export type RunCase = z.infer<typeof RunCaseSchema>;
+export type SubmissionRequest = z.infer<typeof SubmissionSchema>;
+export type HintRevealRequest = z.infer<typeof HintRevealSchema>;
+export type ReviewRatingRequest = z.infer<typeof ReviewRatingRequestSchema>;
+export type RegisterRequest = z.infer<typeof RegisterSchema>;
+export type LoginRequest = z.infer<typeof LoginSchema>;
+export type UpdateUserRoleRequest = z.infer<typeof UpdateUserRoleSchema>;
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeySchema>;
+export type RunRequest = z.infer<typeof RunRequestSchema>;
+export type QuestionQuery = z.infer<typeof QuestionQuerySchema>;
+export type SearchField = z.infer<typeof SearchFieldSchema>;
+export type QuestionSortField = typeof QUESTION_SORT_FIELDS[number];
+export type TopicMergeRequest = z.infer<typeof TopicMergeSchema>;
+export type TopicAliasRequest = z.infer<typeof TopicAliasSchema>;
+export type CreateConversationRequest = z.infer<typeof CreateConversationSchema>;
+export type UpdateConversationRequest = z.infer<typeof UpdateConversationSchema>;
 
 // Additional types
 export interface ApiResponse<T = unknown> {
@@ -65,6 +304,149 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+export interface QuestionNavigation {
+  previous: Pick<Question, 'id' | 'title' | 'difficulty'> | null;
+  next: Pick<Question, 'id' | 'title' | 'difficulty'> | null;
+  position: number; // zero-based index in the default (newest first) ordering
+  total: number;
+}
+
+export interface Topic {
+  id: number;
+  name: string;
+  aliases: string[];
+}
+
+export interface TopicSummary extends Topic {
+  total: number;
+  byDifficulty: Record<Question['difficulty'], number>;
+}
+
+export type RunStatus = 'passed' | 'failed' | 'error' | 'timeout';
+
+// 'ran' means the case had no expected output to compare against
+export type RunCaseStatus = RunStatus | 'ran';
+
+export interface RunCaseResult {
+  name: string;
+  input: string;
+  expected?: string;
+  output?: string;
+  stdout: string;
+  stderr: string;
+  status: RunCaseStatus;
+  durationMs: number;
+}
+
+export interface RunResult {
+  status: RunStatus;
+  cases: RunCaseResult[];
+  stdout: string; // output printed while loading the code
+  stderr: string;
+  durationMs: number;
+}
+
+export interface HintProgress {
+  total: number;
+  revealed: string[];
+  // The solution and explanation stay hidden until every hint has been consumed
+  solutionUnlocked: boolean;
+  // Sent once solutionUnlocked is true; question responses leave these fields out until then
+  solution?: UnlockedSolution;
+}
+
+export interface ReviewState {
+  questionId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lastRating: ReviewRating | null;
+  lastReviewedAt: string | null;
+  dueAt: string;
+}
+
+export interface DueReview {
+  question: QuestionView;
+  state: ReviewState;
+}
+
+export interface ReviewQueue {
+  due: DueReview[];
+  // Every question with a schedule, due or not
+  scheduled: number;
+  nextDueAt: string | null;
+}
+
+export interface ProgressCounts {
+  total: number;
+  // At least one submission
+  attempted: number;
+  // At least one submission that passed every test
+  solved: number;
+  bookmarked: number;
+}
+
+export interface TopicProgress extends ProgressCounts {
+  topic: string;
+  submissions: number;
+  // Share of submissions that passed, 0-1
+  passRate: number;
+}
+
+export interface ActivityDay {
+  date: string; // YYYY-MM-DD (UTC)
+  submissions: number;
+  passed: number;
+}
+
+export interface HistoryEntry {
+  submissionId: string;
+  questionId: string;
+  questionTitle: string;
+  difficulty: Question['difficulty'];
+  language: SupportedLanguage;
+  status: SubmissionStatus;
+  passed: number;
+  total: number;
+  created_at: string;
+}
+
+export interface ProgressStats {
+  overall: ProgressCounts;
+  byDifficulty: Record<Question['difficulty'], ProgressCounts>;
+  byTopic: TopicProgress[];
+  weakestTopics: TopicProgress[];
+  streak: {
+    current: number;
+    longest: number;
+    activeDays: number;
+  };
+  activity: ActivityDay[];
+  history: HistoryEntry[];
+}
+
+export interface CodeReviewResult {
+  review: CodeReview;
+  conversationId: string;
+  // The review request and the review, as stored in the conversation
+  messages: ChatMessage[];
+}
+
+// "unchecked" when the language cannot be run locally
+export type SubmissionStatus = RunStatus | 'unchecked';
+
+export interface Submission {
+  id: string;
+  questionId: string;
+  language: SupportedLanguage;
+  code: string;
+  status: SubmissionStatus;
+  passed: number;
+  total: number;
+  result?: RunResult;
+  created_at: string;
+}
+
 export interface DatabaseQuestion {
   id: string;
   title: string;
@@ -75,17 +457,163 @@ export interface DatabaseQuestion {
   solution_python: string;
   step_by_step_explanation: string; // JSON string
   pseudocode: string | null; // JSON string
+  hints: string | null; // JSON string
+  owner_id: string | null;
   created_at: string;
   updated_at: string | null;
 }
 
 export interface GenerationStatus {
   total: number;
-  completed: number;
+  completed: number; // includes skipped titles
   failed: number;
+  skipped: number;
   errors: string[];
 }
 
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchMatch {
+  rank: number; // bm25 score, lower is more relevant
+  snippet: SnippetSegment[];
+}
+
+export type QuestionSearchResult = Question & { match: SearchMatch };
+
+// Fields held back from learners until they finish the hint ladder
+export type LockedQuestionField = 'hints' | 'solution_python' | 'solutions' | 'step_by_step_explanation' | 'pseudocode';
+
+export type UnlockedSolution = Pick<Question, Exclude<LockedQuestionField, 'hints'>>;
+
+// A question as sent to callers below editor. Hidden test cases stay on the server and are only counted,
+// and while the solution is locked the locked fields are left out and hint_count and starter_python stand in.
+export type QuestionView<T extends Question = Question> = Omit<T, LockedQuestionField> & Partial<Pick<Question, LockedQuestionField>> & {
+  hidden_test_count?: number;
+  hint_count?: number;
+  // The reference solution's signature with an empty body
+  starter_python?: string;
+};
+
+export interface Conversation {
+  id: string;
+  questionId: string;
+  userId: string | null;
+  title: string;
+  messageCount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: ChatMessage[];
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type GenerationItemStatus = 'queued' | 'running' | 'done' | 'failed';
+// What a finished item did: a new question, an existing one regenerated in place, the existing one
+// left alone, or a new question under a numbered title next to the existing one
+export type GenerationItemAction = 'created' | 'updated' | 'skipped' | 'variant';
+
+export interface GenerationJobItem {
+  position: number;
+  title: string;
+  status: GenerationItemStatus;
+  action?: GenerationItemAction;
+  questionId?: string;
+  error?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  userId: string | null;
+  status: GenerationJobStatus;
+  items: GenerationJobItem[];
+  languages: SupportedLanguage[]; // extra solution languages requested for every title
+  onDuplicate: DuplicateTitleAction;
+  progress: GenerationStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// The editable fields of a question as captured in a revision; empty lists are stored as null
+export interface QuestionContent {
+  title: string;
+  difficulty: Question['difficulty'];
+  topics: string[];
+  description: string;
+  example: Question['example'];
+  solution_python: string;
+  step_by_step_explanation: string[];
+  pseudocode: string[] | null;
+  hints: string[] | null;
+}
+
+export type QuestionContentField = keyof QuestionContent;
+
+export interface QuestionRevision {
+  id: number;
+  questionId: string;
+  revision: number;
+  source: RevisionSource;
+  authorId: string | null;
+  authorName: string | null;
+  // The revision whose content a rollback brought back
+  restoredFrom: number | null;
+  // Fields that differ from the previous revision
+  changedFields: QuestionContentField[];
+  created_at: string;
+}
+
+export interface RevisionFieldChange {
+  field: QuestionContentField;
+  before: QuestionContent[QuestionContentField];
+  after: QuestionContent[QuestionContentField];
+}
+
+export interface RevisionDiff {
+  questionId: string;
+  from: number;
+  to: number;
+  changes: RevisionFieldChange[];
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  created_at: string;
+}
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // first characters of the key, enough to recognise it
+  scopes: ApiKeyScope[];
+  rateLimit: number | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  created_at: string;
+}
+
+// Returned once on creation; only a hash of the key is stored
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+// Per-request caller information resolved from the session cookie or an API key
+export interface RequestContext {
+  user: User | null;
+  apiKey: ApiKey | null;
+  // Key for per-caller limits: the API key or user id when authenticated, otherwise the client IP
+  clientId: string;
+}
+
 export interface ThemeContextType {
   isDark: boolean;
   toggle: () => void;
@@ -99,6 +627,13 @@ export class ValidationError extends Error {
   }
 }
 
+export class AuthError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
 export class DatabaseError extends Error {
   constructor(message: string, public code?: string) {
     super(message);
@@ -113,6 +648,13 @@ export class GeminiError extends Error {
   }
 }
 
+export class RunnerError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'RunnerError';
+  }
+}
+
 // Constants
 export const DIFFICULTY_COLORS = {
   Easy: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
@@ -120,9 +662,88 @@ export const DIFFICULTY_COLORS = {
   Hard: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
 } as const;
 
-export const SUPPORTED_LANGUAGES = ['python', 'javascript', 'java', 'cpp'] as const;
+export const SUPPORTED_LANGUAGES = LanguageSchema.options;
 export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
 
+export const LANGUAGE_LABELS: Record<SupportedLanguage, string> = {
+  python: 'Python',
+  javascript: 'JavaScript',
+  java: 'Java',
+  cpp: 'C++',
+};
+
+export const REVIEW_RATINGS = ReviewRatingSchema.options;
+export type ReviewRating = typeof REVIEW_RATINGS[number];
+
+export const REVIEW_RATING_LABELS: Record<ReviewRating, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+export const USER_ROLES = UserRoleSchema.options;
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+};
+
+export const API_KEY_SCOPES = ApiKeyScopeSchema.options;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  generate: 'Generate questions',
+  export: 'Export',
+  questions: 'Read questions and topics',
+  edit: 'Edit questions and topics',
+};
+
+export const DUPLICATE_TITLE_ACTIONS = DuplicateTitleActionSchema.options;
+
+export const DUPLICATE_TITLE_ACTION_LABELS: Record<DuplicateTitleAction, string> = {
+  skip: 'Skip existing titles',
+  update: 'Regenerate existing questions in place',
+  variant: 'Add as a variant',
+};
+
+export const REVISION_SOURCES = RevisionSourceSchema.options;
+export type RevisionSource = typeof REVISION_SOURCES[number];
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  generation: 'AI generation',
+  edit: 'Manual edit',
+  import: 'Import',
+  rollback: 'Rollback',
+};
+
+// In the order they appear on the question page
+export const QUESTION_CONTENT_FIELDS: QuestionContentField[] = [
+  'title',
+  'difficulty',
+  'topics',
+  'description',
+  'example',
+  'solution_python',
+  'step_by_step_explanation',
+  'pseudocode',
+  'hints',
+];
+
+export const QUESTION_CONTENT_FIELD_LABELS: Record<QuestionContentField, string> = {
+  title: 'Title',
+  difficulty: 'Difficulty',
+  topics: 'Topics',
+  description: 'Description',
+  example: 'Example',
+  solution_python: 'Python solution',
+  step_by_step_explanation: 'Step-by-step explanation',
+  pseudocode: 'Pseudocode',
+  hints: 'Hints',
+};
+
 export const MAX_QUESTIONS_PER_GENERATION = 20;
 export const MAX_CHAT_HISTORY = 50;
 export const MAX_TITLE_LENGTH = 200;
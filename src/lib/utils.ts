@@ -1,4 +1,5 @@
 import { type ClassValue, clsx } from 'clsx';
+import { User, UserRole, USER_ROLES, Question, QuestionView, QuestionContent, RevisionFieldChange, QUESTION_CONTENT_FIELDS } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
@@ -19,15 +20,111 @@ export function formatDate(dateString: string): string {
   }
 }
 
+// Describe a due date relative to today in calendar days, e.g. "Tomorrow" or "3 days overdue"
+export function formatDueDate(dateString: string, now: Date = new Date()): string {
+  const due = new Date(dateString);
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(due) - startOfDay(now)) / (24 * 60 * 60 * 1000));
+
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days > 1) return `In ${days} days`;
+  return `${-days} day${days !== -1 ? 's' : ''} overdue`;
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength).trim() + '...';
 }
 
+// Render named test case arguments as "nums = [1,2], target = 3"
+export function formatTestCaseArgs(args: Record<string, unknown>): string {
+  return Object.entries(args).map(([name, value]) => `${name} = ${JSON.stringify(value)}`).join(', ');
+}
+
 export function generateId(): string {
   return `Q${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+export function generateJobId(): string {
+  return `J${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function generateConversationId(): string {
+  return `C${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function generateMessageId(): string {
+  return `M${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function generateSubmissionId(): string {
+  return `S${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function generateUserId(): string {
+  return `U${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function generateApiKeyId(): string {
+  return `K${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Roles are ordered, so an admin also passes editor and viewer checks
+export function hasRole(user: User | null, role: UserRole): boolean {
+  return user !== null && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
+
+const PYTHON_INDENT = '    ';
+
+// Python starters reuse the reference signature so submissions match the test case arguments
+export function getPythonStarterCode(solution: string): string {
+  const lines = solution.split('\n');
+  const classIndex = lines.findIndex(line => /^class Solution\b/.test(line));
+  if (classIndex !== -1) {
+    const method = lines.slice(classIndex + 1).find(line => /^\s+def [A-Za-z]\w*\(/.test(line));
+    if (method) {
+      const indent = method.match(/^\s*/)?.[0] ?? PYTHON_INDENT;
+      return `${lines[classIndex]}\n${method.trimEnd()}\n${indent}${PYTHON_INDENT}# Write your solution here\n${indent}${PYTHON_INDENT}pass\n`;
+    }
+  }
+
+  const signature = lines.find(line => /^def [A-Za-z]\w*\(/.test(line));
+  return signature
+    ? `${signature.trimEnd()}\n${PYTHON_INDENT}# Write your solution here\n${PYTHON_INDENT}pass\n`
+    : '# Write your solution here\n';
+}
+
+// Hidden test cases check solutions, so only their number leaves the server
+export function withoutHiddenTestCases<T extends Question>(question: T): T & { hidden_test_count: number } {
+  const testCases = question.test_cases ?? [];
+  const visible = testCases.filter(testCase => !testCase.hidden);
+  return { ...question, test_cases: visible, hidden_test_count: testCases.length - visible.length };
+}
+
+// Editors see everything. Everyone else gets the visible test cases and, until solutionUnlocked,
+// neither the hints nor the solutions, explanation and pseudocode.
+export function toQuestionView<T extends Question>(question: T, user: User | null, solutionUnlocked: boolean): QuestionView<T> {
+  if (hasRole(user, 'editor')) {
+    return question;
+  }
+
+  const view = withoutHiddenTestCases(question);
+  if (solutionUnlocked) {
+    return view;
+  }
+
+  const { hints, solution_python, solutions: _solutions, step_by_step_explanation: _steps, pseudocode: _pseudocode, ...locked } = view;
+  return { ...locked, hint_count: hints?.length ?? 0, starter_python: getPythonStarterCode(solution_python) };
+}
+
+// Field-by-field changes between two revisions, in page order
+export function diffQuestionContent(before: QuestionContent, after: QuestionContent): RevisionFieldChange[] {
+  return QUESTION_CONTENT_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
 export function sanitizeInput(input: string): string {
   return input
     .trim()
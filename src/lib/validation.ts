@@ -1,10 +1,31 @@
 import { z } from 'zod';
 import { 
   QuestionSchema, 
+  QuestionInputSchema,
+  QuestionPatchSchema,
   ChatMessageSchema, 
   GenerateRequestSchema, 
   ExportFormatSchema, 
   ChatRequestSchema,
+  CreateConversationSchema,
+  UpdateConversationSchema,
+  QuestionQuerySchema,
+  TopicMergeSchema,
+  TopicAliasSchema,
+  TranslateSolutionSchema,
+  RunRequestSchema,
+  TestCaseSchema,
+  TestCaseListSchema,
+  SubmissionSchema,
+  CodeReviewRequestSchema,
+  HintRevealSchema,
+  ReviewRatingRequestSchema,
+  RegisterSchema,
+  LoginSchema,
+  UpdateUserRoleSchema,
+  CreateApiKeySchema,
+  RevisionDiffQuerySchema,
+  RollbackSchema,
   ValidationError 
 } from './types';
 
@@ -25,6 +46,40 @@ export function validateQuestion(data: unknown) {
   }
 }
 
+export function validateQuestionInput(data: unknown) {
+  try {
+    return QuestionInputSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid question data: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid question data');
+  }
+}
+
+export function validateQuestionPatch(data: unknown) {
+  try {
+    return QuestionPatchSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid question update: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid question update');
+  }
+}
+
 export function validateChatMessage(data: unknown) {
   try {
     return ChatMessageSchema.parse(data);
@@ -93,6 +148,295 @@ export function validateChatRequest(data: unknown) {
   }
 }
 
+export function validateQuestionQuery(data: unknown) {
+  try {
+    return QuestionQuerySchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid question query: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid question query');
+  }
+}
+
+export function validateTopicMerge(data: unknown) {
+  try {
+    return TopicMergeSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid topic merge: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid topic merge');
+  }
+}
+
+export function validateTopicAlias(data: unknown) {
+  try {
+    return TopicAliasSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid topic alias: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid topic alias');
+  }
+}
+
+export function validateTranslateSolution(data: unknown) {
+  try {
+    return TranslateSolutionSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid translation request: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid translation request');
+  }
+}
+
+export function validateRunRequest(data: unknown) {
+  try {
+    return RunRequestSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid run request: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid run request');
+  }
+}
+
+export function validateTestCase(data: unknown) {
+  try {
+    return TestCaseSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid test case: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid test case');
+  }
+}
+
+export function validateTestCaseList(data: unknown) {
+  try {
+    return TestCaseListSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid test cases: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid test cases');
+  }
+}
+
+export function validateSubmission(data: unknown) {
+  try {
+    return SubmissionSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid submission: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid submission');
+  }
+}
+
+export function validateCodeReviewRequest(data: unknown) {
+  try {
+    return CodeReviewRequestSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid review request: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid review request');
+  }
+}
+
+export function validateHintReveal(data: unknown) {
+  try {
+    return HintRevealSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid hint request: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid hint request');
+  }
+}
+
+export function validateReviewRating(data: unknown) {
+  try {
+    return ReviewRatingRequestSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid review rating: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid review rating');
+  }
+}
+
+export function validateRegister(data: unknown) {
+  try {
+    return RegisterSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid registration: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid registration');
+  }
+}
+
+export function validateLogin(data: unknown) {
+  try {
+    return LoginSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid login: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid login');
+  }
+}
+
+export function validateUpdateUserRole(data: unknown) {
+  try {
+    return UpdateUserRoleSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid role update: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid role update');
+  }
+}
+
+export function validateCreateApiKey(data: unknown) {
+  try {
+    return CreateApiKeySchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid API key: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid API key');
+  }
+}
+
+export function validateCreateConversation(data: unknown) {
+  try {
+    return CreateConversationSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid conversation: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid conversation');
+  }
+}
+
+export function validateUpdateConversation(data: unknown) {
+  try {
+    return UpdateConversationSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid conversation update: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid conversation update');
+  }
+}
+
 // Additional validation utilities
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -139,4 +483,38 @@ export function validateAndSanitizeTitle(title: string): string {
 export function validateProgrammingLanguage(language: string): boolean {
   const supportedLanguages = ['python', 'javascript', 'java', 'cpp', 'c', 'go', 'rust'];
   return supportedLanguages.includes(language.toLowerCase());
-}
\ No newline at end of file
+}
+
+export function validateRevisionDiffQuery(data: unknown) {
+  try {
+    return RevisionDiffQuerySchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid revision diff query: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid revision diff query');
+  }
+}
+
+export function validateRollback(data: unknown) {
+  try {
+    return RollbackSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      if (firstError) {
+        throw new ValidationError(
+          `Invalid rollback request: ${firstError.message}`,
+          firstError.path.join('.')
+        );
+      }
+    }
+    throw new ValidationError('Invalid rollback request');
+  }
+}